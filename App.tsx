@@ -1,20 +1,54 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import ThreeViewer, { ViewerHandle } from './components/ThreeViewer';
-import { AppState, ModelMetadata, ExportConfig, SceneSettings } from './types';
+import { AppState, AnimationClipInfo, AnimationLoop, AnimationSettings, ModelMetadata, ModelStats, ModelTransform, PlacementFix, ExportConfig, ClipPlane, ClippingSettings, CompareMode, CompareSettings, DeviationSettings, Colormap, ExportFormat, ExportProgress, ExportReport, MaterialEdit, MaterialInfo, Measurement, MeasurementKind, MeasurementUnit, SceneNode, SceneSettings, DracoSettings, MeshoptSettings, SimplifySettings, LodSettings, ObjSettings, PcdSettings, PlySettings, PointCloudSettings, PointOctreeStats, PointProcessingSettings, PointColorMode, ReconstructionSettings, RegistrationPair, RegistrationSettings, RegistrationSide, StlSettings, UsdzSettings, MeshFix, TransformMode, ValidationCheck, ValidationIssue } from './types';
+import { EXPORT_STAGE_LABELS } from './utils/exportProgress';
+import { emptyModelStats } from './utils/modelStats';
+import { buildParentMap, collectHiddenNodes } from './utils/sceneGraph';
+import { formatMeasurement, MEASUREMENT_UNITS, measurementsToCSV, measurementsToJSON } from './utils/measurements';
+import { downloadFile } from './utils/download';
+import { createClippingSettings } from './utils/clipping';
+import { COLORMAPS, colormapGradient, scalarFieldNames } from './utils/pointColoring';
+import { createPointProcessingSettings } from './utils/pointProcessing';
+import { createReconstructionSettings } from './utils/surfaceReconstruction';
+import { MESH_FIX_LABELS, VALIDATION_LABELS } from './utils/meshValidation';
+import { createDeviationSettings, deviationRange, deviationStats, histogramColors } from './utils/deviation';
+import { convertModelUnits, createModelTransform, createSceneModel, diffMetadata, isIdentityTransform, MAIN_MODEL_ID, MetadataDiffRow, SceneModel } from './utils/sceneModels';
+import { addPairPoint, completePairs, createRegistrationSettings } from './utils/registration';
+import { clipFrameRate, createAnimationSettings } from './utils/animationClips';
+import { EXPORT_FORMAT_LABELS, GLTF_FORMATS, MESH_ONLY_FORMATS, POINT_ONLY_FORMATS } from './utils/sceneExporters';
+import { buildFileQueue, collectDroppedFiles, createModelSource, FILE_ACCEPT, ModelSource, QueuedModel, revokeModelSource } from './utils/modelFiles';
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [loadingStatus, setLoadingStatus] = useState<string>('');
-  const [exportProgress, setExportProgress] = useState<number>(0);
-  const [modelUrl, setModelUrl] = useState<string | null>(null);
-  const [extension, setExtension] = useState<string | null>(null);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const [modelSource, setModelSource] = useState<ModelSource | null>(null);
+  const [fileQueue, setFileQueue] = useState<QueuedModel[]>([]);
+  const [queueIndex, setQueueIndex] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
   const [metadata, setMetadata] = useState<ModelMetadata | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isAboutModalOpen, setIsAboutModalOpen] = useState(false);
   const [isDonationModalOpen, setIsDonationModalOpen] = useState(false);
+  const [exportReport, setExportReport] = useState<ExportReport | null>(null);
+  const [statsTable, setStatsTable] = useState<'meshes' | 'materials' | 'textures' | null>(null);
+  const [sceneGraph, setSceneGraph] = useState<SceneNode | null>(null);
+  const [isOutlinerOpen, setIsOutlinerOpen] = useState(true);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [hiddenNodeIds, setHiddenNodeIds] = useState<string[]>([]);
+  const [isolatedNodeId, setIsolatedNodeId] = useState<string | null>(null);
+  const [expandedNodeIds, setExpandedNodeIds] = useState<string[]>([]);
+  const [materials, setMaterials] = useState<MaterialInfo[]>([]);
+  const [isMaterialsOpen, setIsMaterialsOpen] = useState(false);
+  const [editedMaterialId, setEditedMaterialId] = useState<string | null>(null);
+  const [measureMode, setMeasureMode] = useState<MeasurementKind | null>(null);
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [measureUnit, setMeasureUnit] = useState<MeasurementUnit>('m');
+  const [snapToVertices, setSnapToVertices] = useState(true);
+  const [animationClips, setAnimationClips] = useState<AnimationClipInfo[]>([]);
   
   const [sceneSettings, setSceneSettings] = useState<SceneSettings>({
     autoRotate: false,
@@ -22,39 +56,432 @@ const App: React.FC = () => {
     showSkeleton: false,
     playAnimation: true,
     activeAnimationIndex: 0,
-    pointSize: 0.05
+    animation: createAnimationSettings(),
+    pointSize: 0.05,
+    pointBudget: 3000000,
+    pointCloud: {
+      colorMode: 'rgb',
+      elevationAxis: 'y',
+      colormap: 'viridis',
+      scalarField: 'intensity',
+      sizeMode: 'world',
+      screenPointSize: 3,
+      shape: 'square'
+    },
+    clipping: createClippingSettings()
   });
 
   const [exportSettings, setExportSettings] = useState<Omit<ExportConfig, 'fileName'>>({
     format: 'glb',
     draco: false,
-    ktx2: false
+    dracoSettings: {
+      positionBits: 14,
+      normalBits: 10,
+      uvBits: 12,
+      colorBits: 8
+    },
+    meshopt: false,
+    meshoptSettings: {
+      optimizeOverdraw: true,
+      quantize: true,
+      filter: false
+    },
+    ktx2: false,
+    lod: {
+      enabled: false,
+      ratios: [100, 50, 25, 10],
+      packing: 'separate'
+    },
+    objSettings: {
+      includeMaterials: true
+    },
+    plySettings: {
+      binary: true,
+      includeNormals: true,
+      includeColors: true
+    },
+    pcdSettings: {
+      binary: true
+    },
+    stlSettings: {
+      binary: true
+    },
+    usdzSettings: {
+      quickLookCompatible: true,
+      anchoring: 'horizontal',
+      maxTextureSize: 1024
+    },
+    clipToSections: false,
+    applyTransforms: true,
+    animations: null
   });
 
+  const [simplifySettings, setSimplifySettings] = useState<SimplifySettings>({
+    enabled: false,
+    mode: 'ratio',
+    ratio: 0.5,
+    triangleBudget: 100000,
+    errorThreshold: 0.01,
+    lockBorder: false
+  });
+  const [pointProcessing, setPointProcessing] = useState<PointProcessingSettings>(createPointProcessingSettings);
+  const [isProcessingPoints, setIsProcessingPoints] = useState(false);
+  const [pointOctree, setPointOctree] = useState<PointOctreeStats | null>(null);
+  const [reconstruction, setReconstruction] = useState<ReconstructionSettings>(createReconstructionSettings);
+  const [isReconstructing, setIsReconstructing] = useState(false);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[] | null>(null);
+  const [highlightedIssueId, setHighlightedIssueId] = useState<string | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [sceneModels, setSceneModels] = useState<SceneModel[]>([]);
+  const [transformTarget, setTransformTarget] = useState<string | null>(null);
+  const [transformMode, setTransformMode] = useState<TransformMode>('translate');
+  const [deviationSettings, setDeviationSettings] = useState<DeviationSettings>(createDeviationSettings);
+  const [deviationTarget, setDeviationTarget] = useState(MAIN_MODEL_ID);
+  const [deviationReference, setDeviationReference] = useState(MAIN_MODEL_ID);
+  const [deviationDistances, setDeviationDistances] = useState<Float32Array | null>(null);
+  const [isAnalyzingDeviation, setIsAnalyzingDeviation] = useState(false);
+  const [modelTransform, setModelTransform] = useState<ModelTransform>(createModelTransform);
+  const [registrationReference, setRegistrationReference] = useState<string | null>(null);
+  const [registrationPairs, setRegistrationPairs] = useState<RegistrationPair[]>([]);
+  const [registrationPick, setRegistrationPick] = useState<RegistrationSide | null>(null);
+  const [registrationSettings, setRegistrationSettings] = useState<RegistrationSettings>(createRegistrationSettings);
+  const [pairRms, setPairRms] = useState<number | null>(null);
+  const [icpRms, setIcpRms] = useState<number[]>([]);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [unitConversion, setUnitConversion] = useState<{ from: MeasurementUnit; to: MeasurementUnit }>({ from: 'mm', to: 'm' });
+  const [compare, setCompare] = useState<CompareSettings>({ mode: 'off', left: MAIN_MODEL_ID, right: MAIN_MODEL_ID, divider: 0.5 });
+  const [lodRatiosText, setLodRatiosText] = useState('100, 50, 25, 10');
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const textureInputRef = useRef<HTMLInputElement>(null);
+  const sceneInputRef = useRef<HTMLInputElement>(null);
+  const textureTargetRef = useRef<{ materialId: string; slot: string } | null>(null);
   const viewerRef = useRef<ViewerHandle>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const reconstructAbortRef = useRef<AbortController | null>(null);
+  const deviationAbortRef = useRef<AbortController | null>(null);
+  const registrationAbortRef = useRef<AbortController | null>(null);
+  // dragenter/dragleave fire for every child element, so track depth instead of a flag
+  const dragDepthRef = useRef(0);
+
+  const modelUrl = modelSource?.url ?? null;
+  const isPointCloud = !!metadata && metadata.triangles === 0;
+  const pointAttributes = [...new Set((metadata?.meshDetails ?? []).filter(m => m.type === 'Points').flatMap(m => m.attributes))];
+  const hasPoints = pointAttributes.length > 0;
+  const isGLTFExport = GLTF_FORMATS.includes(exportSettings.format);
+  const isFormatDisabled = (format: ExportFormat) =>
+    (isPointCloud && MESH_ONLY_FORMATS.includes(format)) || (!hasPoints && POINT_ONLY_FORMATS.includes(format));
+  const canExportFormat = !isFormatDisabled(exportSettings.format);
+
+  // Release the previous model's object URLs once it has been replaced or ejected
+  useEffect(() => () => {
+    if (modelSource) revokeModelSource(modelSource);
+  }, [modelSource]);
+
+  const loadQueued = async (entry: QueuedModel) => {
+    const source = await createModelSource(entry.files, entry.main);
+    if (!source) {
+      alert(`No supported 3D file found in ${entry.name}.`);
+      return;
+    }
+
+    reconstructAbortRef.current?.abort();
+    deviationAbortRef.current?.abort();
+    setDeviationDistances(null);
+    resetRegistration();
+    setTransformTarget(target => target === MAIN_MODEL_ID ? null : target);
+    setModelSource(source);
+    setSceneGraph(null);
+    setMaterials([]);
+    setAnimationClips([]);
+    setMeasurements([]);
+    setMeasureMode(null);
+    setAppState(AppState.LOADING);
+    setSimplifySettings(s => ({ ...s, enabled: false }));
+    setPointProcessing(createPointProcessingSettings());
+    setValidationIssues(null);
+    setHighlightedIssueId(null);
+    setMetadata({
+      name: source.name,
+      size: source.size,
+      format: source.extension.toUpperCase(),
+      ...emptyModelStats(),
+      animations: []
+    });
+  };
+
+  const loadFiles = (files: File[]) => {
+    const { queue, rejected } = buildFileQueue(files);
+    if (rejected.length > 0) {
+      const listed = rejected.slice(0, 10).join('\n');
+      const more = rejected.length > 10 ? `\n...and ${rejected.length - 10} more` : '';
+      alert(`Skipped unsupported files:\n${listed}${more}`);
+    }
+    if (queue.length === 0) {
+      if (rejected.length === 0) alert('No supported 3D file found in the selection.');
+      return;
+    }
+    setFileQueue(queue);
+    setQueueIndex(0);
+    loadQueued(queue[0]);
+  };
+
+  const stepQueue = (index: number) => {
+    if (index < 0 || index >= fileQueue.length || index === queueIndex) return;
+    setQueueIndex(index);
+    loadQueued(fileQueue[index]);
+  };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const ext = file.name.split('.').pop()?.toLowerCase() || '';
-      const url = URL.createObjectURL(file);
-      
-      setModelUrl(url);
-      setExtension(ext);
-      setAppState(AppState.LOADING);
-      setMetadata({
-        name: file.name,
-        size: file.size,
-        format: ext.toUpperCase(),
-        vertices: 0,
-        triangles: 0,
-        meshes: 0,
-        materials: 0,
-        textures: 0,
-        animations: []
-      });
+    const files = Array.from(event.target.files || []);
+    if (files.length > 0) loadFiles(files);
+  };
+
+  // Extra models join the scene next to the main one instead of replacing it
+  const addSceneModels = async (files: File[]) => {
+    const { queue } = buildFileQueue(files);
+    const sources = (await Promise.all(queue.map(entry => createModelSource(entry.files, entry.main))))
+      .filter((source): source is ModelSource => !!source);
+    if (sources.length === 0) {
+      alert('No supported 3D file found in the selection.');
+      return;
+    }
+    const added = sources.map(createSceneModel);
+    setSceneModels(models => [...models, ...added]);
+    // The first model added is compared against the main one right away
+    setCompare(c => c.right === MAIN_MODEL_ID ? { ...c, right: added[0].id } : c);
+  };
+
+  const handleSceneUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length > 0) addSceneModels(files);
+  };
+
+  const updateSceneModel = useCallback((id: string, patch: Partial<SceneModel>) =>
+    setSceneModels(models => models.map(m => m.id === id ? { ...m, ...patch } : m)), []);
+  const handleSceneModelMetadata = useCallback((id: string, metadata: ModelMetadata) => updateSceneModel(id, { metadata }), [updateSceneModel]);
+  const handleSceneModelTransform = useCallback((id: string, transform: ModelTransform) => updateSceneModel(id, { transform }), [updateSceneModel]);
+
+  const removeSceneModel = (id: string) => {
+    const removed = sceneModels.find(m => m.id === id);
+    if (removed) revokeModelSource(removed.source);
+    // An analysis may be running against the model going away; a finished heatmap is dropped by the viewer
+    deviationAbortRef.current?.abort();
+    if (id === registrationReferenceId) {
+      registrationAbortRef.current?.abort();
+      setRegistrationPairs([]);
+      setRegistrationPick(null);
     }
+    setSceneModels(models => models.filter(m => m.id !== id));
+    setTransformTarget(target => target === id ? null : target);
+    setCompare(c => ({
+      ...c,
+      mode: c.left === id || c.right === id ? 'off' : c.mode,
+      left: c.left === id ? MAIN_MODEL_ID : c.left,
+      right: c.right === id ? MAIN_MODEL_ID : c.right
+    }));
+  };
+
+  const handleSceneModelError = useCallback((id: string, error: Error) => {
+    alert(`Could not load the scene model: ${error?.message || error}`);
+    setSceneModels(models => {
+      const failed = models.find(m => m.id === id);
+      if (failed) revokeModelSource(failed.source);
+      return models.filter(m => m.id !== id);
+    });
+  }, []);
+
+  const compareModels = [
+    { id: MAIN_MODEL_ID, name: metadata?.name ?? 'Main Model', metadata },
+    ...sceneModels.map(m => ({ id: m.id, name: m.source.name, metadata: m.metadata }))
+  ];
+  const compareLeft = compareModels.find(m => m.id === compare.left);
+  const compareRight = compareModels.find(m => m.id === compare.right);
+  const metadataDiff = compareLeft?.metadata && compareRight?.metadata ? diffMetadata(compareLeft.metadata, compareRight.metadata) : [];
+
+  // Whole models, plus the parts of the main model when it has several
+  const partNodes: SceneNode[] = [];
+  const collectParts = (node: SceneNode) => {
+    if (['Mesh', 'SkinnedMesh', 'Points'].includes(node.type)) partNodes.push(node);
+    node.children.forEach(collectParts);
+  };
+  if (sceneGraph) collectParts(sceneGraph);
+  const deviationObjects = [
+    ...compareModels.map(m => ({ id: m.id, name: m.name })),
+    ...(partNodes.length > 1 ? partNodes.map(node => ({ id: node.id, name: `↳ ${node.name || node.type}` })) : [])
+  ];
+  const validDeviationId = (id: string) => deviationObjects.some(o => o.id === id) ? id : MAIN_MODEL_ID;
+  const deviationStatsResult = useMemo(
+    () => deviationDistances ? deviationStats(deviationDistances, deviationSettings) : null,
+    [deviationDistances, deviationSettings]
+  );
+
+  const runDeviation = async () => {
+    if (!viewerRef.current || isAnalyzingDeviation) return;
+    const target = validDeviationId(deviationTarget);
+    const reference = validDeviationId(deviationReference);
+    if (target === reference) {
+      alert('Pick two different objects to measure between.');
+      return;
+    }
+    const controller = new AbortController();
+    deviationAbortRef.current = controller;
+    setIsAnalyzingDeviation(true);
+    try {
+      setDeviationDistances(await viewerRef.current.analyzeDeviation(target, reference, controller.signal));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        alert(`Deviation analysis failed: ${(err as Error)?.message || err}`);
+      }
+    } finally {
+      deviationAbortRef.current = null;
+      setIsAnalyzingDeviation(false);
+    }
+  };
+
+  const clearDeviation = () => {
+    viewerRef.current?.clearDeviation();
+    setDeviationDistances(null);
+  };
+
+  const updateDeviation = (patch: Partial<DeviationSettings>) => setDeviationSettings(s => ({ ...s, ...patch }));
+
+  // The reference defaults to the first scene model that has loaded
+  const registrationReferences = sceneModels.filter(m => m.metadata);
+  const registrationReferenceId = registrationReferences.some(m => m.id === registrationReference)
+    ? registrationReference
+    : registrationReferences[0]?.id ?? null;
+  const completeRegistrationPairs = completePairs(registrationPairs);
+
+  const resetRegistration = () => {
+    registrationAbortRef.current?.abort();
+    setModelTransform(createModelTransform());
+    setRegistrationPairs([]);
+    setRegistrationPick(null);
+    setPairRms(null);
+    setIcpRms([]);
+  };
+
+  const addRegistrationPoint = useCallback((side: RegistrationSide, point: [number, number, number]) => {
+    setRegistrationPairs(pairs => addPairPoint(pairs, side, point));
+    // Picks alternate between the models, starting again on the main model
+    setRegistrationPick(side === 'source' ? 'target' : 'source');
+  }, []);
+
+  const toggleRegistrationPick = () => {
+    setRegistrationPick(pick => pick ? null : 'source');
+    setMeasureMode(null);
+  };
+
+  const changeRegistrationReference = (id: string) => {
+    // Reference picks belong to the model they were picked on
+    setRegistrationReference(id);
+    setRegistrationPairs(pairs => pairs.map(pair => ({ ...pair, target: null })).filter(pair => pair.source));
+  };
+
+  const alignRegistrationPairs = () => {
+    if (!viewerRef.current || !registrationReferenceId) return;
+    try {
+      const { transform, rms } = viewerRef.current.alignPairs(registrationReferenceId, registrationPairs);
+      setModelTransform(transform);
+      setPairRms(rms);
+      setIcpRms([]);
+      setRegistrationPick(null);
+    } catch (err) {
+      console.error(err);
+      alert(`Alignment failed: ${(err as Error)?.message || err}`);
+    }
+  };
+
+  const refineRegistration = async () => {
+    if (!viewerRef.current || !registrationReferenceId || isRegistering) return;
+    const controller = new AbortController();
+    registrationAbortRef.current = controller;
+    setIsRegistering(true);
+    setRegistrationPick(null);
+    setIcpRms([]);
+    try {
+      const { transform, rms } = await viewerRef.current.refineRegistration(
+        registrationReferenceId,
+        registrationSettings,
+        controller.signal,
+        (_, error) => setIcpRms(errors => [...errors, error])
+      );
+      setModelTransform(transform);
+      setIcpRms(rms);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        alert(`Refinement failed: ${(err as Error)?.message || err}`);
+      }
+    } finally {
+      registrationAbortRef.current = null;
+      setIsRegistering(false);
+    }
+  };
+
+  const fixPlacement = (fix: PlacementFix) => {
+    const transform = viewerRef.current?.fixPlacement(fix);
+    if (transform) setModelTransform(transform);
+  };
+
+  const updateAnimation = (patch: Partial<AnimationSettings>) =>
+    setSceneSettings(s => ({ ...s, animation: { ...s.animation, ...patch } }));
+
+  // Scrubbing and frame stepping hold the pose where it was put
+  const seekAnimation = (time: number) => {
+    setSceneSettings(s => ({ ...s, playAnimation: false }));
+    viewerRef.current?.seekAnimation(time);
+  };
+
+  const deleteAnimation = (index: number) => {
+    viewerRef.current?.deleteAnimation(index);
+    // The clips after it move up a place; deleting the active one moves on to the next
+    setSceneSettings(s => ({
+      ...s,
+      activeAnimationIndex: s.activeAnimationIndex > index ? s.activeAnimationIndex - 1 : Math.max(0, Math.min(s.activeAnimationIndex, animationClips.length - 2))
+    }));
+    setExportSettings(s => ({ ...s, animations: s.animations && s.animations.filter(i => i !== index).map(i => i > index ? i - 1 : i) }));
+  };
+
+  const toggleExportAnimation = (index: number) => setExportSettings(s => {
+    const selected = s.animations ?? animationClips.map((_, i) => i);
+    const next = selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index].sort((a, b) => a - b);
+    return { ...s, animations: next.length === animationClips.length ? null : next };
+  });
+
+  const canDrop = (event: React.DragEvent) =>
+    appState !== AppState.OPTIMIZING && event.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (!canDrop(event)) return;
+    event.preventDefault();
+    dragDepthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!canDrop(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (!canDrop(event)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    if (!canDrop(event)) return;
+    event.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    const files = await collectDroppedFiles(event.dataTransfer);
+    if (files.length > 0) loadFiles(files);
   };
 
   const handleMetadataLoaded = useCallback((details: Partial<ModelMetadata>) => {
@@ -62,54 +489,247 @@ const App: React.FC = () => {
     setAppState(AppState.VIEWING);
     // Reset animation index when a new model loads
     setSceneSettings(s => ({ ...s, activeAnimationIndex: 0 }));
+    setExportSettings(s => ({ ...s, animations: null }));
+  }, []);
+
+  const handleAnimations = useCallback((clips: AnimationClipInfo[]) => {
+    setAnimationClips(clips);
+    setMetadata(prev => prev ? { ...prev, animations: clips.map(clip => clip.name) } : null);
+  }, []);
+
+  const handleModelStats = useCallback((stats: ModelStats) => {
+    setMetadata(prev => prev ? { ...prev, ...stats } : null);
+  }, []);
+
+  const handleSceneGraph = useCallback((root: SceneNode) => {
+    setSceneGraph(root);
+    setSelectedNodeId(null);
+    setIsolatedNodeId(null);
+    setHiddenNodeIds(collectHiddenNodes(root));
+    setExpandedNodeIds([root.id]);
+  }, []);
+
+  const nodeParents = useMemo(() => sceneGraph ? buildParentMap(sceneGraph) : {}, [sceneGraph]);
+
+  // Viewport picks can land deep in the tree, so open every ancestor of the selection
+  const selectNode = useCallback((id: string | null) => {
+    setSelectedNodeId(id);
+    if (!id) return;
+    const ancestors: string[] = [];
+    for (let parent = nodeParents[id]; parent; parent = nodeParents[parent]) ancestors.push(parent);
+    setExpandedNodeIds(ids => [...new Set([...ids, ...ancestors])]);
+  }, [nodeParents]);
+
+  const toggleNodeExpanded = (id: string) =>
+    setExpandedNodeIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  const toggleNodeHidden = (id: string) =>
+    setHiddenNodeIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  const toggleNodeIsolated = (id: string) => setIsolatedNodeId(current => current === id ? null : id);
+
+  const handleMaterials = useCallback((list: MaterialInfo[]) => {
+    setMaterials(list);
+    setEditedMaterialId(current => list.some(m => m.id === current) ? current : null);
   }, []);
 
+  const handleClippingChange = useCallback((clipping: ClippingSettings) => setSceneSettings(s => ({ ...s, clipping })), []);
+  const updateClipping = (patch: Partial<ClippingSettings>) =>
+    setSceneSettings(s => ({ ...s, clipping: { ...s.clipping, ...patch } }));
+  const updateClipPlane = (index: number, patch: Partial<ClipPlane>) =>
+    setSceneSettings(s => ({
+      ...s,
+      clipping: { ...s.clipping, planes: s.clipping.planes.map((plane, i) => i === index ? { ...plane, ...patch } : plane) }
+    }));
+  const hasSectionPlanes = sceneSettings.clipping.planes.some(plane => plane.enabled);
+
+  const updatePointCloud = (patch: Partial<PointCloudSettings>) =>
+    setSceneSettings(s => ({ ...s, pointCloud: { ...s.pointCloud, ...patch } }));
+  const scalarFields = scalarFieldNames(pointAttributes);
+  const pointCloud = sceneSettings.pointCloud;
+
+  const handleMeasurement = useCallback((measurement: Measurement) => setMeasurements(list => [...list, measurement]), []);
+  const removeMeasurement = (id: string) => setMeasurements(list => list.filter(m => m.id !== id));
+  const exportMeasurements = (kind: 'csv' | 'json') => {
+    const baseName = (metadata?.name ?? 'model').replace(/\.[^.]+$/, '');
+    if (kind === 'csv') {
+      downloadFile(measurementsToCSV(measurements, measureUnit), `${baseName}_measurements.csv`, 'text/csv');
+    } else {
+      downloadFile(measurementsToJSON(measurements, measureUnit), `${baseName}_measurements.json`, 'application/json');
+    }
+  };
+
+  const editMaterial = (id: string, edit: MaterialEdit) => viewerRef.current?.updateMaterial(id, edit);
+
+  const pickTexture = (materialId: string, slot: string) => {
+    textureTargetRef.current = { materialId, slot };
+    textureInputRef.current?.click();
+  };
+
+  const handleTextureUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const target = textureTargetRef.current;
+    event.target.value = '';
+    if (!file || !target) return;
+    try {
+      await viewerRef.current?.setMaterialTexture(target.materialId, target.slot, file);
+    } catch {
+      alert(`Could not read ${file.name} as an image.`);
+    }
+  };
+
   const handleExport = async () => {
     if (!metadata || !viewerRef.current) return;
     setIsExportModalOpen(false);
     setAppState(AppState.OPTIMIZING);
-    setExportProgress(0);
-
-    const duration = exportSettings.ktx2 || exportSettings.draco ? 3500 : 1500;
-    const intervalTime = 40;
-    const steps = duration / intervalTime;
-    const increment = 100 / steps;
-
-    const timer = setInterval(() => {
-      setExportProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(timer);
-          return 100;
-        }
-        return Math.min(prev + increment, 100);
+    setExportProgress(null);
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+
+    try {
+      await viewerRef.current.exportModel({
+        ...exportSettings,
+        fileName: metadata.name
+      } as ExportConfig, {
+        onProgress: setExportProgress,
+        signal: controller.signal
       });
-    }, intervalTime);
-
-    setTimeout(async () => {
-      try {
-        await viewerRef.current?.exportModel({
-          ...exportSettings,
-          fileName: metadata.name
-        } as ExportConfig);
-        setAppState(AppState.VIEWING);
-        setExportProgress(0);
-      } catch (err) {
+    } catch (err) {
+      if (!controller.signal.aborted) {
         console.error(err);
-        setAppState(AppState.VIEWING);
-        alert('Export failed.');
+        alert(`Export failed: ${(err as Error)?.message || err}`);
       }
-    }, duration + 500);
+    } finally {
+      exportAbortRef.current = null;
+      setAppState(AppState.VIEWING);
+      setExportProgress(null);
+    }
   };
 
-  const toggleDraco = () => setExportSettings(s => ({ ...s, draco: !s.draco, ktx2: false }));
-  const toggleKTX2 = () => setExportSettings(s => ({ ...s, ktx2: !s.ktx2, draco: false }));
+  const cancelExport = () => exportAbortRef.current?.abort();
+
+  const handleReconstruct = async () => {
+    if (!viewerRef.current || isReconstructing) return;
+    const controller = new AbortController();
+    reconstructAbortRef.current = controller;
+    setIsReconstructing(true);
+    try {
+      const triangles = await viewerRef.current.reconstructSurface(reconstruction, controller.signal);
+      if (triangles === 0) alert('No surface could be built from these points. Try a lower resolution.');
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        alert(`Surface reconstruction failed: ${(err as Error)?.message || err}`);
+      }
+    } finally {
+      reconstructAbortRef.current = null;
+      setIsReconstructing(false);
+    }
+  };
+
+  const runValidation = async () => {
+    if (!viewerRef.current || isValidating) return;
+    setIsValidating(true);
+    // Large models take a moment to check, so let the button show it first
+    await new Promise(resolve => setTimeout(resolve, 50));
+    try {
+      const issues = viewerRef.current.validateModel();
+      setValidationIssues(issues);
+      setHighlightedIssueId(current => issues.some(issue => issue.id === current) ? current : null);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const applyFix = async (fix: MeshFix, issues: ValidationIssue[]) => {
+    if (!viewerRef.current) return;
+    try {
+      viewerRef.current.repairModel(fix, [...new Set(issues.map(issue => issue.nodeId))]);
+    } catch (err) {
+      console.error(err);
+      alert(`${MESH_FIX_LABELS[fix]} failed: ${(err as Error)?.message || err}`);
+    }
+    await runValidation();
+  };
+
+  const highlightIssue = (issue: ValidationIssue) => {
+    setHighlightedIssueId(current => current === issue.id ? null : issue.id);
+    selectNode(issue.nodeId);
+  };
+
+  const issueGroups = (Object.keys(VALIDATION_LABELS) as ValidationCheck[])
+    .map(check => ({ check, issues: (validationIssues ?? []).filter(issue => issue.check === check) }))
+    .filter(group => group.issues.length > 0);
+  const highlightedIssue = validationIssues?.find(issue => issue.id === highlightedIssueId) ?? null;
+
+  const toggleDraco = () => setExportSettings(s => ({ ...s, draco: !s.draco, meshopt: false }));
+  const toggleMeshopt = () => setExportSettings(s => ({ ...s, meshopt: !s.meshopt, draco: false }));
+  const toggleKTX2 = () => setExportSettings(s => ({ ...s, ktx2: !s.ktx2 }));
+  const setDracoBits = (key: keyof DracoSettings, value: number) =>
+    setExportSettings(s => ({ ...s, dracoSettings: { ...s.dracoSettings, [key]: value } }));
+  const setLod = (patch: Partial<LodSettings>) =>
+    setExportSettings(s => ({ ...s, lod: { ...s.lod, ...patch } }));
+  const setFormat = (format: ExportFormat) => setExportSettings(s => ({ ...s, format }));
+  const setObj = (patch: Partial<ObjSettings>) =>
+    setExportSettings(s => ({ ...s, objSettings: { ...s.objSettings, ...patch } }));
+  const setPly = (patch: Partial<PlySettings>) =>
+    setExportSettings(s => ({ ...s, plySettings: { ...s.plySettings, ...patch } }));
+  const setPcd = (patch: Partial<PcdSettings>) =>
+    setExportSettings(s => ({ ...s, pcdSettings: { ...s.pcdSettings, ...patch } }));
+  const setStl = (patch: Partial<StlSettings>) =>
+    setExportSettings(s => ({ ...s, stlSettings: { ...s.stlSettings, ...patch } }));
+  const setUsdz = (patch: Partial<UsdzSettings>) =>
+    setExportSettings(s => ({ ...s, usdzSettings: { ...s.usdzSettings, ...patch } }));
+  const handleLodRatios = (text: string) => {
+    setLodRatiosText(text);
+    const ratios = text.split(',')
+      .map(v => parseFloat(v))
+      .filter(v => v > 0 && v <= 100);
+    if (ratios.length > 0) setLod({ ratios });
+  };
+  const updateSimplify = (patch: Partial<SimplifySettings>) => setSimplifySettings(s => ({ ...s, ...patch }));
+  const updatePointStep = <K extends keyof PointProcessingSettings>(step: K, patch: Partial<PointProcessingSettings[K]>) =>
+    setPointProcessing(s => ({ ...s, [step]: { ...s[step], ...patch } }));
+  const setCropRange = (axis: number, end: 'min' | 'max', value: number) => setPointProcessing(s => {
+    const min = [...s.crop.min] as [number, number, number];
+    const max = [...s.crop.max] as [number, number, number];
+    // The ends push each other rather than cross
+    if (end === 'min') {
+      min[axis] = value;
+      max[axis] = Math.max(max[axis], value);
+    } else {
+      max[axis] = value;
+      min[axis] = Math.min(min[axis], value);
+    }
+    return { ...s, crop: { ...s.crop, min, max } };
+  });
+
+  const toggleMeshoptSetting = (key: keyof MeshoptSettings) =>
+    setExportSettings(s => ({ ...s, meshoptSettings: { ...s.meshoptSettings, [key]: !s.meshoptSettings[key] } }));
 
   const reset = () => {
-    setModelUrl(null);
-    setExtension(null);
+    reconstructAbortRef.current?.abort();
+    deviationAbortRef.current?.abort();
+    setDeviationDistances(null);
+    resetRegistration();
+    setModelSource(null);
+    setFileQueue([]);
+    setQueueIndex(0);
     setMetadata(null);
+    setSceneGraph(null);
+    setSelectedNodeId(null);
+    setMaterials([]);
+    setAnimationClips([]);
+    setMeasurements([]);
+    setMeasureMode(null);
+    setValidationIssues(null);
+    setHighlightedIssueId(null);
+    sceneModels.forEach(sceneModel => revokeModelSource(sceneModel.source));
+    setSceneModels([]);
+    setTransformTarget(null);
+    setCompare(c => ({ ...c, mode: 'off', left: MAIN_MODEL_ID, right: MAIN_MODEL_ID }));
     setAppState(AppState.IDLE);
     if (fileInputRef.current) fileInputRef.current.value = '';
+    if (folderInputRef.current) folderInputRef.current.value = '';
   };
 
   return (
@@ -145,11 +765,16 @@ const App: React.FC = () => {
 
           <section className="space-y-4">
             <div className="space-y-3 flex flex-col items-center">
-              <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".glb,.gltf,.obj,.ply,.pcd,.xyz" className="hidden" />
+              <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept={FILE_ACCEPT} multiple className="hidden" />
+              <input type="file" ref={folderInputRef} onChange={handleFileUpload} {...({ webkitdirectory: '', directory: '' } as any)} className="hidden" />
               <button onClick={() => fileInputRef.current?.click()} className={`${isSidebarOpen ? 'w-full py-4 px-6' : 'w-14 h-14'} bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-2xl border border-slate-700 flex items-center justify-center gap-3 overflow-hidden transition-all`}>
                 <i className="fas fa-plus text-blue-400"></i>
                 {isSidebarOpen && <span className="font-bold text-sm tracking-tight">Load 3D / PointCloud</span>}
               </button>
+              <button onClick={() => folderInputRef.current?.click()} className={`${isSidebarOpen ? 'w-full py-4 px-6' : 'w-14 h-14'} bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-2xl border border-slate-700 flex items-center justify-center gap-3 overflow-hidden transition-all`}>
+                <i className="fas fa-folder-open text-blue-400"></i>
+                {isSidebarOpen && <span className="font-bold text-sm tracking-tight">Load Folder</span>}
+              </button>
               
               {modelUrl && (
                 <>
@@ -166,6 +791,35 @@ const App: React.FC = () => {
             </div>
           </section>
 
+          {fileQueue.length > 1 && isSidebarOpen && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Queue</h3>
+                <div className="flex items-center gap-2">
+                  <button onClick={() => stepQueue(queueIndex - 1)} disabled={queueIndex === 0 || appState === AppState.OPTIMIZING} className="w-7 h-7 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-30 text-slate-300 text-[10px] transition-all">
+                    <i className="fas fa-chevron-left"></i>
+                  </button>
+                  <span className="text-[10px] text-slate-400 font-mono font-bold">{queueIndex + 1} / {fileQueue.length}</span>
+                  <button onClick={() => stepQueue(queueIndex + 1)} disabled={queueIndex === fileQueue.length - 1 || appState === AppState.OPTIMIZING} className="w-7 h-7 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-30 text-slate-300 text-[10px] transition-all">
+                    <i className="fas fa-chevron-right"></i>
+                  </button>
+                </div>
+              </div>
+              <div className="space-y-1 max-h-48 overflow-y-auto no-scrollbar">
+                {fileQueue.map((entry, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => stepQueue(idx)}
+                    disabled={appState === AppState.OPTIMIZING}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-[11px] font-mono truncate transition-all ${idx === queueIndex ? 'bg-blue-600/20 text-blue-300' : 'text-slate-400 hover:bg-slate-800'}`}
+                  >
+                    {entry.name}
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+
           {metadata && isSidebarOpen && (
             <section className="space-y-4">
               <button onClick={() => setIsExportModalOpen(true)} className="w-full py-4 px-6 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-500 hover:to-indigo-500 text-white rounded-2xl shadow-xl transition-all flex items-center justify-center gap-3">
@@ -180,7 +834,12 @@ const App: React.FC = () => {
               {[
                 { label: 'Format', value: metadata.format },
                 { label: 'Complexity', value: metadata.triangles > 0 ? `${metadata.triangles.toLocaleString()} TRIS` : `${metadata.vertices.toLocaleString()} POINTS` },
+                { label: 'Vertices', value: metadata.vertices.toLocaleString() },
                 { label: 'Payload', value: `${(metadata.size / 1024 / 1024).toFixed(2)} MB` },
+                { label: 'Draw Calls', value: metadata.drawCalls.toLocaleString() },
+                { label: 'Bounds', value: `${formatLength(metadata.dimensions.x)} × ${formatLength(metadata.dimensions.y)} × ${formatLength(metadata.dimensions.z)}` },
+                { label: 'GPU Geometry', value: formatBytes(metadata.geometryMemory) },
+                { label: 'GPU Textures', value: formatBytes(metadata.textureMemory) },
                 { label: 'Animations', value: metadata.animations.length > 0 ? metadata.animations.length : 'None' }
               ].map((item, idx) => (
                 <div key={idx} className="flex justify-between items-center text-[11px]">
@@ -188,6 +847,920 @@ const App: React.FC = () => {
                   <span className="text-slate-200 font-mono font-bold">{item.value}</span>
                 </div>
               ))}
+
+              <div className="pt-2 border-t border-slate-800 space-y-2">
+                {([
+                  { key: 'meshes', label: 'Meshes', count: metadata.meshes },
+                  { key: 'materials', label: 'Materials', count: metadata.materials },
+                  { key: 'textures', label: 'Textures', count: metadata.textures }
+                ] as const).map(({ key, label, count }) => (
+                  <div key={key}>
+                    <button
+                      onClick={() => setStatsTable(statsTable === key ? null : key)}
+                      disabled={count === 0}
+                      className="w-full flex justify-between items-center text-[11px] disabled:opacity-40"
+                    >
+                      <span className="text-slate-500 font-bold uppercase tracking-widest">
+                        <i className={`fas fa-chevron-${statsTable === key ? 'down' : 'right'} mr-2 text-[9px]`}></i>{label}
+                      </span>
+                      <span className="text-slate-200 font-mono font-bold">{count}</span>
+                    </button>
+
+                    {statsTable === key && key === 'meshes' && (
+                      <div className="mt-2 space-y-1 max-h-64 overflow-y-auto no-scrollbar">
+                        {metadata.meshDetails.map((mesh, idx) => (
+                          <div key={idx} className="p-2 bg-slate-900 rounded-lg space-y-1">
+                            <div className="flex justify-between items-center text-[10px]">
+                              <span className="text-white font-bold truncate max-w-[140px]" title={mesh.name}>{mesh.name}</span>
+                              <span className="text-blue-400 font-mono">{mesh.triangles > 0 ? `${mesh.triangles.toLocaleString()} tris` : `${mesh.vertices.toLocaleString()} pts`}</span>
+                            </div>
+                            <div className="flex justify-between items-center text-[9px] text-slate-500 font-mono">
+                              <span>{mesh.type} · {mesh.drawCalls} call{mesh.drawCalls === 1 ? '' : 's'}</span>
+                              <span>{formatBytes(mesh.memory)}</span>
+                            </div>
+                            <div className="text-[9px] text-slate-500 font-mono truncate" title={mesh.attributes.join(', ')}>{mesh.attributes.join(', ')}</div>
+                            {mesh.materials.length > 0 && (
+                              <div className="text-[9px] text-slate-600 truncate" title={mesh.materials.join(', ')}>{mesh.materials.join(', ')}</div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {statsTable === key && key === 'materials' && (
+                      <div className="mt-2 space-y-1 max-h-64 overflow-y-auto no-scrollbar">
+                        {metadata.materialDetails.map((material, idx) => (
+                          <div key={idx} className="p-2 bg-slate-900 rounded-lg space-y-1">
+                            <div className="flex justify-between items-center text-[10px]">
+                              <span className="text-white font-bold truncate max-w-[140px]" title={material.name}>{material.name}</span>
+                              <span className="text-blue-400 font-mono">{material.meshes} mesh{material.meshes === 1 ? '' : 'es'}</span>
+                            </div>
+                            <div className="text-[9px] text-slate-500 font-mono">{material.type}</div>
+                            <div className="text-[9px] text-slate-500 font-mono truncate" title={material.textureSlots.join(', ')}>{material.textureSlots.join(', ') || 'No textures'}</div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {statsTable === key && key === 'textures' && (
+                      <div className="mt-2 space-y-1 max-h-64 overflow-y-auto no-scrollbar">
+                        {metadata.textureDetails.map((texture, idx) => (
+                          <div key={idx} className="p-2 bg-slate-900 rounded-lg space-y-1">
+                            <div className="flex justify-between items-center text-[10px]">
+                              <span className="text-white font-bold truncate max-w-[140px]" title={texture.name}>{texture.name}</span>
+                              <span className="text-blue-400 font-mono">{texture.width}x{texture.height}</span>
+                            </div>
+                            <div className="flex justify-between items-center text-[9px] text-slate-500 font-mono">
+                              <span className="truncate max-w-[150px]" title={texture.slots.join(', ')}>{texture.slots.join(', ')}</span>
+                              <span>{formatBytes(texture.memory)}</span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {metadata && isSidebarOpen && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <input type="file" ref={sceneInputRef} onChange={handleSceneUpload} accept={FILE_ACCEPT} multiple className="hidden" />
+              <div className="flex justify-between items-center">
+                <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Scene</h3>
+                <button
+                  onClick={() => sceneInputRef.current?.click()}
+                  className="text-[9px] font-bold text-blue-400 uppercase tracking-widest hover:text-blue-300"
+                >
+                  <i className="fas fa-plus mr-1"></i>Add Model
+                </button>
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 p-2 bg-slate-900/60 rounded-lg">
+                  <i className="fas fa-cube text-[10px] text-blue-500"></i>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[10px] text-white font-bold truncate" title={metadata.name}>{metadata.name}</div>
+                    <div className="text-[9px] text-slate-500 font-mono">Main · {formatComplexity(metadata)}</div>
+                  </div>
+                </div>
+                {sceneModels.map(sceneModel => (
+                  <div key={sceneModel.id} className={`flex items-center gap-2 p-2 rounded-lg ${transformTarget === sceneModel.id ? 'bg-slate-800' : 'bg-slate-900/60'}`}>
+                    <button
+                      onClick={() => updateSceneModel(sceneModel.id, { visible: !sceneModel.visible })}
+                      title={sceneModel.visible ? 'Hide' : 'Show'}
+                      className={`text-[10px] ${sceneModel.visible ? 'text-slate-300' : 'text-slate-600'}`}
+                    >
+                      <i className={`fas fa-eye${sceneModel.visible ? '' : '-slash'}`}></i>
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-[10px] text-white font-bold truncate" title={sceneModel.source.name}>{sceneModel.source.name}</div>
+                      <div className="text-[9px] text-slate-500 font-mono">
+                        {sceneModel.metadata ? formatComplexity(sceneModel.metadata) : <><i className="fas fa-circle-notch fa-spin mr-1"></i>Loading...</>}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setTransformTarget(target => target === sceneModel.id ? null : sceneModel.id)}
+                      disabled={!sceneModel.metadata}
+                      title="Transform"
+                      className={`w-6 h-6 rounded-md text-[9px] disabled:opacity-40 ${transformTarget === sceneModel.id ? 'bg-blue-600 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-400'}`}
+                    >
+                      <i className="fas fa-arrows-alt"></i>
+                    </button>
+                    <button
+                      onClick={() => viewerRef.current?.frameObject(sceneModel.id)}
+                      disabled={!sceneModel.metadata}
+                      title="Frame"
+                      className="w-6 h-6 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-400 text-[9px] disabled:opacity-40"
+                    >
+                      <i className="fas fa-crosshairs"></i>
+                    </button>
+                    <button
+                      onClick={() => removeSceneModel(sceneModel.id)}
+                      title="Remove from scene"
+                      className="w-6 h-6 rounded-md bg-slate-800 hover:bg-red-900/60 text-slate-400 text-[9px]"
+                    >
+                      <i className="fas fa-times"></i>
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              {transformTarget && transformTarget !== MAIN_MODEL_ID && (
+                <div className="space-y-2">
+                  <SegmentedControl
+                    value={transformMode}
+                    options={[
+                      { value: 'translate', label: 'Move' },
+                      { value: 'rotate', label: 'Rotate' },
+                      { value: 'scale', label: 'Scale' }
+                    ]}
+                    onChange={setTransformMode}
+                  />
+                  <button
+                    onClick={() => updateSceneModel(transformTarget, { transform: createModelTransform() })}
+                    className="w-full py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+                  >
+                    Reset Transform
+                  </button>
+                </div>
+              )}
+
+              {sceneModels.length > 0 && (
+                <div className="pt-2 border-t border-slate-800 space-y-3">
+                  <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Compare</span>
+                  <SegmentedControl
+                    value={compare.mode}
+                    options={[
+                      { value: 'off', label: 'Off' },
+                      { value: 'split', label: 'Split' },
+                      { value: 'swipe', label: 'Swipe' }
+                    ]}
+                    onChange={(mode: CompareMode) => setCompare(c => ({ ...c, mode }))}
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['left', 'right'] as const).map(side => (
+                      <select
+                        key={side}
+                        value={compare[side]}
+                        onChange={(e) => setCompare(c => ({ ...c, [side]: e.target.value }))}
+                        title={side === 'left' ? 'Left side' : 'Right side'}
+                        className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                      >
+                        {compareModels.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                      </select>
+                    ))}
+                  </div>
+                  {compare.mode === 'swipe' && (
+                    <RangeSlider label="Divider" min={0} max={1} step={0.01} value={compare.divider} onChange={(divider: number) => setCompare(c => ({ ...c, divider }))} />
+                  )}
+                  {metadataDiff.length > 0 && (
+                    <div className="space-y-1">
+                      {metadataDiff.map(row => (
+                        <div key={row.label} className="grid grid-cols-[1fr_auto_auto_3rem] gap-2 items-center text-[9px] font-mono">
+                          <span className="text-slate-500 font-sans font-bold uppercase tracking-widest truncate">{row.label}</span>
+                          <span className="text-slate-300 text-right">{formatDiffValue(row, row.left)}</span>
+                          <span className="text-slate-300 text-right">{formatDiffValue(row, row.right)}</span>
+                          <span className={`text-right ${row.change === null || row.change === 0 ? 'text-slate-600' : row.change < 0 ? 'text-emerald-400' : 'text-amber-400'}`}>
+                            {row.change === null ? (row.left === row.right ? '' : '≠') : `${row.change > 0 ? '+' : ''}${Math.round(row.change * 100)}%`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </section>
+          )}
+
+          {metadata && isSidebarOpen && deviationObjects.length > 1 && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Deviation</h3>
+                {deviationDistances && (
+                  <button onClick={clearDeviation} className="text-[9px] font-bold text-slate-400 uppercase tracking-widest hover:text-white">
+                    Clear
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-[auto_1fr] gap-2 items-center">
+                {([['Measure', validDeviationId(deviationTarget), setDeviationTarget], ['Against', validDeviationId(deviationReference), setDeviationReference]] as const).map(([label, value, setValue]) => (
+                  <React.Fragment key={label}>
+                    <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">{label}</span>
+                    <select
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      className="w-full min-w-0 bg-slate-800 border border-slate-700 text-white text-[11px] rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                    >
+                      {deviationObjects.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                    </select>
+                  </React.Fragment>
+                ))}
+              </div>
+              <button
+                onClick={isAnalyzingDeviation ? () => deviationAbortRef.current?.abort() : runDeviation}
+                className={`w-full py-2.5 ${isAnalyzingDeviation ? 'bg-slate-800 hover:bg-slate-700 text-slate-300' : 'bg-blue-600 hover:bg-blue-500 text-white'} rounded-xl text-[10px] font-black uppercase tracking-widest transition-all`}
+              >
+                {isAnalyzingDeviation ? <><i className="fas fa-circle-notch fa-spin mr-2"></i>Cancel</> : <><i className="fas fa-ruler-combined mr-2"></i>{deviationDistances ? 'Measure Again' : 'Measure'}</>}
+              </button>
+
+              {deviationStatsResult && (
+                <div className="space-y-3">
+                  <Toggle label="Signed" active={deviationSettings.signed} onToggle={() => updateDeviation({ signed: !deviationSettings.signed })} icon="plus-minus" />
+                  <div className="grid grid-cols-4 gap-1">
+                    {COLORMAPS.map(colormap => (
+                      <button
+                        key={colormap}
+                        onClick={() => updateDeviation({ colormap: colormap as Colormap })}
+                        title={colormap}
+                        className={`h-4 rounded ${deviationSettings.colormap === colormap ? 'ring-2 ring-blue-500' : 'opacity-60 hover:opacity-100'}`}
+                        style={{ background: colormapGradient(colormap) }}
+                      />
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {([['Tolerance', 'tolerance'], ['Range', 'range']] as const).map(([label, key]) => (
+                      <label key={key} className="space-y-1 text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                        <span>{label}</span>
+                        <input
+                          type="number" min="0" step="any"
+                          value={deviationSettings[key]}
+                          onChange={(e) => updateDeviation({ [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                          title={key === 'range' ? '0 scales to the largest deviation' : '0 turns the pass band off'}
+                          className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] font-mono rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <BitsSlider label="Bands" min={0} max={12} value={deviationSettings.bands} onChange={(bands: number) => updateDeviation({ bands })} />
+
+                  <div className="grid grid-cols-3 gap-2">
+                    {([
+                      ['Samples', deviationStatsResult.count.toLocaleString()],
+                      ['Min', formatDeviation(deviationStatsResult.min)],
+                      ['Max', formatDeviation(deviationStatsResult.max)],
+                      ['Mean', formatDeviation(deviationStatsResult.mean)],
+                      ['RMS', formatDeviation(deviationStatsResult.rms)],
+                      ['In Tol.', deviationSettings.tolerance > 0 ? `${(deviationStatsResult.withinTolerance * 100).toFixed(1)}%` : '—']
+                    ]).map(([label, value]) => (
+                      <div key={label} className="p-2 bg-slate-900/60 rounded-lg">
+                        <div className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">{label}</div>
+                        <div className="text-[11px] text-white font-mono">{value}</div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {(() => {
+                    const { histogram } = deviationStatsResult;
+                    const range = deviationRange(deviationStatsResult, deviationSettings);
+                    const peak = Math.max(1, ...histogram.bins);
+                    const colors = histogramColors(deviationStatsResult, deviationSettings);
+                    return (
+                      <div className="space-y-1">
+                        <div className="flex items-end gap-px h-16">
+                          {histogram.bins.map((count, i) => (
+                            <div
+                              key={i}
+                              title={`${formatDeviation(histogram.start + i * histogram.binSize)} – ${formatDeviation(histogram.start + (i + 1) * histogram.binSize)}: ${count.toLocaleString()}`}
+                              className="flex-1 rounded-t-sm"
+                              style={{ height: `${(count / peak) * 100}%`, minHeight: count > 0 ? 1 : 0, background: colors[i] }}
+                            />
+                          ))}
+                        </div>
+                        <div className="flex justify-between text-[9px] text-slate-500 font-mono">
+                          <span>{formatDeviation(histogram.start)}</span>
+                          <span>{formatDeviation(histogram.start + histogram.bins.length * histogram.binSize)}</span>
+                        </div>
+                        <div className="h-2 rounded" style={{ background: colormapGradient(deviationSettings.colormap) }} />
+                        <div className="flex justify-between text-[9px] text-slate-500 font-mono">
+                          <span>{formatDeviation(deviationSettings.signed ? -range : 0)}</span>
+                          <span>{formatDeviation(range)}</span>
+                        </div>
+                      </div>
+                    );
+                  })()}
+                </div>
+              )}
+            </section>
+          )}
+
+          {metadata && isSidebarOpen && registrationReferences.length > 0 && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Register</h3>
+                {!isIdentityTransform(modelTransform) && (
+                  <button
+                    onClick={() => { setModelTransform(createModelTransform()); setPairRms(null); setIcpRms([]); }}
+                    className="text-[9px] font-bold text-slate-400 uppercase tracking-widest hover:text-white"
+                  >
+                    Reset Placement
+                  </button>
+                )}
+              </div>
+              <p className="text-[10px] text-slate-500 leading-relaxed">Moves the main model onto the reference; the new placement is carried into exports.</p>
+              <select
+                value={registrationReferenceId ?? ''}
+                onChange={(e) => changeRegistrationReference(e.target.value)}
+                title="Reference"
+                className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+              >
+                {registrationReferences.map(m => <option key={m.id} value={m.id}>{m.source.name}</option>)}
+              </select>
+
+              <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Point Pairs</span>
+                  {registrationPairs.length > 0 && (
+                    <button onClick={() => setRegistrationPairs([])} className="text-[9px] font-bold text-slate-400 uppercase tracking-widest hover:text-white">
+                      Clear
+                    </button>
+                  )}
+                </div>
+                <button
+                  onClick={toggleRegistrationPick}
+                  className={`w-full py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${registrationPick ? 'bg-amber-600 hover:bg-amber-500 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
+                >
+                  <i className="fas fa-map-pin mr-2"></i>{registrationPick ? 'Stop Picking' : 'Pick Pairs'}
+                </button>
+                {registrationPick && (
+                  <p className="text-[10px] text-slate-400 leading-relaxed">
+                    Click a point on the <span className={registrationPick === 'source' ? 'text-sky-400 font-bold' : ''}>main model</span>, then the same spot on the <span className={registrationPick === 'target' ? 'text-amber-400 font-bold' : ''}>reference</span>.
+                  </p>
+                )}
+                {registrationPairs.map((pair, i) => (
+                  <div key={pair.id} className="flex items-center gap-2 p-2 bg-slate-900/60 rounded-lg text-[10px] font-mono">
+                    <span className="text-slate-500 font-bold w-4">{i + 1}</span>
+                    <span className={`flex-1 ${pair.source ? 'text-sky-400' : 'text-slate-600'}`}><i className={`fas fa-${pair.source ? 'check' : 'ellipsis-h'} mr-1`}></i>Main</span>
+                    <span className={`flex-1 ${pair.target ? 'text-amber-400' : 'text-slate-600'}`}><i className={`fas fa-${pair.target ? 'check' : 'ellipsis-h'} mr-1`}></i>Reference</span>
+                    <button
+                      onClick={() => setRegistrationPairs(pairs => pairs.filter(p => p.id !== pair.id))}
+                      title="Remove pair"
+                      className="text-slate-500 hover:text-red-400"
+                    >
+                      <i className="fas fa-times"></i>
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={alignRegistrationPairs}
+                  disabled={completeRegistrationPairs.length < 3 || isRegistering}
+                  title={completeRegistrationPairs.length < 3 ? 'Pick at least three pairs' : undefined}
+                  className="w-full py-2.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+                >
+                  <i className="fas fa-object-ungroup mr-2"></i>Align Pairs
+                </button>
+                {pairRms !== null && (
+                  <div className="flex justify-between text-[10px] font-mono">
+                    <span className="text-slate-500 font-sans font-bold uppercase tracking-widest">Pair RMS</span>
+                    <span className="text-white">{formatDeviation(pairRms)}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="pt-2 border-t border-slate-800 space-y-3">
+                <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">ICP Refinement</span>
+                <BitsSlider label="Max Iterations" min={5} max={100} value={registrationSettings.iterations} onChange={(iterations: number) => setRegistrationSettings(s => ({ ...s, iterations }))} />
+                <RangeSlider label="Overlap" min={0.3} max={1} step={0.05} value={registrationSettings.overlap} onChange={(overlap: number) => setRegistrationSettings(s => ({ ...s, overlap }))} />
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                    <span>Samples</span>
+                  </div>
+                  <input
+                    type="number" min="100" step="1000"
+                    value={registrationSettings.samples}
+                    onChange={(e) => setRegistrationSettings(s => ({ ...s, samples: Math.max(100, parseInt(e.target.value) || 100) }))}
+                    className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] font-mono rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+                <button
+                  onClick={isRegistering ? () => registrationAbortRef.current?.abort() : refineRegistration}
+                  className={`w-full py-2.5 ${isRegistering ? 'bg-slate-800 hover:bg-slate-700 text-slate-300' : 'bg-blue-600 hover:bg-blue-500 text-white'} rounded-xl text-[10px] font-black uppercase tracking-widest transition-all`}
+                >
+                  {isRegistering ? <><i className="fas fa-circle-notch fa-spin mr-2"></i>Cancel</> : <><i className="fas fa-magnet mr-2"></i>Refine</>}
+                </button>
+                {icpRms.length > 0 && (
+                  <div className="space-y-1">
+                    <div className="flex items-end gap-px h-12">
+                      {icpRms.map((rms, i) => (
+                        <div
+                          key={i}
+                          title={`Iteration ${i}: ${formatDeviation(rms)}`}
+                          className="flex-1 bg-blue-500/70 rounded-t-sm"
+                          style={{ height: `${(rms / Math.max(...icpRms)) * 100}%`, minHeight: 1 }}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-[10px] font-mono">
+                      <span className="text-slate-500">RMS {formatDeviation(icpRms[0])} →</span>
+                      <span className="text-white">{formatDeviation(icpRms[icpRms.length - 1])} <span className="text-slate-500">· {icpRms.length - 1} it.</span></span>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </section>
+          )}
+
+          {metadata && isSidebarOpen && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Transform</h3>
+                {!isIdentityTransform(modelTransform) && (
+                  <button
+                    onClick={() => setModelTransform(createModelTransform())}
+                    className="text-[9px] font-bold text-slate-400 uppercase tracking-widest hover:text-white"
+                  >
+                    Reset
+                  </button>
+                )}
+              </div>
+              <SegmentedControl
+                value={transformTarget === MAIN_MODEL_ID ? transformMode : 'off'}
+                options={[
+                  { value: 'off', label: 'Off' },
+                  { value: 'translate', label: 'Move' },
+                  { value: 'rotate', label: 'Rotate' },
+                  { value: 'scale', label: 'Scale' }
+                ]}
+                onChange={(mode: TransformMode | 'off') => {
+                  setTransformTarget(mode === 'off' ? null : MAIN_MODEL_ID);
+                  if (mode !== 'off') setTransformMode(mode);
+                }}
+              />
+              <VectorField label="Position" value={modelTransform.position} step={0.1} onChange={(position: ModelTransform['position']) => setModelTransform(t => ({ ...t, position }))} />
+              <VectorField label="Rotation °" value={modelTransform.rotation} step={15} onChange={(rotation: ModelTransform['rotation']) => setModelTransform(t => ({ ...t, rotation }))} />
+              <VectorField label="Scale" value={modelTransform.scale} step={0.1} onChange={(scale: ModelTransform['scale']) => setModelTransform(t => ({ ...t, scale }))} />
+              <div className="grid grid-cols-3 gap-2">
+                {([['z-up', 'Z-Up → Y-Up'], ['ground', 'On Ground'], ['center', 'Center']] as const).map(([fix, label]) => (
+                  <button
+                    key={fix}
+                    onClick={() => fixPlacement(fix)}
+                    className="py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[9px] font-bold uppercase tracking-widest text-slate-300"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Unit Conversion</span>
+                <div className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center">
+                  {(['from', 'to'] as const).map(end => (
+                    <React.Fragment key={end}>
+                      <select
+                        value={unitConversion[end]}
+                        onChange={(e) => setUnitConversion(u => ({ ...u, [end]: e.target.value as MeasurementUnit }))}
+                        title={end === 'from' ? 'Units the model was made in' : 'Units to show and export it in'}
+                        className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] font-mono rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                      >
+                        {MEASUREMENT_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                      </select>
+                      {end === 'from' ? (
+                        <i className="fas fa-arrow-right text-[10px] text-slate-500"></i>
+                      ) : (
+                        <button
+                          onClick={() => setModelTransform(t => convertModelUnits(t, unitConversion.from, unitConversion.to))}
+                          disabled={unitConversion.from === unitConversion.to}
+                          className="px-3 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 rounded-lg text-[9px] font-bold uppercase tracking-widest text-white"
+                        >
+                          Apply
+                        </button>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            </section>
+          )}
+
+          {sceneGraph && isSidebarOpen && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <button onClick={() => setIsOutlinerOpen(!isOutlinerOpen)} className="w-full flex justify-between items-center">
+                <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Outliner</h3>
+                <div className="flex items-center gap-3">
+                  {isolatedNodeId && (
+                    <span
+                      onClick={(e) => { e.stopPropagation(); setIsolatedNodeId(null); }}
+                      className="text-[9px] font-bold text-amber-400 uppercase tracking-widest hover:text-amber-300"
+                    >
+                      Exit Isolate
+                    </span>
+                  )}
+                  <i className={`fas fa-chevron-${isOutlinerOpen ? 'down' : 'right'} text-[9px] text-slate-500`}></i>
+                </div>
+              </button>
+              {isOutlinerOpen && (
+                <div className="max-h-72 overflow-y-auto no-scrollbar -mx-2">
+                  <OutlinerRow
+                    node={sceneGraph}
+                    depth={0}
+                    selectedId={selectedNodeId}
+                    hiddenIds={hiddenNodeIds}
+                    isolatedId={isolatedNodeId}
+                    expandedIds={expandedNodeIds}
+                    onSelect={selectNode}
+                    onToggleExpanded={toggleNodeExpanded}
+                    onToggleHidden={toggleNodeHidden}
+                    onToggleIsolated={toggleNodeIsolated}
+                    onFrame={(id: string) => viewerRef.current?.frameObject(id)}
+                  />
+                </div>
+              )}
+            </section>
+          )}
+
+          {materials.length > 0 && isSidebarOpen && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <input type="file" ref={textureInputRef} onChange={handleTextureUpload} accept="image/*" className="hidden" />
+              <button onClick={() => setIsMaterialsOpen(!isMaterialsOpen)} className="w-full flex justify-between items-center">
+                <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Materials</h3>
+                <div className="flex items-center gap-3">
+                  <span className="text-[10px] text-slate-400 font-mono font-bold">{materials.length}</span>
+                  <i className={`fas fa-chevron-${isMaterialsOpen ? 'down' : 'right'} text-[9px] text-slate-500`}></i>
+                </div>
+              </button>
+              {isMaterialsOpen && (
+                <div className="space-y-1 max-h-[28rem] overflow-y-auto no-scrollbar">
+                  {materials.map(material => {
+                    const isEditing = editedMaterialId === material.id;
+                    return (
+                      <div key={material.id} className={`rounded-xl ${isEditing ? 'bg-slate-900 border border-slate-800' : ''}`}>
+                        <button
+                          onClick={() => setEditedMaterialId(isEditing ? null : material.id)}
+                          className="w-full flex items-center gap-3 p-2 rounded-xl hover:bg-slate-800/60 text-left"
+                        >
+                          <span className="w-5 h-5 rounded-md border border-slate-700 flex-shrink-0" style={{ background: material.color ?? '#808080', opacity: material.opacity }}></span>
+                          <div className="flex-1 min-w-0">
+                            <div className="text-[10px] text-white font-bold truncate" title={material.name}>{material.name}</div>
+                            <div className="text-[9px] text-slate-500 font-mono truncate">
+                              {material.type}{material.sourceType ? ` · from ${material.sourceType}` : ''}
+                            </div>
+                          </div>
+                          <span className="text-[9px] text-slate-500 font-mono">{material.meshes}×</span>
+                        </button>
+
+                        {isEditing && (
+                          <div className="p-3 pt-1 space-y-3">
+                            {material.color !== null && (
+                              <ColorField label="Base Color" value={material.color} onChange={(color: string) => editMaterial(material.id, { color })} />
+                            )}
+                            {material.emissive !== null && (
+                              <ColorField label="Emissive" value={material.emissive} onChange={(emissive: string) => editMaterial(material.id, { emissive })} />
+                            )}
+                            {material.emissiveIntensity !== null && (
+                              <RangeSlider label="Emissive Strength" min={0} max={10} step={0.1} value={material.emissiveIntensity} onChange={(emissiveIntensity: number) => editMaterial(material.id, { emissiveIntensity })} />
+                            )}
+                            {material.roughness !== null && (
+                              <RangeSlider label="Roughness" min={0} max={1} step={0.01} value={material.roughness} onChange={(roughness: number) => editMaterial(material.id, { roughness })} />
+                            )}
+                            {material.metalness !== null && (
+                              <RangeSlider label="Metalness" min={0} max={1} step={0.01} value={material.metalness} onChange={(metalness: number) => editMaterial(material.id, { metalness })} />
+                            )}
+                            <RangeSlider label="Opacity" min={0} max={1} step={0.01} value={material.opacity} onChange={(opacity: number) => editMaterial(material.id, { opacity })} />
+                            <Toggle label="Double Sided" active={material.doubleSided} onToggle={() => editMaterial(material.id, { doubleSided: !material.doubleSided })} icon="clone" />
+
+                            <div className="pt-2 border-t border-slate-800 space-y-1">
+                              <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Textures</span>
+                              {[...new Set([...material.textures.map(t => t.slot), ...material.editableSlots])].map(slot => {
+                                const texture = material.textures.find(t => t.slot === slot);
+                                const editable = material.editableSlots.includes(slot);
+                                return (
+                                  <div key={slot} className="flex items-center gap-2 p-1.5 bg-slate-950/60 rounded-lg">
+                                    <div className="w-9 h-9 rounded-md bg-slate-800 flex items-center justify-center overflow-hidden flex-shrink-0">
+                                      {texture?.thumbnail
+                                        ? <img src={texture.thumbnail} alt={texture.name} className="w-full h-full object-cover" />
+                                        : <i className={`fas fa-${texture ? 'image' : 'minus'} text-[10px] text-slate-600`}></i>}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                      <div className="text-[9px] text-slate-400 font-mono">{slot}</div>
+                                      <div className="text-[9px] text-slate-600 truncate" title={texture?.name}>
+                                        {texture ? `${texture.name} · ${texture.width}x${texture.height}` : 'Empty'}
+                                      </div>
+                                    </div>
+                                    {editable && (
+                                      <button onClick={() => pickTexture(material.id, slot)} title="Replace texture" className="w-6 h-6 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-400 text-[9px]">
+                                        <i className="fas fa-upload"></i>
+                                      </button>
+                                    )}
+                                    {editable && texture && (
+                                      <button onClick={() => viewerRef.current?.setMaterialTexture(material.id, slot, null)} title="Remove texture" className="w-6 h-6 rounded-md bg-slate-800 hover:bg-red-900/60 text-slate-400 text-[9px]">
+                                        <i className="fas fa-times"></i>
+                                      </button>
+                                    )}
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+          )}
+
+          {metadata && isSidebarOpen && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Measure</h3>
+              <SegmentedControl
+                value={measureMode ?? 'off'}
+                options={[
+                  { value: 'off', label: 'Off' },
+                  { value: 'distance', label: 'Distance' },
+                  { value: 'angle', label: 'Angle' },
+                  { value: 'area', label: 'Area' }
+                ]}
+                onChange={(mode: MeasurementKind | 'off') => {
+                  setMeasureMode(mode === 'off' ? null : mode);
+                  setRegistrationPick(null);
+                }}
+              />
+              {measureMode && (
+                <p className="text-[10px] text-slate-500 leading-relaxed">
+                  {measureMode === 'distance' && 'Click two points on the model.'}
+                  {measureMode === 'angle' && 'Click three points; the angle is measured at the second.'}
+                  {measureMode === 'area' && 'Click the outline points, then click the first point again or press Enter to close it.'}
+                  {' '}Esc cancels.
+                </p>
+              )}
+              <div className="space-y-2">
+                <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Model Unit</span>
+                <SegmentedControl
+                  value={measureUnit}
+                  options={MEASUREMENT_UNITS.map(unit => ({ value: unit, label: unit }))}
+                  onChange={setMeasureUnit}
+                />
+              </div>
+              <Toggle label="Snap to Vertices" active={snapToVertices} onToggle={() => setSnapToVertices(!snapToVertices)} icon="magnet" />
+              <div className="flex justify-between items-center text-[11px]">
+                <span className="text-slate-500 font-bold uppercase tracking-widest">Bounds</span>
+                <span className="text-slate-200 font-mono font-bold">
+                  {formatLength(metadata.dimensions.x)} × {formatLength(metadata.dimensions.y)} × {formatLength(metadata.dimensions.z)} {measureUnit}
+                </span>
+              </div>
+
+              {measurements.length > 0 && (
+                <div className="pt-2 border-t border-slate-800 space-y-2">
+                  <div className="space-y-1 max-h-48 overflow-y-auto no-scrollbar">
+                    {measurements.map((measurement, idx) => (
+                      <div key={measurement.id} className="flex items-center gap-2 p-2 bg-slate-900 rounded-lg text-[10px]">
+                        <span className="text-slate-500 font-mono w-4">{idx + 1}</span>
+                        <span className="text-slate-400 font-bold uppercase tracking-widest flex-1">{measurement.kind}</span>
+                        <span className="text-amber-300 font-mono font-bold">{formatMeasurement(measurement, measureUnit)}</span>
+                        <button onClick={() => removeMeasurement(measurement.id)} title="Remove" className="text-slate-600 hover:text-red-400">
+                          <i className="fas fa-times text-[9px]"></i>
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <button onClick={() => exportMeasurements('csv')} className="py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-bold uppercase tracking-widest text-slate-300">CSV</button>
+                    <button onClick={() => exportMeasurements('json')} className="py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-bold uppercase tracking-widest text-slate-300">JSON</button>
+                    <button onClick={() => setMeasurements([])} className="py-2 bg-slate-800 hover:bg-red-900/60 rounded-lg text-[10px] font-bold uppercase tracking-widest text-slate-300">Clear</button>
+                  </div>
+                </div>
+              )}
+            </section>
+          )}
+
+          {metadata && isSidebarOpen && metadata.triangles > 0 && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Validate</h3>
+                {validationIssues && (
+                  <span className="text-[9px] font-mono font-bold">
+                    <span className="text-red-400">{validationIssues.filter(i => i.severity === 'error').length} errors</span>
+                    <span className="text-slate-600"> · </span>
+                    <span className="text-amber-400">{validationIssues.filter(i => i.severity === 'warning').length} warnings</span>
+                  </span>
+                )}
+              </div>
+              <button
+                onClick={runValidation}
+                disabled={isValidating}
+                className="w-full py-2.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+              >
+                {isValidating ? <><i className="fas fa-circle-notch fa-spin mr-2"></i>Checking...</> : <><i className="fas fa-stethoscope mr-2"></i>{validationIssues ? 'Check Again' : 'Run Checks'}</>}
+              </button>
+              {validationIssues && validationIssues.length === 0 && (
+                <p className="text-[10px] text-emerald-400 font-bold"><i className="fas fa-check-circle mr-2"></i>No problems found</p>
+              )}
+              {issueGroups.length > 0 && (
+                <div className="space-y-3 max-h-80 overflow-y-auto no-scrollbar">
+                  {issueGroups.map(({ check, issues }) => {
+                    const fixes = [...new Set(issues.map(issue => issue.fix).filter((fix): fix is MeshFix => !!fix))];
+                    return (
+                      <div key={check} className="space-y-1">
+                        <div className="flex justify-between items-center">
+                          <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{VALIDATION_LABELS[check]}</span>
+                          {fixes.map(fix => (
+                            <button
+                              key={fix}
+                              onClick={() => applyFix(fix, issues.filter(issue => issue.fix === fix))}
+                              disabled={isValidating}
+                              title={MESH_FIX_LABELS[fix]}
+                              className="text-[9px] font-bold text-blue-400 uppercase tracking-widest hover:text-blue-300 disabled:opacity-50"
+                            >
+                              Fix All
+                            </button>
+                          ))}
+                        </div>
+                        {issues.map(issue => (
+                          <div
+                            key={issue.id}
+                            onClick={() => highlightIssue(issue)}
+                            className={`flex items-center gap-2 p-2 rounded-lg cursor-pointer ${highlightedIssueId === issue.id ? 'bg-slate-800' : 'bg-slate-900/60 hover:bg-slate-800/60'}`}
+                          >
+                            <i className={`fas fa-${issue.severity === 'error' ? 'times-circle text-red-400' : 'exclamation-triangle text-amber-400'} text-[10px]`}></i>
+                            <div className="flex-1 min-w-0">
+                              <div className="text-[10px] text-white font-bold truncate" title={issue.name}>{issue.name}</div>
+                              <div className="text-[9px] text-slate-500 leading-snug">{issue.message}</div>
+                            </div>
+                            {issue.highlight && <i className={`fas fa-eye text-[9px] ${highlightedIssueId === issue.id ? 'text-rose-400' : 'text-slate-600'}`}></i>}
+                            {issue.fix && (
+                              <button
+                                onClick={(e) => { e.stopPropagation(); applyFix(issue.fix!, [issue]); }}
+                                disabled={isValidating}
+                                title={MESH_FIX_LABELS[issue.fix]}
+                                className="px-2 py-1 rounded-md bg-slate-800 hover:bg-blue-600 text-slate-300 text-[9px] font-bold uppercase tracking-widest disabled:opacity-50"
+                              >
+                                Fix
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+          )}
+
+          {metadata && isSidebarOpen && metadata.triangles > 0 && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Simplify</h3>
+              <Toggle label="Live Preview" active={simplifySettings.enabled} onToggle={() => updateSimplify({ enabled: !simplifySettings.enabled })} icon="compress-alt" />
+              <SegmentedControl
+                value={simplifySettings.mode}
+                options={[{ value: 'ratio', label: 'Ratio' }, { value: 'budget', label: 'Budget' }]}
+                onChange={(mode: SimplifySettings['mode']) => updateSimplify({ mode })}
+              />
+              {simplifySettings.mode === 'ratio' ? (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                    <span>Target Ratio</span>
+                    <span className="text-blue-400">{Math.round(simplifySettings.ratio * 100)}%</span>
+                  </div>
+                  <input
+                    type="range" min="0.01" max="1" step="0.01"
+                    value={simplifySettings.ratio}
+                    onChange={(e) => updateSimplify({ ratio: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                    <span>Triangle Budget</span>
+                  </div>
+                  <input
+                    type="number" min="1" step="1000"
+                    value={simplifySettings.triangleBudget}
+                    onChange={(e) => updateSimplify({ triangleBudget: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] font-mono rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                  <span>Max Error</span>
+                  <span className="text-blue-400">{(simplifySettings.errorThreshold * 100).toFixed(1)}%</span>
+                </div>
+                <input
+                  type="range" min="0.001" max="0.1" step="0.001"
+                  value={simplifySettings.errorThreshold}
+                  onChange={(e) => updateSimplify({ errorThreshold: parseFloat(e.target.value) })}
+                  className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                />
+              </div>
+              <Toggle label="Lock Borders" active={simplifySettings.lockBorder} onToggle={() => updateSimplify({ lockBorder: !simplifySettings.lockBorder })} icon="lock" />
+            </section>
+          )}
+
+          {/* Streamed clouds are never fully in memory, so there is nothing to process in one pass */}
+          {metadata && isSidebarOpen && hasPoints && !pointOctree && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Process Points</h3>
+                <span className="text-[10px] font-mono text-slate-500">
+                  {isProcessingPoints && <i className="fas fa-circle-notch fa-spin text-blue-400 mr-2"></i>}
+                  {metadata.vertices.toLocaleString()} pts
+                </span>
+              </div>
+
+              <Toggle label="Crop Box" active={pointProcessing.crop.enabled} onToggle={() => updatePointStep('crop', { enabled: !pointProcessing.crop.enabled })} icon="crop-alt" />
+              {pointProcessing.crop.enabled && (
+                <div className="space-y-3 px-1">
+                  {['X', 'Y', 'Z'].map((label, axis) => (
+                    <CropRange
+                      key={label}
+                      label={label}
+                      min={pointProcessing.crop.min[axis]}
+                      max={pointProcessing.crop.max[axis]}
+                      onChange={(end: 'min' | 'max', value: number) => setCropRange(axis, end, value)}
+                    />
+                  ))}
+                </div>
+              )}
+
+              <Toggle label="Remove Outliers" active={pointProcessing.outliers.enabled} onToggle={() => updatePointStep('outliers', { enabled: !pointProcessing.outliers.enabled })} icon="filter" />
+              {pointProcessing.outliers.enabled && (
+                <div className="space-y-4 px-1">
+                  <BitsSlider label="Neighbors" min={4} max={64} value={pointProcessing.outliers.neighbors} onChange={(neighbors: number) => updatePointStep('outliers', { neighbors })} />
+                  <RangeSlider label="Std Dev Ratio" min={0.5} max={5} step={0.1} value={pointProcessing.outliers.stdRatio} onChange={(stdRatio: number) => updatePointStep('outliers', { stdRatio })} />
+                </div>
+              )}
+
+              <Toggle label="Voxel Downsample" active={pointProcessing.voxel.enabled} onToggle={() => updatePointStep('voxel', { enabled: !pointProcessing.voxel.enabled })} icon="th" />
+              {pointProcessing.voxel.enabled && (
+                <div className="space-y-2 px-1">
+                  <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                    <span>Voxel Size</span>
+                    <span className="text-blue-400">{(pointProcessing.voxel.size * 100).toFixed(2)}% of size</span>
+                  </div>
+                  <input
+                    type="range" min="0.0005" max="0.05" step="0.0005"
+                    value={pointProcessing.voxel.size}
+                    onChange={(e) => updatePointStep('voxel', { size: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </div>
+              )}
+
+              <Toggle label="Random Subsample" active={pointProcessing.subsample.enabled} onToggle={() => updatePointStep('subsample', { enabled: !pointProcessing.subsample.enabled })} icon="random" />
+              {pointProcessing.subsample.enabled && (
+                <div className="space-y-2 px-1">
+                  <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                    <span>Target Points</span>
+                  </div>
+                  <input
+                    type="number" min="1" step="100000"
+                    value={pointProcessing.subsample.targetCount}
+                    onChange={(e) => updatePointStep('subsample', { targetCount: Math.max(1, parseInt(e.target.value) || 1) })}
+                    className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] font-mono rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+              )}
+            </section>
+          )}
+
+          {metadata && isSidebarOpen && hasPoints && !pointOctree && (
+            <section className="bg-slate-950/50 rounded-3xl p-5 border border-slate-800/50 space-y-4">
+              <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">Surface Reconstruction</h3>
+              <BitsSlider label="Grid Resolution" min={32} max={192} value={reconstruction.resolution} onChange={(resolution: number) => setReconstruction(r => ({ ...r, resolution }))} />
+              <BitsSlider label="Normal Neighbors" min={6} max={32} value={reconstruction.neighbors} onChange={(neighbors: number) => setReconstruction(r => ({ ...r, neighbors }))} />
+              <Toggle label="Keep Point Cloud" active={reconstruction.keepPoints} onToggle={() => setReconstruction(r => ({ ...r, keepPoints: !r.keepPoints }))} icon="braille" />
+              <div className="flex gap-2">
+                <button
+                  onClick={handleReconstruct}
+                  disabled={isReconstructing}
+                  className="flex-1 py-2.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+                >
+                  {isReconstructing ? <><i className="fas fa-circle-notch fa-spin mr-2"></i>Meshing...</> : <><i className="fas fa-draw-polygon mr-2"></i>Build Mesh</>}
+                </button>
+                {isReconstructing && (
+                  <button
+                    onClick={() => reconstructAbortRef.current?.abort()}
+                    className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+              <p className="text-[10px] text-slate-500 leading-relaxed">
+                Meshes the processed points (normals are estimated when missing). The mesh is added to the outliner and exported with the model.
+              </p>
             </section>
           )}
         </div>
@@ -212,7 +1785,13 @@ const App: React.FC = () => {
       </aside>
 
       {/* Main Container */}
-      <main className="flex-1 relative min-w-0 bg-slate-950">
+      <main
+        className="flex-1 relative min-w-0 bg-slate-950 flex flex-col"
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
         <header className="absolute top-0 left-0 p-6 z-10 pointer-events-none">
           {metadata && (
             <div className="pointer-events-auto bg-slate-900/80 backdrop-blur-xl border border-white/5 rounded-3xl px-6 py-3 flex items-center gap-4 shadow-2xl">
@@ -236,8 +1815,8 @@ const App: React.FC = () => {
             <i className={`fas ${isSettingsOpen ? 'fa-times' : 'fa-cog'} text-lg transition-transform duration-500 ${isSettingsOpen ? 'rotate-180' : ''}`}></i>
           </button>
 
-          <div className={`pointer-events-auto mt-3 overflow-hidden transition-all duration-500 ease-in-out bg-slate-900/90 backdrop-blur-xl border border-slate-800 rounded-3xl shadow-2xl ${
-            isSettingsOpen ? 'max-h-[700px] opacity-100 w-[260px] p-6' : 'max-h-0 opacity-0 w-[0px] p-0'
+          <div className={`pointer-events-auto mt-3 transition-all duration-500 ease-in-out bg-slate-900/90 backdrop-blur-xl border border-slate-800 rounded-3xl shadow-2xl ${
+            isSettingsOpen ? 'max-h-[calc(100vh-8rem)] overflow-y-auto no-scrollbar opacity-100 w-[260px] p-6' : 'max-h-0 overflow-hidden opacity-0 w-[0px] p-0'
           }`}>
             <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em] mb-4">Scene Controls</h3>
             <div className="space-y-5">
@@ -245,48 +1824,245 @@ const App: React.FC = () => {
               <Toggle label="Wireframe" active={sceneSettings.wireframe} onToggle={() => setSceneSettings(s => ({ ...s, wireframe: !s.wireframe }))} icon="border-all" />
               <Toggle label="Animation" active={sceneSettings.playAnimation} onToggle={() => setSceneSettings(s => ({ ...s, playAnimation: !s.playAnimation }))} icon="play" />
               <Toggle label="Skeleton" active={sceneSettings.showSkeleton} onToggle={() => setSceneSettings(s => ({ ...s, showSkeleton: !s.showSkeleton }))} icon="bone" />
-              
-              {metadata && metadata.animations.length > 0 && (
-                <div className="space-y-2 pt-2 border-t border-slate-800">
-                  <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
-                    <span>Active Track</span>
+
+              <div className="space-y-3 pt-2 border-t border-slate-800">
+                {hasPoints && (
+                  <>
+                    <div className="space-y-2">
+                      <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Point Color</span>
+                      <select
+                        value={pointCloud.colorMode}
+                        onChange={(e) => updatePointCloud({ colorMode: e.target.value as PointColorMode })}
+                        className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                      >
+                        <option value="rgb">RGB</option>
+                        <option value="elevation">Elevation</option>
+                        <option value="scalar" disabled={scalarFields.length === 0}>Scalar Field</option>
+                        <option value="normals" disabled={!pointAttributes.includes('normal')}>Normals</option>
+                        <option value="classification" disabled={!pointAttributes.includes('classification')}>Classification</option>
+                      </select>
+                    </div>
+                    {pointCloud.colorMode === 'elevation' && (
+                      <SegmentedControl
+                        value={pointCloud.elevationAxis}
+                        options={[{ value: 'x', label: 'X' }, { value: 'y', label: 'Y' }, { value: 'z', label: 'Z' }]}
+                        onChange={(elevationAxis: PointCloudSettings['elevationAxis']) => updatePointCloud({ elevationAxis })}
+                      />
+                    )}
+                    {pointCloud.colorMode === 'scalar' && (
+                      <select
+                        value={scalarFields.includes(pointCloud.scalarField) ? pointCloud.scalarField : ''}
+                        onChange={(e) => updatePointCloud({ scalarField: e.target.value })}
+                        className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] font-mono rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                      >
+                        {!scalarFields.includes(pointCloud.scalarField) && <option value="" disabled>Choose a field</option>}
+                        {scalarFields.map(field => <option key={field} value={field}>{field}</option>)}
+                      </select>
+                    )}
+                    {(pointCloud.colorMode === 'elevation' || pointCloud.colorMode === 'scalar') && (
+                      <div className="grid grid-cols-4 gap-1">
+                        {COLORMAPS.map(colormap => (
+                          <button
+                            key={colormap}
+                            onClick={() => updatePointCloud({ colormap: colormap as Colormap })}
+                            title={colormap}
+                            className={`h-4 rounded ${pointCloud.colormap === colormap ? 'ring-2 ring-blue-500' : 'opacity-60 hover:opacity-100'}`}
+                            style={{ background: colormapGradient(colormap) }}
+                          />
+                        ))}
+                      </div>
+                    )}
+                    <SegmentedControl
+                      value={pointCloud.shape}
+                      options={[{ value: 'square', label: 'Square' }, { value: 'round', label: 'Round' }]}
+                      onChange={(shape: PointCloudSettings['shape']) => updatePointCloud({ shape })}
+                    />
+                    <SegmentedControl
+                      value={pointCloud.sizeMode}
+                      options={[{ value: 'world', label: 'World Size' }, { value: 'screen', label: 'Screen Size' }]}
+                      onChange={(sizeMode: PointCloudSettings['sizeMode']) => updatePointCloud({ sizeMode })}
+                    />
+                  </>
+                )}
+                {pointCloud.sizeMode === 'screen' && hasPoints ? (
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                      <span>Point Size</span>
+                      <span className="text-blue-400">{pointCloud.screenPointSize}px</span>
+                    </div>
+                    <input
+                      type="range" min="1" max="20" step="1"
+                      value={pointCloud.screenPointSize}
+                      onChange={(e) => updatePointCloud({ screenPointSize: parseInt(e.target.value) })}
+                      className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
                   </div>
-                  <select 
-                    value={sceneSettings.activeAnimationIndex}
-                    onChange={(e) => setSceneSettings(s => ({ ...s, activeAnimationIndex: parseInt(e.target.value) }))}
-                    className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
-                  >
-                    {metadata.animations.map((name, idx) => (
-                      <option key={idx} value={idx}>{name}</option>
-                    ))}
-                  </select>
-                </div>
-              )}
+                ) : (
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                      <span>Point Size</span>
+                      <span className="text-blue-400">{sceneSettings.pointSize.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range" min="0.01" max="0.5" step="0.01"
+                      value={sceneSettings.pointSize}
+                      onChange={(e) => setSceneSettings(s => ({ ...s, pointSize: parseFloat(e.target.value) }))}
+                      className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </div>
+                )}
+                {pointOctree && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                      <span>Point Budget</span>
+                      <span className="text-blue-400">{(sceneSettings.pointBudget / 1e6).toFixed(1)}M</span>
+                    </div>
+                    <input
+                      type="range" min="500000" max="20000000" step="500000"
+                      value={sceneSettings.pointBudget}
+                      onChange={(e) => setSceneSettings(s => ({ ...s, pointBudget: parseInt(e.target.value) }))}
+                      className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                    <p className="text-[10px] font-mono text-slate-500">
+                      {pointOctree.visible.toLocaleString()} of {pointOctree.total.toLocaleString()} pts shown
+                      {pointOctree.progressive && ` · ${pointOctree.loaded.toLocaleString()} loaded`}
+                    </p>
+                  </div>
+                )}
+              </div>
 
-              <div className="space-y-2 pt-2 border-t border-slate-800">
-                 <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
-                    <span>Point Size</span>
-                    <span className="text-blue-400">{sceneSettings.pointSize.toFixed(2)}</span>
-                 </div>
-                 <input 
-                  type="range" min="0.01" max="0.5" step="0.01" 
-                  value={sceneSettings.pointSize} 
-                  onChange={(e) => setSceneSettings(s => ({ ...s, pointSize: parseFloat(e.target.value) }))}
-                  className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                 />
+              <div className="space-y-4 pt-2 border-t border-slate-800">
+                <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Section Planes</span>
+                {sceneSettings.clipping.planes.map((plane, idx) => (
+                  <div key={idx} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => updateClipPlane(idx, { enabled: !plane.enabled })}
+                        className={`flex-1 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${plane.enabled ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+                      >
+                        Plane {idx + 1}
+                      </button>
+                      <button
+                        onClick={() => updateClipPlane(idx, { flipped: !plane.flipped })}
+                        disabled={!plane.enabled}
+                        title="Flip kept side"
+                        className={`w-8 py-1.5 rounded-lg text-[10px] disabled:opacity-30 ${plane.flipped ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+                      >
+                        <i className="fas fa-right-left"></i>
+                      </button>
+                    </div>
+                    {plane.enabled && (
+                      <>
+                        <SegmentedControl
+                          value={plane.axis}
+                          options={[{ value: 'x', label: 'X' }, { value: 'y', label: 'Y' }, { value: 'z', label: 'Z' }, { value: 'free', label: 'Free' }]}
+                          onChange={(axis: ClipPlane['axis']) => updateClipPlane(idx, { axis })}
+                        />
+                        <input
+                          type="range" min="0" max="1" step="0.001"
+                          value={plane.position}
+                          onChange={(e) => updateClipPlane(idx, { position: parseFloat(e.target.value) })}
+                          className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                        />
+                      </>
+                    )}
+                  </div>
+                ))}
+                {hasSectionPlanes && (
+                  <>
+                    <Toggle label="Plane Gizmos" active={sceneSettings.clipping.showGizmos} onToggle={() => updateClipping({ showGizmos: !sceneSettings.clipping.showGizmos })} icon="arrows-up-down-left-right" />
+                    <Toggle label="Cap Sections" active={sceneSettings.clipping.showCaps} onToggle={() => updateClipping({ showCaps: !sceneSettings.clipping.showCaps })} icon="fill-drip" />
+                  </>
+                )}
               </div>
             </div>
           </div>
         </div>
 
-        <ThreeViewer 
-          ref={viewerRef}
-          modelUrl={modelUrl} 
-          extension={extension} 
-          settings={sceneSettings}
-          onModelMetadata={handleMetadataLoaded} 
-          onLoadingStatus={setLoadingStatus}
-        />
+        <div className="relative flex-1 min-h-0">
+          <ThreeViewer 
+            ref={viewerRef}
+            modelUrl={modelUrl} 
+            extension={modelSource?.extension ?? null}
+            modelFile={modelSource?.file ?? null}
+            resources={modelSource?.resources} 
+            settings={sceneSettings}
+            simplification={simplifySettings}
+            pointProcessing={pointProcessing}
+            onPointProcessing={setIsProcessingPoints}
+            onPointOctree={setPointOctree}
+            onModelMetadata={handleMetadataLoaded} 
+            onModelStats={handleModelStats}
+            onLoadingStatus={setLoadingStatus}
+            onExportReport={setExportReport}
+            onBrowse={() => fileInputRef.current?.click()}
+            selectedNodeId={selectedNodeId}
+            hiddenNodeIds={hiddenNodeIds}
+            isolatedNodeId={isolatedNodeId}
+            onSceneGraph={handleSceneGraph}
+            onSelectNode={selectNode}
+            onMaterials={handleMaterials}
+            measureMode={measureMode}
+            measurements={measurements}
+            measureUnit={measureUnit}
+            snapToVertices={snapToVertices}
+            onMeasurement={handleMeasurement}
+            onClippingChange={handleClippingChange}
+            validationHighlight={highlightedIssue}
+            sceneModels={sceneModels}
+            transformTarget={transformTarget}
+            transformMode={transformMode}
+            onSceneModelMetadata={handleSceneModelMetadata}
+            onSceneModelTransform={handleSceneModelTransform}
+            onSceneModelError={handleSceneModelError}
+            compare={compare}
+            deviation={deviationDistances ? deviationSettings : null}
+            onDeviationCleared={() => setDeviationDistances(null)}
+            modelTransform={modelTransform}
+            onModelTransform={setModelTransform}
+            registrationPick={registrationPick}
+            registrationReference={registrationReferenceId}
+            registrationPairs={registrationPairs}
+            onRegistrationPoint={addRegistrationPoint}
+            onAnimations={handleAnimations}
+          />
+
+          {compare.mode !== 'off' && metadata && (
+            <CompareDivider
+              position={compare.mode === 'swipe' ? compare.divider : 0.5}
+              draggable={compare.mode === 'swipe'}
+              leftLabel={compareLeft?.name}
+              rightLabel={compareRight?.name}
+              onChange={(divider: number) => setCompare(c => ({ ...c, divider }))}
+            />
+          )}
+        </div>
+
+        {metadata && animationClips.length > 0 && (
+          <AnimationTimeline
+            clips={animationClips}
+            activeIndex={sceneSettings.activeAnimationIndex}
+            playing={sceneSettings.playAnimation}
+            settings={sceneSettings.animation}
+            getTime={() => viewerRef.current?.getAnimationTime() ?? 0}
+            onSeek={seekAnimation}
+            onTogglePlay={() => setSceneSettings(s => ({ ...s, playAnimation: !s.playAnimation }))}
+            onSelect={(index: number) => setSceneSettings(s => ({ ...s, activeAnimationIndex: index }))}
+            onChange={updateAnimation}
+            onRename={(index: number, name: string) => viewerRef.current?.renameAnimation(index, name)}
+            onTrim={(index: number, start: number, end: number) => viewerRef.current?.trimAnimation(index, start, end)}
+            onDelete={deleteAnimation}
+          />
+        )}
+
+        {/* Drop Overlay */}
+        {isDragging && (
+          <div className="absolute inset-4 flex flex-col items-center justify-center bg-blue-950/80 backdrop-blur-xl border-2 border-dashed border-blue-500/60 rounded-[40px] z-[60] pointer-events-none">
+            <i className="fas fa-file-import text-5xl text-blue-400 mb-6 animate-bounce"></i>
+            <h2 className="text-3xl font-black text-white mb-2 uppercase tracking-tighter">Drop to Load</h2>
+            <p className="text-blue-300 font-mono text-xs tracking-widest uppercase">Files, folders or .zip archives</p>
+          </div>
+        )}
 
         {/* Loading Overlay */}
         {appState === AppState.LOADING && (
@@ -300,6 +2076,7 @@ const App: React.FC = () => {
             </div>
             <h2 className="text-3xl font-black text-white mb-3 uppercase tracking-tighter">Hydrating Scene</h2>
             <p className="text-blue-400 font-mono text-sm tracking-widest uppercase">{loadingStatus}</p>
+            <button onClick={reset} className="mt-8 px-8 py-3 bg-slate-800 hover:bg-red-900/30 hover:text-red-400 rounded-xl font-bold text-sm transition-all">Cancel</button>
           </div>
         )}
 
@@ -313,12 +2090,17 @@ const App: React.FC = () => {
                <h2 className="text-3xl font-black text-white mb-2 tracking-tighter uppercase">Compressing Assets</h2>
                <div className="space-y-4 mb-8">
                  <div className="flex justify-between items-end mb-1">
-                   <span className="text-2xl font-mono font-black text-white tracking-tighter">{Math.round(exportProgress)}%</span>
+                   <span className="text-blue-400 font-mono text-xs tracking-widest uppercase">
+                     {exportProgress ? EXPORT_STAGE_LABELS[exportProgress.stage] : 'Preparing'}
+                     {exportProgress && exportProgress.fileCount > 1 && ` · ${exportProgress.file + 1}/${exportProgress.fileCount}`}
+                   </span>
+                   <span className="text-2xl font-mono font-black text-white tracking-tighter">{Math.round(exportProgress?.percent ?? 0)}%</span>
                  </div>
                  <div className="w-full h-4 bg-slate-800 rounded-full overflow-hidden">
-                   <div className="h-full bg-blue-600 transition-all" style={{ width: `${exportProgress}%` }} />
+                   <div className="h-full bg-blue-600 transition-all" style={{ width: `${exportProgress?.percent ?? 0}%` }} />
                  </div>
                </div>
+               <button onClick={cancelExport} className="px-8 py-3 bg-slate-800 hover:bg-red-900/30 hover:text-red-400 rounded-xl font-bold text-sm transition-all">Cancel</button>
             </div>
           </div>
         )}
@@ -330,15 +2112,184 @@ const App: React.FC = () => {
             <div className="relative w-full max-w-md bg-slate-900 border border-slate-800 rounded-[32px] overflow-hidden shadow-2xl">
               <div className="p-8 border-b border-slate-800">
                 <h2 className="text-2xl font-black text-white uppercase tracking-tighter">Export Config</h2>
-                <p className="text-slate-500 text-xs">Target: <span className="text-blue-400 font-bold">GLB Binary</span></p>
+                <p className="text-slate-500 text-xs">Target: <span className="text-blue-400 font-bold">{EXPORT_FORMAT_LABELS[exportSettings.format]}</span></p>
               </div>
-              <div className="p-8 space-y-6">
-                <CompressionToggle label="Draco Geometry" active={exportSettings.draco} onToggle={toggleDraco} />
-                <CompressionToggle label="KTX2 Textures" active={exportSettings.ktx2} onToggle={toggleKTX2} />
+              <div className="p-8 space-y-6 max-h-[60vh] overflow-y-auto">
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                    <span>Format</span>
+                  </div>
+                  <select
+                    value={exportSettings.format}
+                    onChange={(e) => setFormat(e.target.value as ExportFormat)}
+                    className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                  >
+                    {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                      <option key={format} value={format} disabled={isFormatDisabled(format)}>
+                        {EXPORT_FORMAT_LABELS[format]}
+                      </option>
+                    ))}
+                  </select>
+                  {!canExportFormat && (
+                    <p className="text-[10px] text-red-400 font-bold">
+                      {hasPoints ? 'Point clouds' : 'Meshes'} cannot be written to {exportSettings.format.toUpperCase()}.
+                    </p>
+                  )}
+                </div>
+                {exportSettings.format === 'obj' && (
+                  <Toggle label="Write MTL + Textures" active={exportSettings.objSettings.includeMaterials} onToggle={() => setObj({ includeMaterials: !exportSettings.objSettings.includeMaterials })} icon="palette" />
+                )}
+                {exportSettings.format === 'ply' && (
+                  <div className="space-y-4">
+                    <SegmentedControl
+                      value={exportSettings.plySettings.binary ? 'binary' : 'ascii'}
+                      options={[{ value: 'binary', label: 'Binary' }, { value: 'ascii', label: 'ASCII' }]}
+                      onChange={(mode: string) => setPly({ binary: mode === 'binary' })}
+                    />
+                    <Toggle label="Normals" active={exportSettings.plySettings.includeNormals} onToggle={() => setPly({ includeNormals: !exportSettings.plySettings.includeNormals })} icon="arrow-up" />
+                    <Toggle label="Vertex Colors" active={exportSettings.plySettings.includeColors} onToggle={() => setPly({ includeColors: !exportSettings.plySettings.includeColors })} icon="palette" />
+                  </div>
+                )}
+                {exportSettings.format === 'pcd' && (
+                  <SegmentedControl
+                    value={exportSettings.pcdSettings.binary ? 'binary' : 'ascii'}
+                    options={[{ value: 'binary', label: 'Binary' }, { value: 'ascii', label: 'ASCII' }]}
+                    onChange={(mode: string) => setPcd({ binary: mode === 'binary' })}
+                  />
+                )}
+                {exportSettings.format === 'stl' && (
+                  <SegmentedControl
+                    value={exportSettings.stlSettings.binary ? 'binary' : 'ascii'}
+                    options={[{ value: 'binary', label: 'Binary' }, { value: 'ascii', label: 'ASCII' }]}
+                    onChange={(mode: string) => setStl({ binary: mode === 'binary' })}
+                  />
+                )}
+                {exportSettings.format === 'usdz' && (
+                  <div className="space-y-4">
+                    <Toggle label="Quick Look Compatible" active={exportSettings.usdzSettings.quickLookCompatible} onToggle={() => setUsdz({ quickLookCompatible: !exportSettings.usdzSettings.quickLookCompatible })} icon="mobile-alt" />
+                    <SegmentedControl
+                      value={exportSettings.usdzSettings.anchoring}
+                      options={[{ value: 'horizontal', label: 'Floor' }, { value: 'vertical', label: 'Wall' }]}
+                      onChange={(anchoring: UsdzSettings['anchoring']) => setUsdz({ anchoring })}
+                    />
+                    <SegmentedControl
+                      value={exportSettings.usdzSettings.maxTextureSize}
+                      options={[{ value: 512, label: '512' }, { value: 1024, label: '1K' }, { value: 2048, label: '2K' }, { value: 4096, label: '4K' }]}
+                      onChange={(maxTextureSize: number) => setUsdz({ maxTextureSize })}
+                    />
+                  </div>
+                )}
+                {isGLTFExport && (
+                  <>
+                    <CompressionToggle label="Draco Geometry" active={exportSettings.draco} onToggle={toggleDraco} />
+                    {exportSettings.draco && (
+                      <div className="space-y-4 px-1">
+                        <BitsSlider label="Position Bits" min={8} max={16} value={exportSettings.dracoSettings.positionBits} onChange={(v: number) => setDracoBits('positionBits', v)} />
+                        <BitsSlider label="Normal Bits" min={6} max={14} value={exportSettings.dracoSettings.normalBits} onChange={(v: number) => setDracoBits('normalBits', v)} />
+                        <BitsSlider label="UV Bits" min={8} max={16} value={exportSettings.dracoSettings.uvBits} onChange={(v: number) => setDracoBits('uvBits', v)} />
+                        <BitsSlider label="Color Bits" min={6} max={12} value={exportSettings.dracoSettings.colorBits} onChange={(v: number) => setDracoBits('colorBits', v)} />
+                      </div>
+                    )}
+                    <CompressionToggle label="Meshopt Geometry" active={exportSettings.meshopt} onToggle={toggleMeshopt} />
+                    {exportSettings.meshopt && (
+                      <div className="space-y-4 px-1">
+                        <Toggle label="Overdraw Pass" active={exportSettings.meshoptSettings.optimizeOverdraw} onToggle={() => toggleMeshoptSetting('optimizeOverdraw')} icon="layer-group" />
+                        <Toggle label="Quantize Attributes" active={exportSettings.meshoptSettings.quantize} onToggle={() => toggleMeshoptSetting('quantize')} icon="compress" />
+                        <Toggle label="Lossy Filters" active={exportSettings.meshoptSettings.filter} onToggle={() => toggleMeshoptSetting('filter')} icon="filter" />
+                      </div>
+                    )}
+                    <CompressionToggle label="KTX2 Textures" active={exportSettings.ktx2} onToggle={toggleKTX2} />
+                  </>
+                )}
+                <CompressionToggle label="LOD Chain" active={exportSettings.lod.enabled} onToggle={() => setLod({ enabled: !exportSettings.lod.enabled })} />
+                {exportSettings.lod.enabled && (
+                  <div className="space-y-3 px-1">
+                    <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                      <span>Levels (%)</span>
+                    </div>
+                    <input
+                      type="text"
+                      value={lodRatiosText}
+                      onChange={(e) => handleLodRatios(e.target.value)}
+                      className="w-full bg-slate-800 border border-slate-700 text-white text-[11px] font-mono rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+                    />
+                    {isGLTFExport && (
+                      <SegmentedControl
+                        value={exportSettings.lod.packing}
+                        options={[{ value: 'separate', label: 'Separate Files' }, { value: 'msft_lod', label: 'MSFT_lod' }]}
+                        onChange={(packing: LodSettings['packing']) => setLod({ packing })}
+                      />
+                    )}
+                  </div>
+                )}
+                <CompressionToggle label="Apply Transforms" active={exportSettings.applyTransforms} onToggle={() => setExportSettings(s => ({ ...s, applyTransforms: !s.applyTransforms }))} />
+                {!exportSettings.applyTransforms && (
+                  <p className="text-[10px] text-slate-500 leading-relaxed">The model is exported as loaded, centered on its bounds.</p>
+                )}
+                {isGLTFExport && animationClips.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                      <span>Animations</span>
+                      <span className="text-blue-400">{exportSettings.animations?.length ?? animationClips.length}/{animationClips.length}</span>
+                    </div>
+                    {animationClips.map((clip, index) => {
+                      const selected = !exportSettings.animations || exportSettings.animations.includes(index);
+                      return (
+                        <button
+                          key={index}
+                          onClick={() => toggleExportAnimation(index)}
+                          className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl text-[11px] transition-all ${selected ? 'bg-blue-600/10 text-white' : 'bg-slate-800/30 text-slate-500'}`}
+                        >
+                          <i className={selected ? 'fas fa-square-check text-blue-400' : 'far fa-square'}></i>
+                          <span className="flex-1 min-w-0 truncate text-left font-bold">{clip.name}</span>
+                          <span className="font-mono text-slate-500">{clip.duration.toFixed(2)}s</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+                {hasSectionPlanes && (
+                  <CompressionToggle label="Clip to Section Planes" active={exportSettings.clipToSections} onToggle={() => setExportSettings(s => ({ ...s, clipToSections: !s.clipToSections }))} />
+                )}
               </div>
               <div className="p-8 bg-slate-950/50 grid grid-cols-2 gap-4">
                 <button onClick={() => setIsExportModalOpen(false)} className="py-4 bg-slate-800 rounded-2xl font-bold text-sm">Cancel</button>
-                <button onClick={handleExport} className="py-4 bg-blue-600 text-white rounded-2xl font-bold text-sm">Confirm</button>
+                <button onClick={handleExport} disabled={!canExportFormat} className="py-4 bg-blue-600 disabled:opacity-40 text-white rounded-2xl font-bold text-sm">Confirm</button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Export Report Modal */}
+        {exportReport && (
+          <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 animate-in fade-in duration-300">
+            <div className="absolute inset-0 bg-slate-950/80 backdrop-blur-md" onClick={() => setExportReport(null)} />
+            <div className="relative w-full max-w-lg bg-slate-900 border border-slate-800 rounded-[32px] overflow-hidden shadow-2xl">
+              <div className="p-8 border-b border-slate-800">
+                <h2 className="text-2xl font-black text-white uppercase tracking-tighter">Export Report</h2>
+                {exportReport.files.map((file, idx) => (
+                  <p key={idx} className="text-slate-500 text-xs truncate">{file.name} · <span className="text-blue-400 font-bold">{formatBytes(file.size)}</span></p>
+                ))}
+              </div>
+              <div className="p-8 space-y-3 max-h-[50vh] overflow-y-auto">
+                {exportReport.textures.length === 0 && (
+                  <p className="text-slate-500 text-xs">No textures were re-encoded.</p>
+                )}
+                {exportReport.textures.map((tex, idx) => (
+                  <div key={idx} className="p-4 bg-slate-950/50 rounded-2xl border border-slate-800 space-y-1">
+                    <div className="flex justify-between items-center text-[11px]">
+                      <span className="text-white font-bold truncate max-w-[220px]">{tex.name}</span>
+                      <span className="text-blue-400 font-mono font-bold">{tex.codec}</span>
+                    </div>
+                    <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                      <span>{tex.width}x{tex.height} · {tex.slots.join(', ') || 'unused'}</span>
+                      <span className="font-mono">{formatBytes(tex.originalSize)} → {formatBytes(tex.compressedSize)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="p-8 bg-slate-950/50 flex justify-end">
+                <button onClick={() => setExportReport(null)} className="px-8 py-3 bg-slate-800 hover:bg-slate-700 rounded-xl font-bold text-sm transition-all">Close</button>
               </div>
             </div>
           </div>
@@ -416,6 +2367,249 @@ const App: React.FC = () => {
   );
 };
 
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+const formatLength = (value: number) => value >= 100 ? value.toFixed(0) : value.toFixed(2);
+
+const formatDeviation = (value: number) => Number(value.toPrecision(3)).toString();
+
+const formatComplexity = (metadata: ModelMetadata) =>
+  metadata.triangles > 0 ? `${metadata.triangles.toLocaleString()} tris` : `${metadata.vertices.toLocaleString()} pts`;
+
+const formatDiffValue = (row: MetadataDiffRow, value: string | number) => {
+  if (typeof value === 'string') return value;
+  if (row.kind === 'bytes') return formatBytes(value);
+  if (row.kind === 'length') return formatLength(value);
+  return value.toLocaleString();
+};
+
+/**
+ * The line between the two sides of a comparison, with the model names on
+ * either side. When draggable, its handle moves the swipe divider.
+ */
+const CompareDivider = ({ position, draggable, leftLabel, rightLabel, onChange }: any) => {
+  const startDrag = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.parentElement!.parentElement!.getBoundingClientRect();
+    const move = (e: PointerEvent) => onChange(Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)));
+    const stop = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', stop);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', stop);
+  };
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-10">
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white/70 -translate-x-1/2" style={{ left: `${position * 100}%` }}>
+        {draggable && (
+          <div
+            onPointerDown={startDrag}
+            className="pointer-events-auto absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white text-slate-900 flex items-center justify-center shadow-xl cursor-ew-resize"
+          >
+            <i className="fas fa-arrows-alt-h text-xs"></i>
+          </div>
+        )}
+      </div>
+      <span className="absolute bottom-6 px-3 py-1 rounded-lg bg-slate-900/80 text-[10px] text-white font-bold truncate max-w-[30%]" style={{ right: `${(1 - position) * 100 + 1}%` }}>{leftLabel}</span>
+      <span className="absolute bottom-6 px-3 py-1 rounded-lg bg-slate-900/80 text-[10px] text-white font-bold truncate max-w-[30%]" style={{ left: `${position * 100 + 1}%` }}>{rightLabel}</span>
+    </div>
+  );
+};
+
+const ANIMATION_SPEEDS = [0.25, 0.5, 1, 1.5, 2];
+
+const LOOP_OPTIONS: { value: AnimationLoop; label: string }[] = [
+  { value: 'repeat', label: 'Loop' },
+  { value: 'once', label: 'Once' },
+  { value: 'pingpong', label: 'Ping-Pong' }
+];
+
+// Ruler spacings in seconds; the first that gives at most ten ticks is used
+const RULER_STEPS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+
+const TIMELINE_BUTTON = 'h-8 px-2.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-300 text-[10px] font-bold uppercase tracking-widest flex items-center justify-center gap-2 transition-all';
+
+/**
+ * The bar under the viewport for the main model's clips: playback and clip
+ * controls, a ruler to scrub the active clip on and a lane of keys per
+ * track. The playhead is moved every frame from `getTime` rather than
+ * through state, so playing back does not render the app.
+ */
+const AnimationTimeline = ({ clips, activeIndex, playing, settings, getTime, onSeek, onTogglePlay, onSelect, onChange, onRename, onTrim, onDelete }: any) => {
+  const index = Math.min(activeIndex, clips.length - 1);
+  const clip: AnimationClipInfo = clips[index];
+  const duration = Math.max(clip.duration, 1e-3);
+  const frameRate = useMemo(() => clipFrameRate(clip), [clip]);
+  const [name, setName] = useState(clip.name);
+  const [trimRange, setTrimRange] = useState<[number, number] | null>(null);
+  const [showTracks, setShowTracks] = useState(true);
+  const playhead = useRef<HTMLDivElement>(null);
+  const clock = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => setName(clip.name), [clip.name]);
+  useEffect(() => setTrimRange(null), [index, clip.duration]);
+
+  useEffect(() => {
+    let frame = 0;
+    const tick = () => {
+      const time = getTime();
+      if (playhead.current) playhead.current.style.left = `${Math.min(1, time / duration) * 100}%`;
+      if (clock.current) clock.current.textContent = `${time.toFixed(2)}s · ${Math.round(time * frameRate)}f`;
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [getTime, duration, frameRate]);
+
+  const keyPaths = useMemo(() => clip.tracks.map(track => Array.from(track.times, t => `M${t} 0.2V0.8`).join('')), [clip]);
+  const rulerStep = RULER_STEPS.find(step => duration / step <= 10) ?? 1200;
+  const rulerTicks = Array.from({ length: Math.floor(duration / rulerStep + 1e-6) + 1 }, (_, i) => i * rulerStep);
+
+  const timeAt = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)) * clip.duration;
+  };
+  const startScrub = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    onSeek(timeAt(event));
+  };
+  const scrub = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) onSeek(timeAt(event));
+  };
+  const step = (frames: number) => onSeek(getTime() + frames / frameRate);
+
+  const commitName = () => {
+    const next = name.trim();
+    if (next && next !== clip.name) onRename(index, next);
+    else setName(clip.name);
+  };
+
+  const setIn = () => {
+    const time = getTime();
+    setTrimRange(range => [time, Math.max(time, range?.[1] ?? clip.duration)]);
+  };
+  const setOut = () => {
+    const time = getTime();
+    setTrimRange(range => [Math.min(time, range?.[0] ?? 0), time]);
+  };
+  const canTrim = !!trimRange && trimRange[1] - trimRange[0] >= 1 / frameRate && (trimRange[0] > 0 || trimRange[1] < clip.duration);
+
+  return (
+    <div className="shrink-0 bg-slate-900 border-t border-slate-800 px-4 py-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => step(-1)} title="Previous frame" className={TIMELINE_BUTTON}><i className="fas fa-backward-step"></i></button>
+        <button onClick={onTogglePlay} title={playing ? 'Pause' : 'Play'} className={`${TIMELINE_BUTTON} w-10 ${playing ? '!bg-blue-600 !text-white' : ''}`}>
+          <i className={`fas ${playing ? 'fa-pause' : 'fa-play'}`}></i>
+        </button>
+        <button onClick={() => step(1)} title="Next frame" className={TIMELINE_BUTTON}><i className="fas fa-forward-step"></i></button>
+        <span className="w-36 text-[11px] font-mono text-slate-300">
+          <span ref={clock}></span>
+          <span className="text-slate-500"> / {clip.duration.toFixed(2)}s</span>
+        </span>
+
+        <select
+          value={index}
+          onChange={(e) => onSelect(parseInt(e.target.value))}
+          title="Active clip"
+          className="w-40 bg-slate-800 border border-slate-700 text-white text-[11px] rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+        >
+          {clips.map((c: AnimationClipInfo, i: number) => <option key={i} value={i}>{c.name}</option>)}
+        </select>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          title="Rename clip"
+          className="w-32 bg-slate-800 border border-slate-700 text-white text-[11px] rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+        />
+
+        <select
+          value={settings.speed}
+          onChange={(e) => onChange({ speed: parseFloat(e.target.value) })}
+          title="Playback speed"
+          className="bg-slate-800 border border-slate-700 text-white text-[11px] font-mono rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+        >
+          {ANIMATION_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}×</option>)}
+        </select>
+        <div className="w-52">
+          <SegmentedControl value={settings.loop} options={LOOP_OPTIONS} onChange={(loop: AnimationLoop) => onChange({ loop })} />
+        </div>
+        <label className="flex items-center gap-2 text-[10px] text-slate-500 font-bold uppercase tracking-widest" title="Seconds spent blending into the next clip chosen">
+          Blend
+          <input
+            type="number" min="0" step="0.1"
+            value={settings.crossFade}
+            onChange={(e) => {
+              const crossFade = parseFloat(e.target.value);
+              if (Number.isFinite(crossFade) && crossFade >= 0) onChange({ crossFade });
+            }}
+            className="w-16 bg-slate-800 border border-slate-700 text-white text-[11px] font-mono rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+          />
+        </label>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <button onClick={setIn} title="Trim start at the playhead" className={TIMELINE_BUTTON}>In</button>
+          <button onClick={setOut} title="Trim end at the playhead" className={TIMELINE_BUTTON}>Out</button>
+          <button onClick={() => trimRange && onTrim(index, trimRange[0], trimRange[1])} disabled={!canTrim} className={TIMELINE_BUTTON}>
+            <i className="fas fa-scissors"></i> Trim
+          </button>
+          {trimRange && (
+            <button onClick={() => setTrimRange(null)} title="Clear in and out points" className={TIMELINE_BUTTON}><i className="fas fa-xmark"></i></button>
+          )}
+          <button onClick={() => onDelete(index)} title="Delete clip" className={`${TIMELINE_BUTTON} hover:!bg-red-900/30 hover:!text-red-400`}>
+            <i className="fas fa-trash"></i>
+          </button>
+          <button onClick={() => setShowTracks(!showTracks)} title="Keyframe tracks" className={`${TIMELINE_BUTTON} ${showTracks ? '!text-blue-400' : ''}`}>
+            <i className="fas fa-bars-staggered"></i> {clip.tracks.length}
+          </button>
+        </div>
+      </div>
+
+      <div className={`flex overflow-y-auto no-scrollbar rounded-lg bg-slate-950/60 ${showTracks ? 'max-h-44' : ''}`}>
+        <div className="w-44 shrink-0 border-r border-slate-800">
+          <div className="sticky top-0 z-10 h-6 bg-slate-950 border-b border-slate-800" />
+          {showTracks && clip.tracks.map((track, i) => {
+            const dot = track.name.lastIndexOf('.');
+            return (
+              <div key={i} title={track.name} className="h-5 px-2 flex items-center text-[10px] font-mono truncate">
+                <span className="text-slate-300 truncate">{track.name.slice(0, dot)}</span>
+                <span className="text-slate-500">{track.name.slice(dot)}</span>
+              </div>
+            );
+          })}
+        </div>
+        <div className="relative flex-1 min-w-0 cursor-ew-resize select-none" onPointerDown={startScrub} onPointerMove={scrub}>
+          <div className="sticky top-0 z-10 h-6 bg-slate-950 border-b border-slate-800 overflow-hidden">
+            {rulerTicks.map(time => (
+              <span key={time} className="absolute top-0 bottom-0 border-l border-slate-700 pl-1 text-[9px] font-mono text-slate-500 leading-6" style={{ left: `${(time / duration) * 100}%` }}>
+                {Number(time.toFixed(2))}s
+              </span>
+            ))}
+          </div>
+          {showTracks && keyPaths.map((path, i) => (
+            <svg key={i} viewBox={`0 0 ${duration} 1`} preserveAspectRatio="none" className="block w-full h-5">
+              <path d={path} stroke="#38bdf8" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            </svg>
+          ))}
+          {trimRange && (
+            <>
+              <div className="absolute top-0 bottom-0 left-0 z-10 bg-slate-950/70 border-r-2 border-amber-500 pointer-events-none" style={{ width: `${(trimRange[0] / duration) * 100}%` }} />
+              <div className="absolute top-0 bottom-0 right-0 z-10 bg-slate-950/70 border-l-2 border-amber-500 pointer-events-none" style={{ width: `${(1 - trimRange[1] / duration) * 100}%` }} />
+            </>
+          )}
+          <div ref={playhead} className="absolute top-0 bottom-0 z-20 w-0.5 -translate-x-1/2 bg-blue-500 pointer-events-none" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const Toggle = ({ label, active, onToggle, icon }: any) => (
   <button 
     onClick={onToggle}
@@ -442,4 +2636,179 @@ const CompressionToggle = ({ label, active, onToggle }: any) => (
   </button>
 );
 
+const SegmentedControl = ({ value, options, onChange }: any) => (
+  <div className="grid grid-flow-col auto-cols-fr gap-1 p-1 bg-slate-800/50 rounded-xl">
+    {options.map((option: { value: string; label: string }) => (
+      <button
+        key={option.value}
+        onClick={() => onChange(option.value)}
+        className={`py-2 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${value === option.value ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const NODE_ICONS: Record<string, string> = {
+  Mesh: 'cube',
+  SkinnedMesh: 'person-walking',
+  InstancedMesh: 'cubes',
+  Points: 'braille',
+  Line: 'bezier-curve',
+  Bone: 'bone',
+  Camera: 'video',
+  Light: 'lightbulb',
+  Group: 'folder',
+  Object3D: 'circle-dot'
+};
+
+const OutlinerRow = ({ node, depth, selectedId, hiddenIds, isolatedId, expandedIds, onSelect, onToggleExpanded, onToggleHidden, onToggleIsolated, onFrame }: any) => {
+  const sceneNode = node as SceneNode;
+  const isExpanded = expandedIds.includes(sceneNode.id);
+  const isSelected = selectedId === sceneNode.id;
+  const isHidden = hiddenIds.includes(sceneNode.id);
+  const isIsolated = isolatedId === sceneNode.id;
+
+  return (
+    <>
+      <div
+        onClick={() => onSelect(isSelected ? null : sceneNode.id)}
+        onDoubleClick={() => onFrame(sceneNode.id)}
+        style={{ paddingLeft: `${depth * 12 + 8}px` }}
+        className={`group flex items-center gap-2 pr-2 py-1.5 rounded-lg cursor-pointer text-[10px] ${isSelected ? 'bg-blue-600/20 text-white' : 'text-slate-400 hover:bg-slate-800/60'}`}
+      >
+        <button
+          onClick={(e) => { e.stopPropagation(); onToggleExpanded(sceneNode.id); }}
+          className={`w-3 text-[8px] text-slate-500 ${sceneNode.children.length === 0 ? 'invisible' : ''}`}
+        >
+          <i className={`fas fa-chevron-${isExpanded ? 'down' : 'right'}`}></i>
+        </button>
+        <i className={`fas fa-${NODE_ICONS[sceneNode.type] ?? 'circle-dot'} w-3 text-[9px] ${isSelected ? 'text-blue-400' : 'text-slate-600'}`}></i>
+        <span className={`flex-1 truncate font-bold ${isHidden ? 'opacity-40 line-through' : ''}`} title={`${sceneNode.name} (${sceneNode.type})`}>{sceneNode.name}</span>
+        {isSelected && (
+          <button onClick={(e) => { e.stopPropagation(); onFrame(sceneNode.id); }} title="Frame selection" className="text-slate-500 hover:text-white">
+            <i className="fas fa-crosshairs text-[9px]"></i>
+          </button>
+        )}
+        <button
+          onClick={(e) => { e.stopPropagation(); onToggleIsolated(sceneNode.id); }}
+          title={isIsolated ? 'Exit isolate' : 'Isolate'}
+          className={`${isIsolated ? 'text-amber-400' : 'text-slate-600 opacity-0 group-hover:opacity-100 hover:text-white'}`}
+        >
+          <i className="fas fa-bullseye text-[9px]"></i>
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onToggleHidden(sceneNode.id); }}
+          title={isHidden ? 'Show' : 'Hide'}
+          className={`${isHidden ? 'text-slate-600' : 'text-slate-500 hover:text-white'}`}
+        >
+          <i className={`fas fa-eye${isHidden ? '-slash' : ''} text-[9px]`}></i>
+        </button>
+      </div>
+      {isExpanded && sceneNode.children.map(child => (
+        <OutlinerRow
+          key={child.id}
+          node={child}
+          depth={depth + 1}
+          selectedId={selectedId}
+          hiddenIds={hiddenIds}
+          isolatedId={isolatedId}
+          expandedIds={expandedIds}
+          onSelect={onSelect}
+          onToggleExpanded={onToggleExpanded}
+          onToggleHidden={onToggleHidden}
+          onToggleIsolated={onToggleIsolated}
+          onFrame={onFrame}
+        />
+      ))}
+    </>
+  );
+};
+
+const RangeSlider = ({ label, min, max, step, value, onChange }: any) => (
+  <div className="space-y-2">
+    <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+      <span>{label}</span>
+      <span className="text-blue-400">{value.toFixed(2)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+    />
+  </div>
+);
+
+const CropRange = ({ label, min, max, onChange }: any) => (
+  <div className="space-y-1">
+    <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+      <span>{label}</span>
+      <span className="text-blue-400">{Math.round(min * 100)}% – {Math.round(max * 100)}%</span>
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      <input
+        type="range" min="0" max="1" step="0.01"
+        value={min}
+        onChange={(e) => onChange('min', parseFloat(e.target.value))}
+        className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+      />
+      <input
+        type="range" min="0" max="1" step="0.01"
+        value={max}
+        onChange={(e) => onChange('max', parseFloat(e.target.value))}
+        className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+      />
+    </div>
+  </div>
+);
+
+const ColorField = ({ label, value, onChange }: any) => (
+  <label className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest cursor-pointer">
+    <span>{label}</span>
+    <span className="flex items-center gap-2">
+      <span className="text-slate-400 font-mono normal-case">{value}</span>
+      <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer" />
+    </span>
+  </label>
+);
+
+/** Three number inputs for the x, y and z of a vector. */
+const VectorField = ({ label, value, step, onChange }: any) => (
+  <div className="space-y-1">
+    <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">{label}</span>
+    <div className="grid grid-cols-3 gap-1">
+      {value.map((component: number, axis: number) => (
+        <input
+          key={axis}
+          type="number" step={step}
+          value={Number(component.toFixed(4))}
+          onChange={(e) => {
+            const next = parseFloat(e.target.value);
+            if (Number.isFinite(next)) onChange(value.map((c: number, i: number) => i === axis ? next : c));
+          }}
+          title={'XYZ'[axis]}
+          className="w-full min-w-0 bg-slate-800 border border-slate-700 text-white text-[11px] font-mono rounded-lg p-2 focus:ring-1 focus:ring-blue-500 outline-none"
+        />
+      ))}
+    </div>
+  </div>
+);
+
+const BitsSlider = ({ label, min, max, value, onChange }: any) => (
+  <div className="space-y-2">
+    <div className="flex justify-between items-center text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+      <span>{label}</span>
+      <span className="text-blue-400">{value}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step="1"
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-blue-500"
+    />
+  </div>
+);
+
 export default App;
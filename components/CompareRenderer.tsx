@@ -0,0 +1,60 @@
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CompareSettings } from '../types';
+
+interface CompareRendererProps {
+  settings: CompareSettings;
+  /** Every model in the scene by id, read each frame since models come and go. */
+  getModels: () => Record<string, THREE.Object3D>;
+}
+
+/**
+ * Takes over rendering while mounted and draws the scene once per side, each
+ * time with only that side's model shown, through the one shared camera.
+ * Split gives each side its own half of the viewport; swipe draws both at
+ * full size and cuts them at the divider.
+ */
+const CompareRenderer: React.FC<CompareRendererProps> = ({ settings, getModels }) => {
+  useFrame(({ gl, scene, camera, size }) => {
+    const models = getModels();
+    const roots = Object.values(models);
+    const visibility = roots.map(root => root.visible);
+    const perspective = camera as THREE.PerspectiveCamera;
+    const aspect = perspective.aspect;
+    const { width, height } = size;
+    const cut = Math.round(width * (settings.mode === 'split' ? 0.5 : settings.divider));
+
+    gl.setScissorTest(true);
+    [settings.left, settings.right].forEach((id, side) => {
+      const shown = models[id];
+      roots.forEach((root, i) => { root.visible = root === shown && visibility[i]; });
+      const x = side === 0 ? 0 : cut;
+      const sideWidth = side === 0 ? cut : width - cut;
+      if (sideWidth <= 0) return;
+      gl.setScissor(x, 0, sideWidth, height);
+      if (settings.mode === 'split') {
+        gl.setViewport(x, 0, sideWidth, height);
+        if (perspective.isPerspectiveCamera) {
+          perspective.aspect = sideWidth / height;
+          perspective.updateProjectionMatrix();
+        }
+      } else {
+        gl.setViewport(0, 0, width, height);
+      }
+      gl.render(scene, camera);
+    });
+
+    roots.forEach((root, i) => { root.visible = visibility[i]; });
+    if (perspective.isPerspectiveCamera && perspective.aspect !== aspect) {
+      perspective.aspect = aspect;
+      perspective.updateProjectionMatrix();
+    }
+    gl.setScissorTest(false);
+    gl.setViewport(0, 0, width, height);
+  }, 1);
+
+  return null;
+};
+
+export default CompareRenderer;
@@ -0,0 +1,90 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { Measurement, MeasurementKind, MeasurementUnit } from '../types';
+import { formatMeasurement } from '../utils/measurements';
+
+interface MeasurementOverlayProps {
+  model: THREE.Object3D;
+  measurements: Measurement[];
+  pendingKind: MeasurementKind | null;
+  pendingPoints: [number, number, number][];
+  unit: MeasurementUnit;
+}
+
+const MEASURE_COLOR = '#f59e0b';
+const PENDING_COLOR = '#38bdf8';
+
+const Markers = ({ points, color }: { points: [number, number, number][]; color: string }) => {
+  const geometry = useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(points.flat(), 3));
+    return geometry;
+  }, [points]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <points geometry={geometry} renderOrder={1000} raycast={() => {}}>
+      <pointsMaterial color={color} size={8} sizeAttenuation={false} depthTest={false} transparent />
+    </points>
+  );
+};
+
+const Label = ({ position, text }: { position: THREE.Vector3Tuple; text: string }) => (
+  <Html position={position} center zIndexRange={[20, 0]} style={{ pointerEvents: 'none' }}>
+    <div className="px-2 py-1 bg-slate-950/90 border border-amber-500/60 rounded-md text-[10px] font-mono font-bold text-amber-300 whitespace-nowrap">
+      {text}
+    </div>
+  </Html>
+);
+
+const labelPosition = (measurement: Measurement): THREE.Vector3Tuple => {
+  const points = measurement.points;
+  if (measurement.kind === 'angle') return points[1];
+  const center = new THREE.Vector3();
+  const visited = measurement.kind === 'distance' ? points.slice(0, 2) : points;
+  visited.forEach(p => center.add(new THREE.Vector3(...p)));
+  return center.divideScalar(visited.length).toArray() as THREE.Vector3Tuple;
+};
+
+/**
+ * Draws measurements as always-on-top lines, markers and labels. Points are
+ * stored in model coordinates, so the overlay follows the model's transform.
+ */
+const MeasurementOverlay: React.FC<MeasurementOverlayProps> = ({ model, measurements, pendingKind, pendingPoints, unit }) => {
+  const group = useRef<THREE.Group>(null);
+
+  useFrame(() => {
+    if (!group.current) return;
+    group.current.matrix.copy(model.matrixWorld);
+    group.current.matrixWorldNeedsUpdate = true;
+  });
+
+  return (
+    <group ref={group} matrixAutoUpdate={false}>
+      {measurements.map(measurement => {
+        const points = measurement.kind === 'area' ? [...measurement.points, measurement.points[0]] : measurement.points;
+        return (
+          <group key={measurement.id}>
+            <Line points={points} color={MEASURE_COLOR} lineWidth={2} depthTest={false} renderOrder={999} raycast={() => null} />
+            <Markers points={measurement.points} color={MEASURE_COLOR} />
+            <Label position={labelPosition(measurement)} text={formatMeasurement(measurement, unit)} />
+          </group>
+        );
+      })}
+
+      {pendingKind && pendingPoints.length > 0 && (
+        <group>
+          {pendingPoints.length > 1 && (
+            <Line points={pendingPoints} color={PENDING_COLOR} lineWidth={2} depthTest={false} renderOrder={999} raycast={() => null} />
+          )}
+          <Markers points={pendingPoints} color={PENDING_COLOR} />
+        </group>
+      )}
+    </group>
+  );
+};
+
+export default MeasurementOverlay;
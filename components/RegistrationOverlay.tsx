@@ -0,0 +1,67 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html } from '@react-three/drei';
+import * as THREE from 'three';
+import { RegistrationPair, RegistrationSide } from '../types';
+
+interface RegistrationOverlayProps {
+  /** The main model, which the source points are picked on. */
+  source: THREE.Object3D;
+  /** The reference model, or null when none is chosen. */
+  target: THREE.Object3D | null;
+  pairs: RegistrationPair[];
+}
+
+const SIDE_COLORS: Record<RegistrationSide, string> = { source: '#38bdf8', target: '#f59e0b' };
+
+/** Numbered markers of one side's picks, following the object they were picked on. */
+const PairMarkers = ({ object, pairs, side }: { object: THREE.Object3D; pairs: RegistrationPair[]; side: RegistrationSide }) => {
+  const group = useRef<THREE.Group>(null);
+  const picked = pairs.map((pair, i) => ({ number: i + 1, point: pair[side] })).filter(p => p.point !== null);
+
+  const geometry = useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(picked.flatMap(p => p.point!), 3));
+    return geometry;
+  }, [pairs, side]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame(() => {
+    if (!group.current) return;
+    group.current.matrix.copy(object.matrixWorld);
+    group.current.matrixWorldNeedsUpdate = true;
+  });
+
+  return (
+    <group ref={group} matrixAutoUpdate={false}>
+      <points geometry={geometry} renderOrder={1000} raycast={() => {}}>
+        <pointsMaterial color={SIDE_COLORS[side]} size={9} sizeAttenuation={false} depthTest={false} transparent />
+      </points>
+      {picked.map(({ number, point }) => (
+        <Html key={number} position={point!} zIndexRange={[20, 0]} style={{ pointerEvents: 'none' }}>
+          <div
+            className="ml-2 -mt-5 px-1.5 rounded bg-slate-950/90 border text-[10px] font-mono font-bold"
+            style={{ borderColor: SIDE_COLORS[side], color: SIDE_COLORS[side] }}
+          >
+            {number}
+          </div>
+        </Html>
+      ))}
+    </group>
+  );
+};
+
+/**
+ * Draws the point pairs picked for registration: numbered markers on the
+ * moving model and matching ones on the reference. Points are stored in
+ * each model's local space, so the markers stay put as the models move.
+ */
+const RegistrationOverlay: React.FC<RegistrationOverlayProps> = ({ source, target, pairs }) => (
+  <>
+    <PairMarkers object={source} pairs={pairs} side="source" />
+    {target && <PairMarkers object={target} pairs={pairs} side="target" />}
+  </>
+);
+
+export default RegistrationOverlay;
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { TransformControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { ModelMetadata, ModelTransform, SceneSettings, TransformMode } from '../types';
+import { loadModel } from '../utils/modelLoader';
+import { collectModelStats, TEXTURE_SLOTS } from '../utils/modelStats';
+import { applyPointCloudStyle } from '../utils/pointColoring';
+import { getPointOctree } from '../utils/pointOctree';
+import { applyModelTransform, readModelTransform, SceneModel } from '../utils/sceneModels';
+
+interface SceneModelViewProps {
+  model: SceneModel;
+  settings: SceneSettings;
+  /** Shows a transform gizmo in this mode, or none when null. */
+  gizmoMode: TransformMode | null;
+  /** Hands over the group holding the model, or null once it is gone. */
+  onReady: (id: string, group: THREE.Group | null) => void;
+  onMetadata?: (id: string, metadata: ModelMetadata) => void;
+  onTransform?: (id: string, transform: ModelTransform) => void;
+  onError?: (id: string, error: Error) => void;
+}
+
+// Unlike the main model, a scene model owns everything it loaded, so it is freed on removal
+const disposeObject = (object: THREE.Object3D) => {
+  const octree = getPointOctree(object);
+  if (octree) {
+    octree.dispose();
+    return;
+  }
+  object.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.geometry) return;
+    mesh.geometry.dispose();
+    (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).forEach(material => {
+      TEXTURE_SLOTS.forEach(slot => ((material as any)?.[slot] as THREE.Texture | undefined)?.dispose?.());
+      material?.dispose();
+    });
+  });
+};
+
+/**
+ * A model shown next to the main one. It is loaded like the main model, takes
+ * the same display settings and plays its first animation, but is placed by
+ * its own transform and is otherwise left as loaded.
+ */
+const SceneModelView: React.FC<SceneModelViewProps> = ({ model, settings, gizmoMode, onReady, onMetadata, onTransform, onError }) => {
+  const { gl } = useThree();
+  const [group, setGroup] = useState<THREE.Group | null>(null);
+  const [object, setObject] = useState<THREE.Object3D | null>(null);
+  const mixer = useRef<THREE.AnimationMixer | null>(null);
+  const { id, source } = model;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let loaded: THREE.Object3D | null = null;
+    loadModel(source, { renderer: gl, pointSize: settings.pointSize, signal: controller.signal })
+      .then(({ object, animations }) => {
+        loaded = object;
+        if (animations.length > 0) {
+          mixer.current = new THREE.AnimationMixer(object);
+          mixer.current.clipAction(animations[0]).play();
+        }
+        setObject(object);
+        onMetadata?.(id, {
+          name: source.name,
+          size: source.size,
+          format: source.extension.toUpperCase(),
+          ...collectModelStats(object),
+          animations: animations.map((clip, index) => clip.name || `Animation ${index + 1}`)
+        });
+      }, error => {
+        if (!controller.signal.aborted) onError?.(id, error);
+      });
+
+    return () => {
+      controller.abort();
+      mixer.current?.stopAllAction();
+      mixer.current = null;
+      if (loaded) disposeObject(loaded);
+      setObject(null);
+    };
+  }, [source, gl]);
+
+  useEffect(() => {
+    if (!group) return;
+    onReady(id, group);
+    return () => onReady(id, null);
+  }, [group]);
+
+  useEffect(() => {
+    if (group) applyModelTransform(group, model.transform);
+  }, [group, model.transform]);
+
+  useEffect(() => {
+    if (!object) return;
+    const octree = getPointOctree(object);
+    const bounds = octree ? octree.bounds.clone().applyMatrix4(object.matrixWorld) : new THREE.Box3().setFromObject(object);
+    object.traverse(child => {
+      const material = (child as THREE.Mesh).material;
+      if ((child as THREE.Mesh).isMesh && material) {
+        (Array.isArray(material) ? material : [material]).forEach((mat: any) => { mat.wireframe = settings.wireframe; });
+      }
+      if ((child as THREE.Points).isPoints) applyPointCloudStyle(child as THREE.Points, settings.pointCloud, settings.pointSize, bounds);
+    });
+  }, [object, settings.wireframe, settings.pointSize, settings.pointCloud]);
+
+  useFrame((state, delta) => {
+    if (settings.playAnimation) mixer.current?.update(delta);
+    getPointOctree(object)?.update(state.camera, state.size.height, settings.pointBudget);
+  });
+
+  return (
+    <>
+      <group ref={setGroup} visible={model.visible}>
+        {object && <primitive object={object} />}
+      </group>
+      {group && gizmoMode && model.visible && (
+        <TransformControls
+          object={group}
+          mode={gizmoMode}
+          onObjectChange={() => onTransform?.(id, readModelTransform(group))}
+        />
+      )}
+    </>
+  );
+};
+
+export default SceneModelView;
@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import { TransformControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { ClipPlane } from '../types';
+import { clipPlaneNormal, projectedRange } from '../utils/clipping';
+
+interface SectionPlaneGizmosProps {
+  planes: ClipPlane[];
+  bounds: THREE.Box3;
+  onChange: (index: number, patch: Partial<ClipPlane>) => void;
+}
+
+const PLANE_COLORS = ['#ef4444', '#22c55e', '#3b82f6'];
+const FORWARD = new THREE.Vector3(0, 0, 1);
+
+/**
+ * Draws each enabled section plane as a translucent quad with a gizmo: axis
+ * planes slide along their axis, free planes rotate about the cut point.
+ */
+const SectionPlaneGizmos: React.FC<SectionPlaneGizmosProps> = ({ planes, bounds, onChange }) => {
+  const center = useMemo(() => bounds.getCenter(new THREE.Vector3()), [bounds]);
+  const size = useMemo(() => bounds.getSize(new THREE.Vector3()).length() || 1, [bounds]);
+
+  return (
+    <>
+      {planes.map((plane, index) => {
+        if (!plane.enabled) return null;
+        const normal = clipPlaneNormal(plane);
+        const { min, max } = projectedRange(bounds, normal);
+        const cut = THREE.MathUtils.lerp(min, max, plane.position);
+        // The point of the plane closest to the model's center
+        const position = center.clone().addScaledVector(normal, cut - center.dot(normal));
+        const quaternion = new THREE.Quaternion().setFromUnitVectors(FORWARD, normal);
+        const isFree = plane.axis === 'free';
+
+        const handleObjectChange = (event?: THREE.Event) => {
+          const object = (event?.target as any)?.object as THREE.Object3D | undefined;
+          if (!object) return;
+          if (isFree) {
+            const nextNormal = FORWARD.clone().applyQuaternion(object.quaternion).normalize();
+            onChange(index, { normal: nextNormal.toArray() as [number, number, number] });
+          } else {
+            const range = max - min || 1;
+            const offset = object.position.dot(normal);
+            onChange(index, { position: THREE.MathUtils.clamp((offset - min) / range, 0, 1) });
+          }
+        };
+
+        return (
+          <TransformControls
+            key={`${index}-${plane.axis}`}
+            mode={isFree ? 'rotate' : 'translate'}
+            showX={isFree || plane.axis === 'x'}
+            showY={isFree || plane.axis === 'y'}
+            showZ={isFree || plane.axis === 'z'}
+            size={0.7}
+            position={position}
+            quaternion={quaternion}
+            onObjectChange={handleObjectChange}
+          >
+            <mesh scale={size * 0.75} raycast={() => null}>
+              <planeGeometry />
+              <meshBasicMaterial color={PLANE_COLORS[index % PLANE_COLORS.length]} transparent opacity={0.12} side={THREE.DoubleSide} depthWrite={false} />
+            </mesh>
+          </TransformControls>
+        );
+      })}
+    </>
+  );
+};
+
+export default SectionPlaneGizmos;
@@ -1,49 +1,258 @@
 
-import React, { useEffect, useState, useRef, forwardRef, useImperativeHandle } from 'react';
-import { Canvas, useThree, useFrame } from '@react-three/fiber';
-import { OrbitControls, Environment, ContactShadows } from '@react-three/drei';
+import React, { useCallback, useEffect, useMemo, useState, useRef, forwardRef, useImperativeHandle } from 'react';
+import { Canvas, useThree, useFrame, ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, Environment, ContactShadows, TransformControls } from '@react-three/drei';
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
-import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
-import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
-import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
-import { PCDLoader } from 'three/examples/jsm/loaders/PCDLoader.js';
-import { XYZLoader } from 'three/examples/jsm/loaders/XYZLoader.js';
 import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
-import { MeshoptDecoder } from 'meshoptimizer';
-import { ExportConfig, SceneSettings } from '../types';
+import { AnimationClipInfo, ClipPlane, ClippingSettings, CompareSettings, DeviationSettings, ExportConfig, ExportedFile, ExportProgress, ExportReport, MaterialEdit, MaterialInfo, Measurement, MeasurementKind, MeasurementUnit, MeshFix, ModelMetadata, ModelStats, ModelTransform, PlacementFix, PointOctreeStats, PointProcessingSettings, ReconstructionSettings, RegistrationPair, RegistrationSettings, RegistrationSide, SceneNode, SceneSettings, SimplifySettings, TextureReport, TransformMode, ValidationIssue } from '../types';
+import { LOD_NODE_PREFIX } from '../utils/gltfCompression';
+import { countTriangles, simplifierReady, simplifyGeometry } from '../utils/simplify';
+import { createStageReporter, StageReporter } from '../utils/exportProgress';
+import { compressInWorker, deviationInWorker, processPointsInWorker, reconstructInWorker, registerInWorker } from '../utils/pipelineWorker';
+import { downloadFile } from '../utils/download';
+import { createMeasurement, MEASUREMENT_POINTS, pickMeasurePoint } from '../utils/measurements';
+import { LoadedModel, loadModel } from '../utils/modelLoader';
+import { collectModelStats } from '../utils/modelStats';
+import { exportSceneAs, GLTF_FORMATS } from '../utils/sceneExporters';
+import { applyMaterialEdit, collectMaterials, findMaterial, loadTextureFile, setMaterialTexture } from '../utils/materialEditor';
+import { applyNodeVisibility, buildSceneGraph, isInsideTree, isVisibleInTree } from '../utils/sceneGraph';
+import { createOutlineMaterial, createSelectionOutline } from '../utils/selectionOutline';
+import { clipObject, resolveClipPlane } from '../utils/clipping';
+import { createSectionCaps } from '../utils/sectionCaps';
+import { applyPointCloudStyle } from '../utils/pointColoring';
+import { hasPointProcessing, resolveCropBox, resolvePointProcessing } from '../utils/pointProcessing';
+import { getPointOctree } from '../utils/pointOctree';
+import { applyMeshFix, createIssueHighlight, validateModel } from '../utils/meshValidation';
+import { createModelTransform, fixModelPlacement, isIdentityTransform, MAIN_MODEL_ID, modelTransformMatrix, premultiplyModelTransform, readModelTransform, SceneModel } from '../utils/sceneModels';
+import { collectReferenceGeometry, collectSamples, createDeviationHeatmap, deviationRange, deviationStats } from '../utils/deviation';
+import { alignPointPairs, completePairs, samplePositions } from '../utils/registration';
+import { describeClips, LOOP_STYLES, trimClip } from '../utils/animationClips';
+import MeasurementOverlay from './MeasurementOverlay';
+import SectionPlaneGizmos from './SectionPlaneGizmos';
+import SceneModelView from './SceneModelView';
+import CompareRenderer from './CompareRenderer';
+import RegistrationOverlay from './RegistrationOverlay';
 
 interface ViewerProps {
   modelUrl: string | null;
+  /** The file behind `modelUrl`, for formats that are read piecewise (COPC). */
+  modelFile?: Blob | null;
   extension: string | null;
+  resources?: Record<string, string>;
   settings: SceneSettings;
-  onModelMetadata: (metadata: any) => void;
+  simplification: SimplifySettings;
+  onModelMetadata: (metadata: Partial<ModelMetadata>) => void;
+  onModelStats?: (stats: ModelStats) => void;
   onLoadingStatus?: (status: string) => void;
+  onExportReport?: (report: ExportReport) => void;
+  onBrowse?: () => void;
+  selectedNodeId?: string | null;
+  hiddenNodeIds?: string[];
+  isolatedNodeId?: string | null;
+  onSceneGraph?: (root: SceneNode) => void;
+  onSelectNode?: (id: string | null) => void;
+  onMaterials?: (materials: MaterialInfo[]) => void;
+  /** While set, clicks on the model pick measurement points instead of selecting. */
+  measureMode?: MeasurementKind | null;
+  measurements?: Measurement[];
+  measureUnit?: MeasurementUnit;
+  snapToVertices?: boolean;
+  onMeasurement?: (measurement: Measurement) => void;
+  onClippingChange?: (clipping: ClippingSettings) => void;
+  pointProcessing?: PointProcessingSettings;
+  /** Reports whether a point processing pass is running. */
+  onPointProcessing?: (busy: boolean) => void;
+  /** Streaming state of octree point clouds, or null for everything else. */
+  onPointOctree?: (stats: PointOctreeStats | null) => void;
+  /** Validation issue whose offending elements are marked in the viewport. */
+  validationHighlight?: ValidationIssue | null;
+  /** Models loaded next to the main one; the editing tools only ever touch the main model. */
+  sceneModels?: SceneModel[];
+  /** The model (scene model id or MAIN_MODEL_ID) carrying a transform gizmo, if any. */
+  transformTarget?: string | null;
+  transformMode?: TransformMode;
+  onSceneModelMetadata?: (id: string, metadata: ModelMetadata) => void;
+  onSceneModelTransform?: (id: string, transform: ModelTransform) => void;
+  onSceneModelError?: (id: string, error: Error) => void;
+  compare?: CompareSettings;
+  /** Heatmap settings for the last deviation analysis; null hides the heatmap. */
+  deviation?: DeviationSettings | null;
+  /** The heatmap was dropped because a scene model it was measured on or against was removed. */
+  onDeviationCleared?: () => void;
+  /** Placement of the main model on top of its own transforms; exports can carry it. */
+  modelTransform?: ModelTransform;
+  onModelTransform?: (transform: ModelTransform) => void;
+  /** While set, clicks pick registration points on that side instead of selecting. */
+  registrationPick?: RegistrationSide | null;
+  /** The scene model the main model is registered to. */
+  registrationReference?: string | null;
+  registrationPairs?: RegistrationPair[];
+  /** A picked registration point, in the local space of the model it was picked on. */
+  onRegistrationPoint?: (side: RegistrationSide, point: [number, number, number]) => void;
+  /** The main model's animation clips, reported on load and after every edit. */
+  onAnimations?: (clips: AnimationClipInfo[]) => void;
+}
+
+export interface ExportOptions {
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
 }
 
 export interface ViewerHandle {
-  exportModel: (config: ExportConfig) => Promise<void>;
+  exportModel: (config: ExportConfig, options?: ExportOptions) => Promise<void>;
   frameModel: () => void;
+  frameObject: (id: string) => void;
+  updateMaterial: (id: string, edit: MaterialEdit) => void;
+  /** Swaps the texture in `slot` for an image file, or clears it when `file` is null. */
+  setMaterialTexture: (id: string, slot: string, file: File | null) => Promise<void>;
+  /** Meshes every point cloud in the model and returns the number of triangles made. */
+  reconstructSurface: (settings: ReconstructionSettings, signal?: AbortSignal) => Promise<number>;
+  validateModel: () => ValidationIssue[];
+  /** Applies a repair to the meshes behind `nodeIds`; shared geometry is repaired once. */
+  repairModel: (fix: MeshFix, nodeIds: string[]) => void;
+  /**
+   * Measures each vertex or point of `targetId` against the surface of
+   * `referenceId` (model ids or outliner node ids), shows the heatmap and
+   * returns the signed distances.
+   */
+  analyzeDeviation: (targetId: string, referenceId: string, signal?: AbortSignal) => Promise<Float32Array>;
+  clearDeviation: () => void;
+  /** The main model's placement with a fix applied, or null without a model. */
+  fixPlacement: (fix: PlacementFix) => ModelTransform | null;
+  /** The main model's placement that brings the complete pairs together, with their remaining RMS distance. */
+  alignPairs: (referenceId: string, pairs: RegistrationPair[]) => { transform: ModelTransform; rms: number };
+  /** Refines the main model's placement onto the reference with ICP and returns it with the RMS of each iteration. */
+  refineRegistration: (
+    referenceId: string,
+    settings: RegistrationSettings,
+    signal?: AbortSignal,
+    onIteration?: (iteration: number, rms: number) => void
+  ) => Promise<{ transform: ModelTransform; rms: number[] }>;
+  /** Where the active clip is, in seconds. */
+  getAnimationTime: () => number;
+  /** Moves the active clip to `time` and poses the model there, playing or not. */
+  seekAnimation: (time: number) => void;
+  renameAnimation: (index: number, name: string) => void;
+  /** Keeps only the part of clip `index` between `start` and `end` seconds. */
+  trimAnimation: (index: number, start: number, end: number) => void;
+  deleteAnimation: (index: number) => void;
 }
 
+const IDENTITY_TRANSFORM = createModelTransform();
+
+const containsOctree = (root: THREE.Object3D) => {
+  let found = false;
+  root.traverse(child => { found ||= !!getPointOctree(child); });
+  return found;
+};
+
 const ModelManager = forwardRef<ViewerHandle, ViewerProps>(({ 
   modelUrl, 
+  modelFile = null,
   extension, 
+  resources = {},
   settings,
+  simplification,
   onModelMetadata,
-  onLoadingStatus 
+  onModelStats,
+  onLoadingStatus,
+  onExportReport,
+  selectedNodeId = null,
+  hiddenNodeIds,
+  isolatedNodeId = null,
+  onSceneGraph,
+  onSelectNode,
+  onMaterials,
+  measureMode = null,
+  measurements = [],
+  measureUnit = 'm',
+  snapToVertices = true,
+  onMeasurement,
+  onClippingChange,
+  pointProcessing,
+  onPointProcessing,
+  onPointOctree,
+  validationHighlight = null,
+  sceneModels = [],
+  transformTarget = null,
+  transformMode = 'translate',
+  onSceneModelMetadata,
+  onSceneModelTransform,
+  onSceneModelError,
+  compare,
+  deviation = null,
+  onDeviationCleared,
+  modelTransform = IDENTITY_TRANSFORM,
+  onModelTransform,
+  registrationPick = null,
+  registrationReference = null,
+  registrationPairs = [],
+  onRegistrationPoint,
+  onAnimations
 }, ref) => {
-  const { camera, controls, gl, scene } = useThree() as any;
+  const { camera, controls, gl, scene, raycaster } = useThree() as any;
   const [model, setModel] = useState<THREE.Object3D | null>(null);
   const mixer = useRef<THREE.AnimationMixer | null>(null);
   const clips = useRef<THREE.AnimationClip[]>([]);
   const activeAction = useRef<THREE.AnimationAction | null>(null);
+  // Times the active clip has wrapped around since it last started; ping-pong plays the odd passes backwards
+  const loopPasses = useRef(0);
   const skeletonHelper = useRef<THREE.SkeletonHelper | null>(null);
   const modelRef = useRef<THREE.Group>(null);
+  const originalGeometries = useRef(new WeakMap<THREE.Mesh, THREE.BufferGeometry>());
+  const isSimplified = useRef(false);
+  const originalPoints = useRef(new WeakMap<THREE.Points, THREE.BufferGeometry>());
+  const isPointsProcessed = useRef(false);
+  // The mesh last reconstructed from each cloud, replaced when it is reconstructed again
+  const surfaceMeshes = useRef(new WeakMap<THREE.Points, THREE.Mesh>());
+  const outlineMaterial = useRef<THREE.MeshBasicMaterial | null>(null);
+  const [outline, setOutline] = useState<ReturnType<typeof createSelectionOutline> | null>(null);
+  const [pendingPoints, setPendingPoints] = useState<[number, number, number][]>([]);
+  const [sectionCaps, setSectionCaps] = useState<ReturnType<typeof createSectionCaps> | null>(null);
+  const [issueHighlight, setIssueHighlight] = useState<ReturnType<typeof createIssueHighlight> | null>(null);
+  const [sceneObjects, setSceneObjects] = useState<Record<string, THREE.Group>>({});
+  const [heatmap, setHeatmap] = useState<ReturnType<typeof createDeviationHeatmap> | null>(null);
+  // Scene models the heatmap was measured on or against
+  const heatmapModelIds = useRef<string[]>([]);
+  const [placementGroup, setPlacementGroup] = useState<THREE.Group | null>(null);
+  // One plane object per slot, updated in place so materials never need recompiling for a slider move
+  const clipPlanes = useMemo(() => settings.clipping.planes.map(() => new THREE.Plane()), [settings.clipping.planes.length]);
+
+  // A streamed cloud knows its full extent before all of its points are loaded. A new model
+  // is measured before it joins the placement group, which then applies on top.
+  const unplacedBounds = useMemo(() => {
+    if (!model) return null;
+    const octree = getPointOctree(model);
+    return octree ? octree.bounds.clone().applyMatrix4(model.matrixWorld) : new THREE.Box3().setFromObject(model);
+  }, [model]);
+  const placement = useMemo(() => modelTransformMatrix(modelTransform), [modelTransform]);
+  const placementRotation = modelTransform.rotation.map(THREE.MathUtils.degToRad) as [number, number, number];
+  const modelBounds = useMemo(() => unplacedBounds?.clone().applyMatrix4(placement) ?? null, [unplacedBounds, placement]);
+  const octreeStats = useRef<PointOctreeStats | null>(null);
+  const octreeReportTime = useRef(0);
+  // Bumped when objects join the model after load (streamed octree nodes, reconstructed surfaces),
+  // so per-object settings reach the new ones
+  const [graphVersion, setGraphVersion] = useState(0);
+
+  const getOriginalGeometry = (mesh: THREE.Mesh) => originalGeometries.current.get(mesh) || mesh.geometry;
+
+  const registerSceneObject = useCallback((id: string, group: THREE.Group | null) => setSceneObjects(objects => {
+    const { [id]: _, ...rest } = objects;
+    return group ? { ...rest, [id]: group } : rest;
+  }), []);
+
+  // The main model is compared along with everything drawn for it (outline, caps, highlights)
+  const getCompareModels = (): Record<string, THREE.Object3D> =>
+    modelRef.current ? { ...sceneObjects, [MAIN_MODEL_ID]: modelRef.current } : sceneObjects;
 
   const frameCamera = (object: THREE.Object3D) => {
-    const box = new THREE.Box3().setFromObject(object);
+    const octree = getPointOctree(object);
+    const box = octree ? octree.bounds.clone().applyMatrix4(object.matrixWorld) : new THREE.Box3().setFromObject(object);
+    if (box.isEmpty()) {
+      // Bones and empty groups have no extent, so frame their origin at a fraction of the model
+      const modelSize = model ? new THREE.Box3().setFromObject(model).getSize(new THREE.Vector3()).length() : 1;
+      box.setFromCenterAndSize(object.getWorldPosition(new THREE.Vector3()), new THREE.Vector3().setScalar(modelSize * 0.1 || 1));
+    }
     const size = box.getSize(new THREE.Vector3());
     const center = box.getCenter(new THREE.Vector3());
 
@@ -72,24 +281,289 @@ const ModelManager = forwardRef<ViewerHandle, ViewerProps>(({
     if (mixer.current && settings.playAnimation) {
       mixer.current.update(delta);
     }
+    outline?.update();
+    sectionCaps?.update();
+    issueHighlight?.update();
+    heatmap?.update();
+
+    const octree = getPointOctree(model);
+    if (octree && model) {
+      const stats = octree.update(state.camera, state.size.height, settings.pointBudget);
+      // Streaming stats change every frame, so they're reported at most twice a second
+      if (state.clock.elapsedTime - octreeReportTime.current > 0.5) {
+        octreeReportTime.current = state.clock.elapsedTime;
+        if (stats.loaded !== octreeStats.current?.loaded) {
+          onModelStats?.(collectModelStats(model));
+          setGraphVersion(version => version + 1);
+        }
+        if (stats.visible !== octreeStats.current?.visible || stats.loaded !== octreeStats.current?.loaded) onPointOctree?.(stats);
+        octreeStats.current = stats;
+      }
+    }
   });
 
-  // Handle Animation Switching
+  // Octrees own their node geometries (and, for COPC, a reader worker)
   useEffect(() => {
-    if (!mixer.current || clips.current.length === 0) return;
+    const octree = getPointOctree(model);
+    if (!octree) return;
+    return () => {
+      octree.dispose();
+      octreeStats.current = null;
+      onPointOctree?.(null);
+    };
+  }, [model]);
+
+  const clipping = settings.clipping;
+  const activeClipKey = clipping.planes.map(plane => plane.enabled ? 1 : 0).join('');
+  const activeClipPlanes = useMemo(
+    () => modelBounds ? clipPlanes.filter((_, i) => clipping.planes[i].enabled) : [],
+    [clipPlanes, modelBounds, activeClipKey]
+  );
 
-    if (activeAction.current) {
-      activeAction.current.fadeOut(0.3);
+  useEffect(() => {
+    if (!modelBounds) return;
+    clipping.planes.forEach((plane, i) => resolveClipPlane(plane, modelBounds, clipPlanes[i]));
+  }, [clipping.planes, clipPlanes, modelBounds]);
+
+  // Section planes apply to every material the model uses, the selection outline included
+  useEffect(() => {
+    if (!model) return;
+    gl.localClippingEnabled = true;
+    const planes = activeClipPlanes.length > 0 ? activeClipPlanes : null;
+    const materials = new Set<THREE.Material>();
+    model.traverse(child => {
+      const material = (child as THREE.Mesh).material;
+      if (material) (Array.isArray(material) ? material : [material]).forEach(m => materials.add(m));
+    });
+    if (outlineMaterial.current) materials.add(outlineMaterial.current);
+    materials.forEach(material => {
+      material.clippingPlanes = planes;
+      material.needsUpdate = true;
+    });
+  }, [model, graphVersion, activeClipPlanes, outline]);
+
+  useEffect(() => {
+    if (!model || !clipping.showCaps || activeClipPlanes.length === 0) {
+      setSectionCaps(null);
+      return;
     }
+    const caps = createSectionCaps(model, activeClipPlanes, '#f43f5e');
+    setSectionCaps(caps);
+    return () => caps.dispose();
+  }, [model, graphVersion, activeClipPlanes, clipping.showCaps]);
 
-    const nextClip = clips.current[settings.activeAnimationIndex] || clips.current[0];
-    if (nextClip) {
-      const action = mixer.current.clipAction(nextClip);
-      action.reset().fadeIn(0.3).play();
-      activeAction.current = action;
+  const updateClipPlane = (index: number, patch: Partial<ClipPlane>) => {
+    onClippingChange?.({
+      ...clipping,
+      planes: clipping.planes.map((plane, i) => i === index ? { ...plane, ...patch } : plane)
+    });
+  };
+
+  // Outliner visibility and isolation
+  useEffect(() => {
+    if (!model || !hiddenNodeIds) return;
+    applyNodeVisibility(model, new Set(hiddenNodeIds), isolatedNodeId);
+  }, [model, hiddenNodeIds, isolatedNodeId]);
+
+  // Outline the selected node with an overlay that stays out of the model graph
+  useEffect(() => {
+    const target = model && selectedNodeId ? model.getObjectByProperty('uuid', selectedNodeId) : undefined;
+    if (!model || !target) {
+      setOutline(null);
+      return;
+    }
+    if (!outlineMaterial.current) outlineMaterial.current = createOutlineMaterial('#3b82f6');
+    const radius = new THREE.Box3().setFromObject(model).getBoundingSphere(new THREE.Sphere()).radius;
+    outlineMaterial.current.userData.thickness.value = radius * 0.004;
+    const next = createSelectionOutline(target, outlineMaterial.current);
+    setOutline(next);
+    return () => next.dispose();
+  }, [model, selectedNodeId]);
+
+  useEffect(() => () => outlineMaterial.current?.dispose(), []);
+
+  useEffect(() => {
+    if (!heatmap) return;
+    heatmap.group.visible = !!deviation;
+    if (deviation) heatmap.recolor(deviation, deviationRange(deviationStats(heatmap.distances, deviation), deviation));
+  }, [heatmap, deviation]);
+
+  useEffect(() => () => heatmap?.dispose(), [heatmap]);
+
+  // The objects measured may be gone with the model
+  useEffect(() => () => setHeatmap(null), [model]);
+
+  useEffect(() => {
+    if (!heatmap || heatmapModelIds.current.every(id => sceneObjects[id])) return;
+    setHeatmap(null);
+    onDeviationCleared?.();
+  }, [heatmap, sceneObjects]);
+
+  // Marks what a validation issue found on the source geometry, which a simplified preview shares the space of
+  useEffect(() => {
+    const target = model && validationHighlight?.highlight ? model.getObjectByProperty('uuid', validationHighlight.nodeId) as THREE.Mesh | undefined : undefined;
+    if (!target?.isMesh) {
+      setIssueHighlight(null);
+      return;
     }
+    const next = createIssueHighlight(target, validationHighlight!.check, getOriginalGeometry(target));
+    setIssueHighlight(next);
+    return () => next.dispose();
+  }, [model, graphVersion, validationHighlight]);
+
+  // Points are picked within a world-space radius, so follow the rendered point size;
+  // pixel-sized points get a small fraction of the model instead
+  useEffect(() => {
+    const { sizeMode, screenPointSize } = settings.pointCloud;
+    const radius = modelBounds ? modelBounds.getSize(new THREE.Vector3()).length() : 1;
+    raycaster.params.Points.threshold = sizeMode === 'screen' ? radius * 0.001 * screenPointSize : settings.pointSize;
+  }, [raycaster, modelBounds, settings.pointSize, settings.pointCloud]);
+
+  // Points in progress are dropped when the tool or the model changes
+  useEffect(() => setPendingPoints([]), [measureMode, model]);
+
+  const finishMeasurement = (points: [number, number, number][]) => {
+    if (!measureMode) return;
+    setPendingPoints([]);
+    onMeasurement?.(createMeasurement(measureMode, points));
+  };
+
+  // Enter closes an area outline, Escape drops the points picked so far
+  useEffect(() => {
+    if (!measureMode) return;
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setPendingPoints([]);
+      if (event.key === 'Enter' && measureMode === 'area' && pendingPoints.length >= 3) finishMeasurement(pendingPoints);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [measureMode, pendingPoints]);
+
+  const addMeasurePoint = (hit: THREE.Intersection) => {
+    if (!model || !measureMode) return;
+    // Snap within a small screen-space radius, whatever the model's scale
+    const snapRadius = hit.distance * 0.02;
+    const world = pickMeasurePoint(hit, snapToVertices, snapRadius);
+    const local = model.worldToLocal(world.clone()).toArray() as [number, number, number];
+
+    if (measureMode === 'area' && pendingPoints.length >= 3) {
+      // Clicking the first point again closes the outline
+      const first = model.localToWorld(new THREE.Vector3(...pendingPoints[0]));
+      if (first.distanceTo(world) < snapRadius) {
+        finishMeasurement(pendingPoints);
+        return;
+      }
+    }
+
+    const points = [...pendingPoints, local];
+    if (points.length === MEASUREMENT_POINTS[measureMode]) {
+      finishMeasurement(points);
+    } else {
+      setPendingPoints(points);
+    }
+  };
+
+  const handleModelClick = (event: ThreeEvent<MouseEvent>) => {
+    // Orbit drags end with a click too; only treat a still pointer as a pick.
+    // Reference picks pass through the model to the scene model behind it.
+    if (event.delta > 4 || !model || registrationPick === 'target') return;
+    // Skip hits on hidden nodes and on parts cut away by section planes
+    const hit = event.intersections.find(i =>
+      isVisibleInTree(i.object, model) && activeClipPlanes.every(plane => plane.distanceToPoint(i.point) >= 0));
+    if (!hit) return;
+    event.stopPropagation();
+    if (registrationPick === 'source') {
+      pickRegistrationPoint('source', hit, model);
+    } else if (measureMode) {
+      addMeasurePoint(hit);
+    } else {
+      // Octree nodes come and go, so a click selects the whole cloud
+      onSelectNode?.(getPointOctree(hit.object.parent) ? hit.object.parent!.uuid : hit.object.uuid);
+    }
+  };
+
+  const handlePointerMissed = (event: MouseEvent) => {
+    if (event.type === 'click' && !measureMode && !registrationPick) onSelectNode?.(null);
+  };
+
+  const pickRegistrationPoint = (side: RegistrationSide, hit: THREE.Intersection, object: THREE.Object3D) => {
+    const world = pickMeasurePoint(hit, snapToVertices, hit.distance * 0.02);
+    onRegistrationPoint?.(side, object.worldToLocal(world).toArray() as [number, number, number]);
+  };
+
+  // Reference points are picked on the scene model's group, so they follow its transform
+  const handleSceneModelClick = (event: ThreeEvent<MouseEvent>) => {
+    const reference = registrationReference ? sceneObjects[registrationReference] : undefined;
+    if (event.delta > 4 || registrationPick !== 'target' || !reference?.visible) return;
+    const hit = event.intersections.find(i => isVisibleInTree(i.object, reference) && isInsideTree(i.object, reference));
+    if (!hit) return;
+    event.stopPropagation();
+    pickRegistrationPoint('target', hit, reference);
+  };
+
+  /** Starts clip `index` from the top, blending over `fade` seconds from the clip playing before. */
+  const playClip = (index: number, fade: number) => {
+    const clip = clips.current[index] || clips.current[0];
+    const previous = activeAction.current;
+    if (!mixer.current || !clip) return;
+    const action = mixer.current.clipAction(clip);
+    if (action === previous) return;
+
+    action.setLoop(LOOP_STYLES[settings.animation.loop], Infinity);
+    action.clampWhenFinished = settings.animation.loop === 'once';
+    action.reset().play();
+    loopPasses.current = 0;
+    if (previous && fade > 0) action.crossFadeFrom(previous, fade, false);
+    else previous?.stop();
+    activeAction.current = action;
+  };
+
+  // The action's time keeps counting up on the backward passes too
+  const isPlayingBackwards = (action: THREE.AnimationAction) =>
+    action.loop === THREE.LoopPingPong && (loopPasses.current & 1) === 1;
+
+  const reportAnimations = () => onAnimations?.(describeClips(clips.current));
+
+  /** Swaps clip `index` for `next`, or drops it when null; an edited active clip restarts from the top. */
+  const replaceClip = (index: number, next: THREE.AnimationClip | null) => {
+    const clip = clips.current[index];
+    if (!mixer.current || !clip) return;
+    const wasActive = activeAction.current?.getClip() === clip;
+    mixer.current.existingAction(clip)?.stop();
+    mixer.current.uncacheClip(clip);
+    clips.current = next ? clips.current.map((c, i) => i === index ? next : c) : clips.current.filter((_, i) => i !== index);
+    if (wasActive) {
+      activeAction.current = null;
+      playClip(Math.min(index, clips.current.length - 1), 0);
+    }
+    reportAnimations();
+  };
+
+  // Handle Animation Switching
+  useEffect(() => {
+    playClip(settings.activeAnimationIndex, settings.animation.crossFade);
   }, [settings.activeAnimationIndex]);
 
+  useEffect(() => {
+    if (mixer.current) mixer.current.timeScale = settings.animation.speed;
+  }, [model, settings.animation.speed]);
+
+  useEffect(() => {
+    const action = activeAction.current;
+    if (!action) return;
+    action.setLoop(LOOP_STYLES[settings.animation.loop], Infinity);
+    action.clampWhenFinished = settings.animation.loop === 'once';
+  }, [model, settings.animation.loop]);
+
+  useEffect(() => {
+    const action = activeAction.current;
+    // A clip played once holds its last frame; playing again starts it over
+    if (settings.playAnimation && action && action.loop === THREE.LoopOnce && !action.isRunning()) {
+      action.reset().play();
+      loopPasses.current = 0;
+    }
+  }, [settings.playAnimation]);
+
   // Apply visual settings to the model
   useEffect(() => {
     if (!model) return;
@@ -107,12 +581,8 @@ const ModelManager = forwardRef<ViewerHandle, ViewerProps>(({
           });
         }
       }
-      if ((child as THREE.Points).isPoints) {
-        const points = child as THREE.Points;
-        if (points.material) {
-          (points.material as THREE.PointsMaterial).size = settings.pointSize;
-          (points.material as THREE.PointsMaterial).sizeAttenuation = true;
-        }
+      if ((child as THREE.Points).isPoints && modelBounds) {
+        applyPointCloudStyle(child as THREE.Points, settings.pointCloud, settings.pointSize, modelBounds);
       }
     });
 
@@ -139,58 +609,440 @@ const ModelManager = forwardRef<ViewerHandle, ViewerProps>(({
       skeletonHelper.current = null;
     }
 
-  }, [model, settings.wireframe, settings.pointSize, settings.showSkeleton, scene]);
+  }, [model, modelBounds, graphVersion, settings.wireframe, settings.pointSize, settings.pointCloud, settings.showSkeleton, scene]);
+
+  // Live simplification preview, debounced so slider drags don't re-run the simplifier per tick
+  useEffect(() => {
+    if (!model || (!simplification.enabled && !isSimplified.current)) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      await simplifierReady;
+      if (cancelled) return;
+
+      const meshes: THREE.Mesh[] = [];
+      model.traverse(child => {
+        if ((child as THREE.Mesh).isMesh) meshes.push(child as THREE.Mesh);
+      });
+      meshes.forEach(mesh => {
+        if (!originalGeometries.current.has(mesh)) originalGeometries.current.set(mesh, mesh.geometry);
+      });
+
+      const sourceTriangles = meshes.reduce((sum, mesh) => sum + countTriangles(getOriginalGeometry(mesh)), 0);
+      let ratio = 1;
+      if (simplification.enabled) {
+        ratio = simplification.mode === 'ratio'
+          ? simplification.ratio
+          : Math.min(1, simplification.triangleBudget / Math.max(sourceTriangles, 1));
+      }
+
+      meshes.forEach(mesh => {
+        const original = getOriginalGeometry(mesh);
+        const previous = mesh.geometry;
+        mesh.geometry = ratio >= 1
+          ? original
+          : simplifyGeometry(original, ratio, simplification.errorThreshold, simplification.lockBorder);
+        if (previous !== original) previous.dispose();
+      });
+      isSimplified.current = ratio < 1;
+
+      onModelStats?.(collectModelStats(model));
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [model, graphVersion, simplification]);
+
+  // Point cloud processing preview. Each pass starts from the loaded points and runs in a worker;
+  // a settings change aborts the running pass, which terminates its worker
+  useEffect(() => {
+    // Octree clouds are split into nodes, which can't be processed one by one
+    if (!model || !modelBounds || !pointProcessing || getPointOctree(model)) return;
+    if (!hasPointProcessing(pointProcessing) && !isPointsProcessed.current) return;
+
+    const clouds: THREE.Points[] = [];
+    model.traverse(child => {
+      if ((child as THREE.Points).isPoints) clouds.push(child as THREE.Points);
+    });
+    if (clouds.length === 0) return;
+    clouds.forEach(cloud => {
+      if (!originalPoints.current.has(cloud)) originalPoints.current.set(cloud, cloud.geometry);
+    });
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const active = hasPointProcessing(pointProcessing);
+      const originals = clouds.map(cloud => originalPoints.current.get(cloud)!);
+      const total = originals.reduce((sum, geometry) => sum + geometry.attributes.position.count, 0);
+      model.updateMatrixWorld(true);
+      onPointProcessing?.(true);
+      try {
+        // One cloud at a time, so large scans don't each hold a worker copy at once
+        const results: THREE.BufferGeometry[] = [];
+        for (const [i, cloud] of clouds.entries()) {
+          const original = originals[i];
+          results.push(active
+            ? await processPointsInWorker(original, cloud.matrixWorld, resolvePointProcessing(pointProcessing, modelBounds, original.attributes.position.count, total), controller.signal)
+            : original);
+        }
+        clouds.forEach((cloud, i) => {
+          const previous = cloud.geometry;
+          cloud.geometry = results[i];
+          if (previous !== originals[i]) previous.dispose();
+        });
+        isPointsProcessed.current = active;
+        onModelStats?.(collectModelStats(model));
+      } catch (e) {
+        if (!controller.signal.aborted) console.error(e);
+      } finally {
+        if (!controller.signal.aborted) onPointProcessing?.(false);
+      }
+    }, 250);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+      onPointProcessing?.(false);
+    };
+  }, [model, modelBounds, pointProcessing]);
+
+  // The crop region, drawn while cropping is on
+  const cropHelper = useMemo(() => {
+    if (!modelBounds || !pointProcessing?.crop.enabled) return null;
+    return new THREE.Box3Helper(resolveCropBox(pointProcessing.crop, modelBounds), 0xf59e0b);
+  }, [modelBounds, pointProcessing?.crop]);
+
+  useEffect(() => () => {
+    cropHelper?.geometry.dispose();
+    (cropHelper?.material as THREE.Material | undefined)?.dispose();
+  }, [cropHelper]);
+
+  /**
+   * Clones the model for export. With `placed`, its placement is baked in
+   * and it stays where it sits, so a scan aligned to a reference exports in
+   * the reference's frame; otherwise it is exported as loaded, centered on
+   * its bounding box. With a ratio, every mesh is re-simplified from its
+   * original geometry rather than from the live preview. With section
+   * planes, only what they keep is exported.
+   */
+  const cloneForExport = (source: THREE.Object3D, placed: boolean, ratio?: number, sectionPlanes?: THREE.Plane[]) => {
+    // Export every loaded octree node, not just the ones in view; the next frame hides them again
+    getPointOctree(source)?.showLoaded();
+    const clone = source.clone();
+    // Placed as in the viewport, where the section planes are
+    clone.applyMatrix4(placement);
+
+    if (ratio !== undefined) {
+      const sourceMeshes: THREE.Mesh[] = [];
+      source.traverse(child => {
+        if ((child as THREE.Mesh).isMesh) sourceMeshes.push(child as THREE.Mesh);
+      });
+      let index = 0;
+      clone.traverse(child => {
+        const mesh = child as THREE.Mesh;
+        if (!mesh.isMesh) return;
+        const original = getOriginalGeometry(sourceMeshes[index++]);
+        mesh.geometry = ratio >= 1
+          ? original
+          : simplifyGeometry(original, ratio, simplification.errorThreshold, simplification.lockBorder);
+      });
+    }
+
+    if (sectionPlanes?.length) clipObject(clone, sectionPlanes);
+
+    // A model that was never moved is centered, as exports always were
+    if (!placed || isIdentityTransform(modelTransform)) {
+      clone.applyMatrix4(placement.clone().invert());
+      const box = new THREE.Box3().setFromObject(clone);
+      const center = box.getCenter(new THREE.Vector3());
+      clone.position.sub(center);
+    }
+    return clone;
+  };
+
+  const encodeScene = async (
+    exportScene: THREE.Scene,
+    config: ExportConfig,
+    baseName: string,
+    report: StageReporter,
+    signal?: AbortSignal
+  ) => {
+    if (!GLTF_FORMATS.includes(config.format)) {
+      await report('serialize');
+      const { data, extension } = await exportSceneAs(exportScene, baseName, config);
+      return { data, extension, textures: [] as TextureReport[] };
+    }
+
+    await report('export-scene');
+    const exporter = new GLTFExporter();
+    const result = await exporter.parseAsync(exportScene, {
+      binary: true,
+      animations: config.animations ? clips.current.filter((_, i) => config.animations!.includes(i)) : clips.current,
+      truncateDrawRange: true
+    }) as ArrayBuffer;
+
+    // Separate glTF is always unpacked by the glTF-Transform pass
+    const extension = config.format === 'gltf' ? 'zip' : 'glb';
+    const needsPass = config.format === 'gltf' || config.draco || config.meshopt || config.ktx2 || (config.lod.enabled && config.lod.packing === 'msft_lod');
+    if (!needsPass) return { data: result, extension, textures: [] as TextureReport[] };
+    const { data, textures } = await compressInWorker(result, config, report, signal);
+    return { data, extension, textures };
+  };
 
   useImperativeHandle(ref, () => ({
     frameModel: () => {
       if (model) frameCamera(model);
     },
-    exportModel: async (config: ExportConfig) => {
-      if (!model) return;
-      
-      const exporter = new GLTFExporter();
-      const exportScene = new THREE.Scene();
-      const clone = model.clone();
-      
-      const box = new THREE.Box3().setFromObject(clone);
-      const center = box.getCenter(new THREE.Vector3());
-      clone.position.sub(center);
-      exportScene.add(clone);
+    frameObject: (id: string) => {
+      const target = sceneObjects[id] ?? model?.getObjectByProperty('uuid', id);
+      if (target) frameCamera(target);
+    },
+    updateMaterial: (id: string, edit: MaterialEdit) => {
+      const material = model && findMaterial(model, id);
+      if (!model || !material) return;
+      applyMaterialEdit(material, edit);
+      onMaterials?.(collectMaterials(model));
+    },
+    setMaterialTexture: async (id: string, slot: string, file: File | null) => {
+      const material = model && findMaterial(model, id);
+      if (!model || !material) return;
+      const previous = ((material as any)[slot] as THREE.Texture | null) ?? null;
+      // glTF UVs start at the top-left, the other loaders' at the bottom-left
+      const texture = file ? await loadTextureFile(file, slot, previous, extension !== 'glb' && extension !== 'gltf') : null;
+      setMaterialTexture(material, slot, texture);
+      onMaterials?.(collectMaterials(model));
+      onModelStats?.(collectModelStats(model));
+    },
+    reconstructSurface: async (options: ReconstructionSettings, signal?: AbortSignal) => {
+      // Streamed clouds are never whole in memory, so there is nothing to mesh in one go
+      if (!model || getPointOctree(model)) return 0;
 
-      const options: any = {
-        binary: true,
-        animations: clips.current,
-        truncateDrawRange: true
-      };
+      const clouds: THREE.Points[] = [];
+      model.traverse(child => {
+        if ((child as THREE.Points).isPoints) clouds.push(child as THREE.Points);
+      });
+      // One cloud at a time, as with processing, so only one worker copy is alive
+      const surfaces: [THREE.Points, THREE.BufferGeometry][] = [];
+      try {
+        for (const cloud of clouds) {
+          const geometry = await reconstructInWorker(cloud.geometry, options, signal);
+          if (geometry.index) surfaces.push([cloud, geometry]);
+          else geometry.dispose();
+        }
+      } catch (error) {
+        // Canceled or failed partway: the surfaces already built are never added
+        surfaces.forEach(([, geometry]) => geometry.dispose());
+        throw error;
+      }
+      if (surfaces.length === 0) return 0;
 
-      if (config.draco) {
-        options.dracoOptions = { compressionLevel: 7 };
+      // A cloud at the root has no parent to hold its surface, so a group takes its place
+      let root = model;
+      if ((model as THREE.Points).isPoints) {
+        root = new THREE.Group();
+        root.name = model.name;
+        root.add(model);
       }
-      
-      exporter.parse(
-        exportScene,
-        (result) => {
-          let output: any = result;
-          const blob = new Blob([output], { type: 'application/octet-stream' });
-          const url = URL.createObjectURL(blob);
-          const link = document.createElement('a');
-          link.href = url;
-          
-          let suffix = '';
-          if (config.draco) suffix += '_draco';
-          if (config.ktx2) suffix += '_ktx2';
-          if (!suffix) suffix = '_optimized';
-          
-          link.download = `${config.fileName.replace(/\.[^/.]+$/, "")}${suffix}.glb`;
-          link.click();
-          URL.revokeObjectURL(url);
-        },
-        (error) => {
-          console.error('Export error:', error);
-          throw error;
-        },
-        options
+      surfaces.forEach(([cloud, geometry]) => {
+        const material = new THREE.MeshStandardMaterial({
+          name: 'Surface',
+          color: geometry.attributes.color ? 0xffffff : 0x9ca3af,
+          vertexColors: !!geometry.attributes.color,
+          // Normals of open scans may face either way, so both sides are lit
+          side: THREE.DoubleSide,
+          roughness: 0.8,
+          metalness: 0
+        });
+        const previous = surfaceMeshes.current.get(cloud);
+        if (previous) {
+          previous.removeFromParent();
+          const original = getOriginalGeometry(previous);
+          if (original !== previous.geometry) previous.geometry.dispose();
+          original.dispose();
+          (previous.material as THREE.Material).dispose();
+          originalGeometries.current.delete(previous);
+        }
+
+        const mesh = new THREE.Mesh(geometry, material);
+        surfaceMeshes.current.set(cloud, mesh);
+        mesh.name = `${cloud.name || 'Points'} Surface`;
+        mesh.position.copy(cloud.position);
+        mesh.quaternion.copy(cloud.quaternion);
+        mesh.scale.copy(cloud.scale);
+        (cloud === model ? root : cloud.parent!).add(mesh);
+        if (!options.keepPoints) cloud.visible = false;
+      });
+      root.updateMatrixWorld(true);
+
+      if (root === model) setGraphVersion(version => version + 1);
+      else setModel(root);
+      onSceneGraph?.(buildSceneGraph(root));
+      onMaterials?.(collectMaterials(root));
+      onModelStats?.(collectModelStats(root));
+      return surfaces.reduce((sum, [, geometry]) => sum + geometry.index!.count / 3, 0);
+    },
+    validateModel: () => model ? validateModel(model, getOriginalGeometry) : [],
+    analyzeDeviation: async (targetId: string, referenceId: string, signal?: AbortSignal) => {
+      const resolve = (id: string) => id === MAIN_MODEL_ID ? model : sceneObjects[id] ?? model?.getObjectByProperty('uuid', id);
+      const target = resolve(targetId);
+      const reference = resolve(referenceId);
+      if (!target || !reference) throw new Error('The selected objects are no longer in the scene');
+      if ([target, reference].some(containsOctree)) throw new Error('Streamed point clouds are never fully in memory, so they cannot be measured');
+
+      const referenceGeometry = collectReferenceGeometry(reference, target);
+      if (!referenceGeometry) throw new Error('The reference has no surface to measure against');
+      const { objects, positions } = collectSamples(target, reference);
+      if (objects.length === 0) throw new Error('The target has no vertices or points to measure');
+
+      const distances = await deviationInWorker(referenceGeometry, positions, signal);
+      heatmapModelIds.current = [targetId, referenceId].filter(id => sceneObjects[id]);
+      setHeatmap(createDeviationHeatmap(objects, target, distances));
+      return distances;
+    },
+    clearDeviation: () => setHeatmap(null),
+    fixPlacement: (fix: PlacementFix) => modelBounds ? fixModelPlacement(modelTransform, fix, modelBounds) : null,
+    alignPairs: (referenceId: string, pairs: RegistrationPair[]) => {
+      const reference = sceneObjects[referenceId];
+      if (!model || !reference) throw new Error('The reference model is no longer in the scene');
+      model.updateWorldMatrix(true, false);
+      reference.updateWorldMatrix(true, false);
+      const complete = completePairs(pairs);
+      const { matrix, rms } = alignPointPairs(
+        complete.map(pair => model.localToWorld(new THREE.Vector3(...pair.source))),
+        complete.map(pair => reference.localToWorld(new THREE.Vector3(...pair.target)))
       );
+      return { transform: premultiplyModelTransform(modelTransform, matrix), rms };
+    },
+    refineRegistration: async (referenceId: string, options: RegistrationSettings, signal?: AbortSignal, onIteration?: (iteration: number, rms: number) => void) => {
+      const reference = sceneObjects[referenceId];
+      if (!model || !reference) throw new Error('The reference model is no longer in the scene');
+      if ([model, reference].some(containsOctree)) throw new Error('Streamed point clouds are never fully in memory, so they cannot be registered');
+
+      const { positions } = collectSamples(model, reference);
+      if (positions.length === 0) throw new Error('The main model has no vertices or points to align');
+      // Matched against the reference's surface when it has one, otherwise against its points
+      let referenceGeometry = collectReferenceGeometry(reference, model);
+      if (!referenceGeometry) {
+        const points = collectSamples(reference, model).positions;
+        if (points.length === 0) throw new Error('The reference has no surface or points to align to');
+        referenceGeometry = new THREE.BufferGeometry();
+        referenceGeometry.setAttribute('position', new THREE.BufferAttribute(points, 3));
+      }
+
+      const { matrix, rms } = await registerInWorker(referenceGeometry, samplePositions(positions, options.samples), options, signal, onIteration);
+      return { transform: premultiplyModelTransform(modelTransform, matrix), rms };
+    },
+    getAnimationTime: () => {
+      const action = activeAction.current;
+      if (!action) return 0;
+      return isPlayingBackwards(action) ? action.getClip().duration - action.time : action.time;
+    },
+    seekAnimation: (time: number) => {
+      const action = activeAction.current;
+      if (!mixer.current || !action) return;
+      const duration = action.getClip().duration;
+      const target = THREE.MathUtils.clamp(time, 0, duration);
+      // A clip played once is paused on its last frame when it ends
+      action.enabled = true;
+      action.paused = false;
+      action.time = isPlayingBackwards(action) ? duration - target : target;
+      mixer.current.update(0);
+    },
+    renameAnimation: (index: number, name: string) => {
+      const clip = clips.current[index];
+      if (!clip) return;
+      clip.name = name;
+      reportAnimations();
+    },
+    trimAnimation: (index: number, start: number, end: number) => {
+      const clip = clips.current[index];
+      if (clip && end > start) replaceClip(index, trimClip(clip, start, end));
+    },
+    deleteAnimation: (index: number) => replaceClip(index, null),
+    repairModel: (fix: MeshFix, nodeIds: string[]) => {
+      if (!model) return;
+      const targets = new Set(nodeIds);
+      const meshes: THREE.Mesh[] = [];
+      model.traverse(child => {
+        if ((child as THREE.Mesh).isMesh) meshes.push(child as THREE.Mesh);
+      });
+      const repaired = new Map<THREE.BufferGeometry, THREE.BufferGeometry>();
+      meshes.forEach(mesh => {
+        const original = getOriginalGeometry(mesh);
+        if (targets.has(mesh.uuid) && !repaired.has(original)) repaired.set(original, applyMeshFix(original, fix));
+      });
+      if (repaired.size === 0) return;
+
+      // Every mesh sharing a repaired source takes the fix; simplified previews are rebuilt from it
+      meshes.forEach(mesh => {
+        const original = getOriginalGeometry(mesh);
+        const geometry = repaired.get(original);
+        if (!geometry) return;
+        if (originalGeometries.current.has(mesh)) originalGeometries.current.set(mesh, geometry);
+        if (mesh.geometry === original) mesh.geometry = geometry;
+      });
+      repaired.forEach((_, original) => original.dispose());
+
+      setGraphVersion(version => version + 1);
+      onModelStats?.(collectModelStats(model));
+    },
+    exportModel: async (config: ExportConfig, { onProgress, signal }: ExportOptions = {}) => {
+      if (!model) return;
+
+      await simplifierReady;
+      const files: ExportedFile[] = [];
+      let textures: TextureReport[] = [];
+
+      const sectionPlanes = config.clipToSections ? activeClipPlanes.map(plane => plane.clone()) : undefined;
+      const isGLTF = GLTF_FORMATS.includes(config.format);
+      let suffix = '';
+      if (isGLTF) {
+        if (config.draco) suffix += '_draco';
+        if (config.meshopt) suffix += '_meshopt';
+        if (config.ktx2) suffix += '_ktx2';
+      }
+      if (!suffix) suffix = '_optimized';
+      const baseName = `${config.fileName.replace(/\.[^/.]+$/, "")}${suffix}`;
+
+      // MSFT_lod only exists in glTF, so other formats always get one file per level
+      if (config.lod.enabled && (config.lod.packing === 'separate' || !isGLTF)) {
+        const levels = config.lod.ratios;
+        for (const [level, ratio] of levels.entries()) {
+          const report = createStageReporter(level, levels.length, onProgress, signal);
+          await report('clone');
+          const exportScene = new THREE.Scene();
+          exportScene.add(cloneForExport(model, config.applyTransforms, ratio / 100, sectionPlanes));
+          const levelName = `${baseName}_lod${level}`;
+          const result = await encodeScene(exportScene, config, levelName, report, signal);
+          if (level === 0) textures = result.textures;
+          await report('write');
+          files.push(downloadFile(result.data, `${levelName}.${result.extension}`));
+        }
+      } else {
+        const report = createStageReporter(0, 1, onProgress, signal);
+        await report('clone');
+        const exportScene = new THREE.Scene();
+        if (config.lod.enabled) {
+          config.lod.ratios.forEach((ratio, level) => {
+            const group = new THREE.Group();
+            group.name = `${LOD_NODE_PREFIX}${level}`;
+            group.add(cloneForExport(model, config.applyTransforms, ratio / 100, sectionPlanes));
+            exportScene.add(group);
+          });
+        } else {
+          exportScene.add(cloneForExport(model, config.applyTransforms, undefined, sectionPlanes));
+        }
+        const fileName = `${baseName}${config.lod.enabled ? '_lod' : ''}`;
+        const result = await encodeScene(exportScene, config, fileName, report, signal);
+        textures = result.textures;
+        await report('write');
+        files.push(downloadFile(result.data, `${fileName}.${result.extension}`));
+      }
+
+      onProgress?.({ stage: 'write', percent: 100, file: files.length - 1, fileCount: files.length });
+      onExportReport?.({ files, textures });
     }
   }));
 
@@ -200,60 +1052,14 @@ const ModelManager = forwardRef<ViewerHandle, ViewerProps>(({
       return;
     }
 
-    const ext = extension.toLowerCase();
-    const manager = new THREE.LoadingManager();
-    
-    const dracoLoader = new DRACOLoader(manager);
-    dracoLoader.setDecoderPath('https://www.gstatic.com/draco/versioned/decoders/1.5.7/');
-    
-    const ktx2Loader = new KTX2Loader(manager);
-    ktx2Loader.setTranscoderPath('https://cdn.jsdelivr.net/gh/mrdoob/three.js@r182/examples/jsm/libs/basis/');
-    ktx2Loader.detectSupport(gl);
-
-    const processResult = (result: any) => {
-      let object: THREE.Object3D;
-      let modelAnimations: THREE.AnimationClip[] = [];
-      
-      if (ext === 'glb' || ext === 'gltf') {
-        object = result.scene;
-        modelAnimations = result.animations;
-      } else if (ext === 'obj') {
-        object = result;
-      } else if (ext === 'pcd') {
-        // PCDLoader returns THREE.Points
-        object = result;
-        if ((object as THREE.Points).material) {
-           (object as THREE.Points).material = new THREE.PointsMaterial({ 
-              size: settings.pointSize, 
-              vertexColors: (object as any).geometry.hasAttribute('color') 
-           });
-        }
-      } else if (ext === 'xyz' || ext === 'ply') {
-        let geometry = result;
-        // loaders for xyz and ply can return geometry directly
-        if (result.scene) geometry = result.scene; 
-        
-        const isPointCloud = ext === 'xyz' || (ext === 'ply' && (!geometry.index || geometry.index.count === 0));
-
-        if (isPointCloud) {
-           const material = new THREE.PointsMaterial({ 
-             size: settings.pointSize, 
-             vertexColors: geometry.hasAttribute('color'),
-             sizeAttenuation: true
-           });
-           object = new THREE.Points(geometry, material);
-        } else {
-           const material = new THREE.MeshStandardMaterial({ 
-             color: 0x808080, 
-             roughness: 0.5, 
-             metalness: 0.5 
-           });
-           object = new THREE.Mesh(geometry, material);
-        }
-      } else {
-        object = new THREE.Mesh(result, new THREE.MeshStandardMaterial());
-      }
+    const controller = new AbortController();
 
+    const handleError = (err: any) => {
+      if (controller.signal.aborted) return;
+      onLoadingStatus?.(`Error: ${err.message || 'Parsing failed'}`);
+    };
+
+    const processResult = ({ object, animations: modelAnimations }: LoadedModel) => {
       // Cleanup
       if (mixer.current) {
         mixer.current.stopAllAction();
@@ -264,147 +1070,97 @@ const ModelManager = forwardRef<ViewerHandle, ViewerProps>(({
 
       if (modelAnimations && modelAnimations.length > 0) {
         mixer.current = new THREE.AnimationMixer(object);
-        const action = mixer.current.clipAction(modelAnimations[0]);
-        action.play();
-        activeAction.current = action;
+        mixer.current.addEventListener('loop', ({ action, loopDelta }) => {
+          if (action === activeAction.current) loopPasses.current += Math.abs(loopDelta);
+        });
+        playClip(0, 0);
       }
 
-      object.updateMatrixWorld(true);
-
-      let vertices = 0;
-      let triangles = 0;
-      let meshes = 0;
-      let materialsCount = new Set();
-      let texturesCount = new Set();
-
-      object.traverse((child) => {
-        if ((child as THREE.Mesh).isMesh || (child as THREE.Points).isPoints) {
-          meshes++;
-          const geom = (child as THREE.Mesh).geometry;
-          
-          if ((child as any).isSkinnedMesh) {
-            child.frustumCulled = false;
-          }
-
-          if (geom.attributes.position) {
-            vertices += geom.attributes.position.count;
-            if ((child as THREE.Mesh).isMesh) {
-              triangles += geom.attributes.position.count / 3;
-            }
-          }
-
-          if (ext !== 'glb' && ext !== 'gltf' && (child as THREE.Mesh).isMesh) {
-             const mesh = child as THREE.Mesh;
-             if (mesh.material) {
-               const oldMat = mesh.material as any;
-               mesh.material = new THREE.MeshStandardMaterial({
-                 color: oldMat.color || 0xcccccc,
-                 map: oldMat.map || null,
-                 roughness: 0.6,
-                 metalness: 0.2,
-               });
-             }
-          }
-
-          if ((child as THREE.Mesh).material) {
-            const mesh = child as THREE.Mesh;
-            const mats = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
-            mats.forEach(m => {
-              materialsCount.add(m.uuid);
-              const mat = m as any;
-              ['map', 'normalMap', 'roughnessMap', 'metalnessMap', 'emissiveMap'].forEach(key => {
-                if (mat[key]) texturesCount.add(mat[key].uuid);
-              });
-            });
-          }
-        }
-      });
-
       setModel(object);
+      onSceneGraph?.(buildSceneGraph(object));
+      onMaterials?.(collectMaterials(object));
       onModelMetadata({
-        vertices,
-        triangles: Math.round(triangles),
-        meshes,
-        materials: materialsCount.size,
-        textures: texturesCount.size,
+        ...collectModelStats(object),
         animations: modelAnimations.map(c => c.name || `Animation ${modelAnimations.indexOf(c) + 1}`)
       });
+      reportAnimations();
 
       setTimeout(() => frameCamera(object), 100);
     };
 
-    const handleError = (err: any) => {
-      onLoadingStatus?.(`Error: ${err.message || 'Parsing failed'}`);
-    };
-
-    const loadModel = async () => {
-      onLoadingStatus?.(`Fetching data stream...`);
-      try {
-        const response = await fetch(modelUrl);
-        const buffer = await response.arrayBuffer();
-        onLoadingStatus?.(`Decoding ${ext.toUpperCase()} payloads...`);
-
-        switch (ext) {
-          case 'glb':
-          case 'gltf': {
-            const loader = new GLTFLoader(manager);
-            loader.setDRACOLoader(dracoLoader);
-            loader.setKTX2Loader(ktx2Loader);
-            loader.setMeshoptDecoder(MeshoptDecoder);
-            loader.parse(buffer, '', processResult, handleError);
-            break;
-          }
-          case 'obj': {
-            const loader = new OBJLoader(manager);
-            const text = new TextDecoder().decode(buffer);
-            processResult(loader.parse(text));
-            break;
-          }
-          case 'ply': {
-            const loader = new PLYLoader(manager);
-            processResult(loader.parse(buffer));
-            break;
-          }
-          case 'pcd': {
-            const loader = new PCDLoader(manager);
-            processResult(loader.parse(buffer));
-            break;
-          }
-          case 'xyz': {
-            const loader = new XYZLoader(manager);
-            const text = new TextDecoder().decode(buffer);
-            processResult(loader.parse(text));
-            break;
-          }
-          default:
-            handleError(new Error(`Unsupported format: ${ext}`));
-        }
-      } catch (e) {
-        handleError(e);
-      }
-    };
-
-    loadModel();
+    loadModel(
+      { url: modelUrl, extension, file: modelFile, resources },
+      { renderer: gl, pointSize: settings.pointSize, signal: controller.signal, onStatus: onLoadingStatus }
+    ).then(processResult, handleError);
 
     return () => {
-      dracoLoader.dispose();
-      ktx2Loader.dispose();
+      controller.abort();
       if (mixer.current) mixer.current.stopAllAction();
       if (skeletonHelper.current) scene.remove(skeletonHelper.current);
     };
   }, [modelUrl, extension, gl]);
 
   return (
-    <group ref={modelRef}>
-      {model && <primitive object={model} />}
-    </group>
+    <>
+      <group ref={modelRef}>
+        <group ref={setPlacementGroup} position={modelTransform.position} rotation={placementRotation} scale={modelTransform.scale}>
+          {model && <primitive object={model} onClick={handleModelClick} onPointerMissed={handlePointerMissed} />}
+        </group>
+        {outline && <primitive object={outline.group} />}
+        {sectionCaps && <primitive object={sectionCaps.group} />}
+        {issueHighlight && <primitive object={issueHighlight.group} />}
+        {cropHelper && <primitive object={cropHelper} raycast={() => null} />}
+        {modelBounds && clipping.showGizmos && (
+          <SectionPlaneGizmos planes={clipping.planes} bounds={modelBounds} onChange={updateClipPlane} />
+        )}
+        {model && (measurements.length > 0 || pendingPoints.length > 0) && (
+          <MeasurementOverlay
+            model={model}
+            measurements={measurements}
+            pendingKind={measureMode}
+            pendingPoints={pendingPoints}
+            unit={measureUnit}
+          />
+        )}
+      </group>
+      {placementGroup && model && transformTarget === MAIN_MODEL_ID && (
+        <TransformControls
+          object={placementGroup}
+          mode={transformMode}
+          onObjectChange={() => onModelTransform?.(readModelTransform(placementGroup))}
+        />
+      )}
+      <group onClick={handleSceneModelClick}>
+        {sceneModels.map(sceneModel => (
+          <SceneModelView
+            key={sceneModel.id}
+            model={sceneModel}
+            settings={settings}
+            gizmoMode={transformTarget === sceneModel.id ? transformMode : null}
+            onReady={registerSceneObject}
+            onMetadata={onSceneModelMetadata}
+            onTransform={onSceneModelTransform}
+            onError={onSceneModelError}
+          />
+        ))}
+      </group>
+      {heatmap && <primitive object={heatmap.group} />}
+      {model && registrationPairs.length > 0 && (
+        <RegistrationOverlay
+          source={model}
+          target={registrationReference ? sceneObjects[registrationReference] ?? null : null}
+          pairs={registrationPairs}
+        />
+      )}
+      {compare && compare.mode !== 'off' && <CompareRenderer settings={compare} getModels={getCompareModels} />}
+    </>
   );
 });
 
 const ThreeViewer = forwardRef<ViewerHandle, ViewerProps>((props, ref) => {
   return (
     <div className="w-full h-full bg-[#0a0f1a]">
-      <Canvas shadows dpr={[1, 2]} camera={{ position: [5, 5, 5], fov: 45 }}>
+      <Canvas shadows dpr={[1, 2]} gl={{ stencil: true }} camera={{ position: [5, 5, 5], fov: 45 }}>
         <color attach="background" args={['#0a0f1a']} />
         
         <ambientLight intensity={0.4} />
@@ -447,12 +1203,17 @@ const ThreeViewer = forwardRef<ViewerHandle, ViewerProps>((props, ref) => {
 
       {!props.modelUrl && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-          <div className="text-center p-12 bg-slate-900/40 backdrop-blur-md rounded-3xl border border-slate-800/50 shadow-2xl animate-in zoom-in-95 duration-700">
+          <div className="pointer-events-auto text-center p-12 bg-slate-900/40 backdrop-blur-md rounded-3xl border border-slate-800/50 shadow-2xl animate-in zoom-in-95 duration-700">
              <div className="w-24 h-24 bg-blue-600/10 rounded-full flex items-center justify-center mx-auto mb-6">
                 <i className="fas fa-cube text-5xl text-blue-500 animate-pulse"></i>
              </div>
              <h2 className="text-3xl font-black text-white mb-2 tracking-tighter uppercase">PolyPress 3D Viewer</h2>
-             <p className="text-slate-400 max-w-xs mx-auto">Upload a 3D asset or Point Cloud to start analyzing geometry.</p>
+             <p className="text-slate-400 max-w-xs mx-auto">Drop a 3D asset or Point Cloud here, or a whole folder or .zip, to start analyzing geometry.</p>
+             {props.onBrowse && (
+               <button onClick={props.onBrowse} className="mt-6 px-6 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-xl font-bold text-sm transition-all">
+                 Browse Files
+               </button>
+             )}
           </div>
         </div>
       )}
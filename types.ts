@@ -1,16 +1,119 @@
 
-export interface ModelMetadata {
+export interface MeshStats {
   name: string;
-  size: number;
-  format: string;
+  type: string;
+  vertices: number;
+  triangles: number;
+  drawCalls: number;
+  attributes: string[];
+  materials: string[];
+  /** Bytes of vertex and index data. */
+  memory: number;
+}
+
+export interface MaterialStats {
+  name: string;
+  type: string;
+  textureSlots: string[];
+  meshes: number;
+}
+
+export interface TextureStats {
+  name: string;
+  slots: string[];
+  width: number;
+  height: number;
+  /** Estimated GPU bytes, including mipmaps. */
+  memory: number;
+}
+
+export interface MaterialTexture {
+  slot: string;
+  name: string;
+  width: number;
+  height: number;
+  /** Small data URL preview, empty when the image can't be drawn (e.g. KTX2). */
+  thumbnail: string;
+}
+
+/** Editable view of a live material, keyed by the material's uuid. */
+export interface MaterialInfo {
+  id: string;
+  name: string;
+  type: string;
+  /** Set when a loader's material was converted to MeshStandardMaterial on load. */
+  sourceType?: string;
+  /** sRGB hex colors, null when the material has no such parameter. */
+  color: string | null;
+  emissive: string | null;
+  emissiveIntensity: number | null;
+  roughness: number | null;
+  metalness: number | null;
+  opacity: number;
+  doubleSided: boolean;
+  textures: MaterialTexture[];
+  /** Texture slots that can be swapped on this material. */
+  editableSlots: string[];
+  meshes: number;
+}
+
+export interface MaterialEdit {
+  color?: string;
+  emissive?: string;
+  emissiveIntensity?: number;
+  roughness?: number;
+  metalness?: number;
+  opacity?: number;
+  doubleSided?: boolean;
+}
+
+export interface ModelStats {
   vertices: number;
   triangles: number;
   meshes: number;
   materials: number;
   textures: number;
+  drawCalls: number;
+  /** Bounding box size in model units. */
+  dimensions: { x: number; y: number; z: number };
+  geometryMemory: number;
+  textureMemory: number;
+  meshDetails: MeshStats[];
+  materialDetails: MaterialStats[];
+  textureDetails: TextureStats[];
+}
+
+export interface ModelMetadata extends ModelStats {
+  name: string;
+  size: number;
+  format: string;
   animations: string[];
 }
 
+export interface SceneNode {
+  /** The object's uuid, stable for as long as the model stays loaded. */
+  id: string;
+  name: string;
+  type: string;
+  visible: boolean;
+  children: SceneNode[];
+}
+
+export type MeasurementUnit = 'mm' | 'cm' | 'm' | 'in';
+
+export type MeasurementKind = 'distance' | 'angle' | 'area';
+
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  /** Picked points in the model's own coordinates. */
+  points: [number, number, number][];
+  /** Length in model units, angle in degrees, or area in square model units. */
+  value: number;
+  /** Closed outline length of an area measurement. */
+  perimeter?: number;
+}
+
 export enum AppState {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
@@ -18,7 +121,95 @@ export enum AppState {
   OPTIMIZING = 'OPTIMIZING'
 }
 
-export type SupportedExtension = 'glb' | 'gltf' | 'obj' | 'ply' | 'pcd' | 'xyz';
+export type SupportedExtension =
+  | 'glb' | 'gltf' | 'obj' | 'ply' | 'pcd' | 'xyz'
+  | 'stl' | 'fbx' | '3mf' | 'dae' | 'las' | 'laz' | 'e57';
+
+export type ClipAxis = 'x' | 'y' | 'z' | 'free';
+
+export interface ClipPlane {
+  enabled: boolean;
+  axis: ClipAxis;
+  /** Where the plane cuts the model bounds along its normal, from 0 (everything cut) to 1 (nothing cut). */
+  position: number;
+  /** Keeps the far side of the plane instead. */
+  flipped: boolean;
+  /** Normal of a free plane; axis planes use their axis. */
+  normal: [number, number, number];
+}
+
+export interface ClippingSettings {
+  planes: ClipPlane[];
+  showGizmos: boolean;
+  /** Fills the cut with a solid cap (watertight meshes only). */
+  showCaps: boolean;
+}
+
+export type PointColorMode = 'rgb' | 'elevation' | 'scalar' | 'normals' | 'classification';
+
+export type Colormap = 'viridis' | 'inferno' | 'turbo' | 'grayscale';
+
+export interface PointCloudSettings {
+  colorMode: PointColorMode;
+  elevationAxis: 'x' | 'y' | 'z';
+  colormap: Colormap;
+  /** Per-point attribute shown by the scalar mode, e.g. `intensity`. */
+  scalarField: string;
+  /** World sizing uses `pointSize` in model units; screen sizing uses `screenPointSize` in pixels. */
+  sizeMode: 'world' | 'screen';
+  screenPointSize: number;
+  shape: 'square' | 'round';
+}
+
+export interface PointProcessingSettings {
+  /** Crop box as fractions of the model bounds along each axis. */
+  crop: { enabled: boolean; min: [number, number, number]; max: [number, number, number] };
+  outliers: { enabled: boolean; neighbors: number; stdRatio: number };
+  /** Voxel edge as a fraction of the model's largest dimension. */
+  voxel: { enabled: boolean; size: number };
+  subsample: { enabled: boolean; targetCount: number };
+}
+
+export interface ReconstructionSettings {
+  /** Grid cells along the model's largest dimension. */
+  resolution: number;
+  /** Neighbors used to estimate normals for clouds that have none. */
+  neighbors: number;
+  /** Keep the cloud visible next to its surface instead of hiding it. */
+  keepPoints: boolean;
+}
+
+/** Streaming state of a point cloud drawn from an octree. */
+export interface PointOctreeStats {
+  visible: number;
+  loaded: number;
+  total: number;
+  /** Nodes are read from the file on demand (COPC) rather than all held in memory. */
+  progressive: boolean;
+}
+
+export type AnimationLoop = 'repeat' | 'once' | 'pingpong';
+
+export interface AnimationSettings {
+  /** Playback rate; 1 is real time. */
+  speed: number;
+  loop: AnimationLoop;
+  /** Seconds spent blending into a newly chosen clip; 0 cuts straight to it. */
+  crossFade: number;
+}
+
+export interface AnimationTrackInfo {
+  /** The animated property, as `node.property`. */
+  name: string;
+  /** Key times in seconds. */
+  times: Float32Array;
+}
+
+export interface AnimationClipInfo {
+  name: string;
+  duration: number;
+  tracks: AnimationTrackInfo[];
+}
 
 export interface SceneSettings {
   autoRotate: boolean;
@@ -26,12 +217,211 @@ export interface SceneSettings {
   showSkeleton: boolean;
   playAnimation: boolean;
   activeAnimationIndex: number;
+  animation: AnimationSettings;
   pointSize: number;
+  /** Most points drawn per frame for octree point clouds. */
+  pointBudget: number;
+  pointCloud: PointCloudSettings;
+  clipping: ClippingSettings;
+}
+
+export interface DracoSettings {
+  positionBits: number;
+  normalBits: number;
+  uvBits: number;
+  colorBits: number;
+}
+
+export interface MeshoptSettings {
+  optimizeOverdraw: boolean;
+  quantize: boolean;
+  /** Runs meshopt's lossy octahedral, quaternion and exponential filters over the attributes as they are encoded. */
+  filter: boolean;
+}
+
+export interface SimplifySettings {
+  enabled: boolean;
+  mode: 'ratio' | 'budget';
+  ratio: number;
+  triangleBudget: number;
+  errorThreshold: number;
+  lockBorder: boolean;
+}
+
+export interface LodSettings {
+  enabled: boolean;
+  ratios: number[];
+  packing: 'separate' | 'msft_lod';
+}
+
+export type ExportFormat = 'glb' | 'gltf' | 'obj' | 'ply' | 'pcd' | 'stl' | 'usdz';
+
+export interface ObjSettings {
+  includeMaterials: boolean;
+}
+
+export interface PlySettings {
+  binary: boolean;
+  includeNormals: boolean;
+  includeColors: boolean;
+}
+
+export interface PcdSettings {
+  binary: boolean;
+}
+
+export interface StlSettings {
+  binary: boolean;
+}
+
+export interface UsdzSettings {
+  quickLookCompatible: boolean;
+  anchoring: 'horizontal' | 'vertical';
+  maxTextureSize: number;
 }
 
 export interface ExportConfig {
-  format: 'glb';
+  format: ExportFormat;
   draco: boolean;
+  dracoSettings: DracoSettings;
+  meshopt: boolean;
+  meshoptSettings: MeshoptSettings;
   ktx2: boolean;
+  lod: LodSettings;
+  objSettings: ObjSettings;
+  plySettings: PlySettings;
+  pcdSettings: PcdSettings;
+  stlSettings: StlSettings;
+  usdzSettings: UsdzSettings;
+  /** Exports only what the active section planes keep. */
+  clipToSections: boolean;
+  /** Bakes a moved main model's placement in and keeps it where it sits; off, or for a model never moved, it is exported as loaded, centered on its bounds. */
+  applyTransforms: boolean;
+  /** Indices of the animation clips to export; null exports them all. */
+  animations: number[] | null;
   fileName: string;
 }
+
+export interface TextureReport {
+  name: string;
+  slots: string[];
+  codec: 'ETC1S' | 'UASTC';
+  width: number;
+  height: number;
+  originalSize: number;
+  compressedSize: number;
+}
+
+export type ExportStage = 'clone' | 'export-scene' | 'optimize' | 'compress-geometry' | 'encode-textures' | 'serialize' | 'write';
+
+export interface ExportProgress {
+  stage: ExportStage;
+  percent: number;
+  file: number;
+  fileCount: number;
+}
+
+export interface ExportedFile {
+  name: string;
+  size: number;
+}
+
+export interface ExportReport {
+  files: ExportedFile[];
+  textures: TextureReport[];
+}
+
+export type ValidationCheck =
+  | 'nan'
+  | 'degenerate'
+  | 'duplicate'
+  | 'non-manifold'
+  | 'holes'
+  | 'flipped'
+  | 'unwelded'
+  | 'missing-uvs'
+  | 'missing-tangents'
+  | 'oversized-texture';
+
+export type MeshFix = 'weld' | 'recompute-normals' | 'remove-degenerates' | 'generate-tangents';
+
+/** One problem the validation pass found on one mesh (or texture). */
+export interface ValidationIssue {
+  id: string;
+  check: ValidationCheck;
+  severity: 'error' | 'warning';
+  /** The affected mesh; for a texture, the first mesh using it. */
+  nodeId: string;
+  name: string;
+  count: number;
+  message: string;
+  fix: MeshFix | null;
+  /** The offending edges or triangles can be marked in the viewport. */
+  highlight: boolean;
+}
+
+/** Placement of a model in the scene; rotation is in degrees, XYZ order. */
+export interface ModelTransform {
+  position: [number, number, number];
+  rotation: [number, number, number];
+  scale: [number, number, number];
+}
+
+export type TransformMode = 'translate' | 'rotate' | 'scale';
+
+/** One-click placement corrections: Z-up to Y-up, resting on the ground, centered on the origin. */
+export type PlacementFix = 'z-up' | 'ground' | 'center';
+
+export type CompareMode = 'off' | 'split' | 'swipe';
+
+export interface CompareSettings {
+  mode: CompareMode;
+  /** Ids of the models shown on either side. */
+  left: string;
+  right: string;
+  /** Where the swipe divider sits across the viewport, 0–1. */
+  divider: number;
+}
+
+export interface DeviationSettings {
+  /** Keeps the side of the reference each sample lies on; off folds deviations onto their magnitude. */
+  signed: boolean;
+  colormap: Colormap;
+  /** Deviations within ±tolerance pass and are drawn in a single color; 0 turns this off. */
+  tolerance: number;
+  /** Deviation at the ends of the color scale; 0 fits it to the largest one. */
+  range: number;
+  /** Number of color steps across the scale; 0 blends continuously. */
+  bands: number;
+}
+
+export interface DeviationStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  rms: number;
+  /** Share of samples within the tolerance, 0–1. */
+  withinTolerance: number;
+  /** Equal-width bins from `start` up to the largest deviation. */
+  histogram: { start: number; binSize: number; bins: number[] };
+}
+
+/** Which side of a point pair a click picks: the main model, which moves, or the reference. */
+export type RegistrationSide = 'source' | 'target';
+
+/** Corresponding points on two models, each in the local space of the model it was picked on. */
+export interface RegistrationPair {
+  id: string;
+  source: [number, number, number] | null;
+  target: [number, number, number] | null;
+}
+
+export interface RegistrationSettings {
+  /** Most ICP iterations; refinement stops early once the error settles. */
+  iterations: number;
+  /** Points of the moving model matched in each iteration. */
+  samples: number;
+  /** Share of the closest matches kept in each iteration, 0–1, for scans that only partly overlap. */
+  overlap: number;
+}
@@ -0,0 +1,73 @@
+import * as THREE from 'three';
+import { AnimationClipInfo, AnimationLoop, AnimationSettings } from '../types';
+
+// Stepping rate for clips whose keys give no better idea
+const DEFAULT_FRAME_RATE = 30;
+// Key spacings slower than this are taken as hand-placed keys rather than frames
+const MIN_BAKED_FRAME_RATE = 12;
+
+export const LOOP_STYLES: Record<AnimationLoop, THREE.AnimationActionLoopStyles> = {
+  repeat: THREE.LoopRepeat,
+  once: THREE.LoopOnce,
+  pingpong: THREE.LoopPingPong
+};
+
+export const createAnimationSettings = (): AnimationSettings => ({
+  speed: 1,
+  loop: 'repeat',
+  crossFade: 0.3
+});
+
+export const clipName = (clip: THREE.AnimationClip, index: number) => clip.name || `Animation ${index + 1}`;
+
+/** What the timeline shows of each clip: its length and the key times of every track. */
+export const describeClips = (clips: THREE.AnimationClip[]): AnimationClipInfo[] =>
+  clips.map((clip, index) => ({
+    name: clipName(clip, index),
+    duration: clip.duration,
+    tracks: clip.tracks.map(track => ({ name: track.name, times: track.times }))
+  }));
+
+/**
+ * Frames per second the clip was keyed at, read off the shortest gap
+ * between two keys of any track; baked clips key every frame. Sparsely
+ * keyed clips step at the default rate instead.
+ */
+export const clipFrameRate = (clip: AnimationClipInfo) => {
+  let gap = Infinity;
+  clip.tracks.forEach(({ times }) => {
+    for (let i = 1; i < times.length; i++) {
+      const step = times[i] - times[i - 1];
+      if (step > 1e-4) gap = Math.min(gap, step);
+    }
+  });
+  const rate = Math.round(1 / gap);
+  return rate >= MIN_BAKED_FRAME_RATE ? Math.min(rate, 120) : DEFAULT_FRAME_RATE;
+};
+
+/**
+ * The part of a clip between `start` and `end`, moved to start at zero.
+ * Tracks get keys at both cuts, sampled from the original, so the pose does
+ * not jump. Keys are resampled through the track's own interpolant, which
+ * turns glTF cubic splines into linear tracks keyed at the original times.
+ */
+export const trimClip = (clip: THREE.AnimationClip, start: number, end: number) => {
+  const tracks = clip.tracks.map(track => {
+    const size = track.getValueSize();
+    // Set per track by its interpolation mode (and by GLTFLoader for cubic splines), so missing from the typings
+    const interpolant: THREE.Interpolant = (track as any).createInterpolant();
+    const times = [start, ...Array.from(track.times).filter(t => t > start && t < end), end];
+    // Boolean and string tracks keep their values in plain arrays
+    const values = new track.ValueBufferType(times.length * size);
+    times.forEach((time, i) => {
+      const result = interpolant.evaluate(time);
+      for (let j = 0; j < size; j++) values[i * size + j] = result[j];
+    });
+
+    const KeyframeTrack = track.constructor as new (name: string, times: number[], values: ArrayLike<unknown>) => THREE.KeyframeTrack;
+    const trimmed = new KeyframeTrack(track.name, times.map(t => t - start), values);
+    if (track.getInterpolation() === THREE.InterpolateDiscrete) trimmed.setInterpolation(THREE.InterpolateDiscrete);
+    return trimmed;
+  });
+  return new THREE.AnimationClip(clip.name, end - start, tracks, clip.blendMode);
+};
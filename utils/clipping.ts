@@ -0,0 +1,214 @@
+import * as THREE from 'three';
+import { ClipPlane, ClippingSettings } from '../types';
+
+const AXIS_NORMALS = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1)
+};
+
+export const createClippingSettings = (): ClippingSettings => ({
+  planes: (['x', 'y', 'z'] as const).map(axis => ({
+    enabled: false,
+    axis,
+    position: 0.5,
+    flipped: false,
+    normal: AXIS_NORMALS[axis].toArray() as [number, number, number]
+  })),
+  showGizmos: true,
+  showCaps: false
+});
+
+export const clipPlaneNormal = (plane: ClipPlane) =>
+  plane.axis === 'free' ? new THREE.Vector3(...plane.normal).normalize() : AXIS_NORMALS[plane.axis].clone();
+
+const boxCorners = (box: THREE.Box3) => [0, 1, 2, 3, 4, 5, 6, 7].map(i => new THREE.Vector3(
+  i & 1 ? box.max.x : box.min.x,
+  i & 2 ? box.max.y : box.min.y,
+  i & 4 ? box.max.z : box.min.z
+));
+
+/** Extent of the box projected onto `normal`. */
+export const projectedRange = (box: THREE.Box3, normal: THREE.Vector3) => {
+  const distances = boxCorners(box).map(corner => corner.dot(normal));
+  return { min: Math.min(...distances), max: Math.max(...distances) };
+};
+
+/**
+ * Writes the world-space plane for a clip setting into `target`. Three.js
+ * discards whatever lies on the negative side, so the normal points at the
+ * kept half: everything past `position` along the axis is cut away.
+ */
+export const resolveClipPlane = (plane: ClipPlane, bounds: THREE.Box3, target = new THREE.Plane()) => {
+  const normal = clipPlaneNormal(plane);
+  const { min, max } = projectedRange(bounds, normal);
+  const point = normal.clone().multiplyScalar(THREE.MathUtils.lerp(min, max, plane.position));
+  return target.setFromNormalAndCoplanarPoint(plane.flipped ? normal : normal.negate(), point);
+};
+
+// A clipped vertex is a weighted blend of source vertices
+type BlendVertex = { weights: [number, number][]; position: THREE.Vector3 };
+
+const lerpVertex = (a: BlendVertex, b: BlendVertex, t: number): BlendVertex => ({
+  weights: [
+    ...a.weights.map(([index, weight]): [number, number] => [index, weight * (1 - t)]),
+    ...b.weights.map(([index, weight]): [number, number] => [index, weight * t])
+  ],
+  position: a.position.clone().lerp(b.position, t)
+});
+
+const clipPolygon = (polygon: BlendVertex[], plane: THREE.Plane) => {
+  const result: BlendVertex[] = [];
+  polygon.forEach((current, i) => {
+    const next = polygon[(i + 1) % polygon.length];
+    const d0 = plane.distanceToPoint(current.position);
+    const d1 = plane.distanceToPoint(next.position);
+    if (d0 >= 0) result.push(current);
+    if ((d0 >= 0) !== (d1 >= 0)) result.push(lerpVertex(current, next, d0 / (d0 - d1)));
+  });
+  return result;
+};
+
+type AnyAttribute = THREE.BufferAttribute | THREE.InterleavedBufferAttribute;
+
+const arrayOf = (attribute: AnyAttribute) =>
+  (attribute as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute
+    ? (attribute as THREE.InterleavedBufferAttribute).data.array
+    : (attribute as THREE.BufferAttribute).array;
+
+/**
+ * Rebuilds an attribute for the clipped vertices. Float and normalized data
+ * is interpolated; integer data such as skin indices can't be, so it takes
+ * the value of the most heavily weighted source vertex.
+ */
+const blendAttribute = (attribute: AnyAttribute, vertices: BlendVertex[]) => {
+  const ArrayType = arrayOf(attribute).constructor as new (length: number) => THREE.TypedArray;
+  const itemSize = attribute.itemSize;
+  const output = new THREE.BufferAttribute(new ArrayType(vertices.length * itemSize), itemSize, attribute.normalized);
+  const interpolate = attribute.normalized || ArrayType === Float32Array || ArrayType === Float64Array;
+
+  vertices.forEach((vertex, i) => {
+    if (interpolate) {
+      for (let c = 0; c < itemSize; c++) {
+        let value = 0;
+        vertex.weights.forEach(([index, weight]) => { value += attribute.getComponent(index, c) * weight; });
+        output.setComponent(i, c, value);
+      }
+    } else {
+      const [dominant] = vertex.weights.reduce((best, entry) => entry[1] > best[1] ? entry : best);
+      for (let c = 0; c < itemSize; c++) output.setComponent(i, c, attribute.getComponent(dominant, c));
+    }
+  });
+  return output;
+};
+
+const buildGeometry = (source: THREE.BufferGeometry, vertices: BlendVertex[]) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.name = source.name;
+  geometry.userData = { ...source.userData };
+  Object.entries(source.attributes).forEach(([name, attribute]) => {
+    geometry.setAttribute(name, blendAttribute(attribute, vertices));
+  });
+  Object.entries(source.morphAttributes).forEach(([name, targets]) => {
+    geometry.morphAttributes[name] = targets.map(target => blendAttribute(target, vertices));
+  });
+  geometry.morphTargetsRelative = source.morphTargetsRelative;
+  return geometry;
+};
+
+/**
+ * Cuts triangles against `planes` (in the geometry's own space), keeping the
+ * positive side of every plane. Triangles crossing a plane are split along
+ * it, so the result is non-indexed; material groups are preserved.
+ */
+export const clipGeometry = (source: THREE.BufferGeometry, planes: THREE.Plane[]) => {
+  const position = source.attributes.position;
+  const index = source.index;
+  const vertexAt = (i: number) => index ? index.getX(i) : i;
+  const count = index ? index.count : position.count;
+  const ranges = source.groups.length > 0
+    ? source.groups
+    : [{ start: 0, count, materialIndex: 0 }];
+
+  const vertices: BlendVertex[] = [];
+  const groups: { start: number; count: number; materialIndex?: number }[] = [];
+  const corner = (i: number): BlendVertex => {
+    const vertex = vertexAt(i);
+    return { weights: [[vertex, 1]], position: new THREE.Vector3().fromBufferAttribute(position, vertex) };
+  };
+
+  ranges.forEach(range => {
+    const start = vertices.length;
+    const end = Math.min(range.start + range.count, count);
+    for (let i = range.start; i + 2 < end; i += 3) {
+      let polygon = [corner(i), corner(i + 1), corner(i + 2)];
+      for (const plane of planes) {
+        polygon = clipPolygon(polygon, plane);
+        if (polygon.length < 3) break;
+      }
+      // Fan-triangulate what is left of the triangle (at most 3 + planes corners, always convex)
+      for (let k = 1; k + 1 < polygon.length; k++) {
+        vertices.push(polygon[0], polygon[k], polygon[k + 1]);
+      }
+    }
+    if (vertices.length > start) groups.push({ start, count: vertices.length - start, materialIndex: range.materialIndex });
+  });
+
+  const geometry = buildGeometry(source, vertices);
+  if (source.groups.length > 0) groups.forEach(group => geometry.addGroup(group.start, group.count, group.materialIndex));
+  if (geometry.attributes.normal) geometry.normalizeNormals();
+  return geometry;
+};
+
+/** Keeps only the points on the positive side of every plane. */
+export const clipPointGeometry = (source: THREE.BufferGeometry, planes: THREE.Plane[]) => {
+  const position = source.attributes.position;
+  const point = new THREE.Vector3();
+  const kept: number[] = [];
+  for (let i = 0; i < position.count; i++) {
+    point.fromBufferAttribute(position, i);
+    if (planes.every(plane => plane.distanceToPoint(point) >= 0)) kept.push(i);
+  }
+
+  // Points are copied, never blended, so skip the per-vertex weights used for triangles
+  const geometry = new THREE.BufferGeometry();
+  geometry.name = source.name;
+  geometry.userData = { ...source.userData };
+  Object.entries(source.attributes).forEach(([name, attribute]) => {
+    const ArrayType = arrayOf(attribute).constructor as new (length: number) => THREE.TypedArray;
+    const output = new THREE.BufferAttribute(new ArrayType(kept.length * attribute.itemSize), attribute.itemSize, attribute.normalized);
+    kept.forEach((index, i) => {
+      for (let c = 0; c < attribute.itemSize; c++) output.setComponent(i, c, attribute.getComponent(index, c));
+    });
+    geometry.setAttribute(name, output);
+  });
+  return geometry;
+};
+
+/**
+ * Clips every mesh and point cloud under `root` to the world-space `planes`,
+ * replacing their geometry and dropping objects that are cut away entirely.
+ * Skinned meshes are cut in their bind pose; instanced meshes are left whole.
+ */
+export const clipObject = (root: THREE.Object3D, planes: THREE.Plane[]) => {
+  root.updateMatrixWorld(true);
+  const emptied: THREE.Object3D[] = [];
+  const inverse = new THREE.Matrix4();
+
+  root.traverse(child => {
+    const drawable = child as THREE.Mesh | THREE.Points;
+    const isMesh = (drawable as THREE.Mesh).isMesh && !(drawable as THREE.InstancedMesh).isInstancedMesh;
+    const isPoints = (drawable as THREE.Points).isPoints;
+    if ((!isMesh && !isPoints) || !drawable.geometry?.attributes.position) return;
+
+    inverse.copy(drawable.matrixWorld).invert();
+    const localPlanes = planes.map(plane => plane.clone().applyMatrix4(inverse));
+    drawable.geometry = isPoints
+      ? clipPointGeometry(drawable.geometry, localPlanes)
+      : clipGeometry(drawable.geometry, localPlanes);
+    if (drawable.geometry.attributes.position.count === 0) emptied.push(drawable);
+  });
+
+  emptied.forEach(object => object.removeFromParent());
+  return root;
+};
@@ -0,0 +1,81 @@
+import * as THREE from 'three';
+import { deserializeGeometry, SerializedGeometry } from './geometrySerialization';
+import { createPointOctree, OctreeNodeData } from './pointOctree';
+
+type CopcMessage =
+  | { type: 'open'; file: Blob }
+  | { type: 'node'; key: string };
+
+export type CopcRequest = CopcMessage & { id: number };
+
+export type CopcResponse =
+  | { id: number; type: 'opened'; nodes: OctreeNodeData[]; bounds: [number, number, number, number, number, number]; hasColor: boolean }
+  | { id: number; type: 'node'; geometry: SerializedGeometry | null }
+  | { id: number; type: 'error'; message: string };
+
+// COPC requires its info VLR first, right after the 375-byte LAS 1.4 header; its user id starts 2 bytes in
+const COPC_USER_ID_OFFSET = 377;
+
+/** True for Cloud Optimized Point Cloud files, which can be read node by node. */
+export const isCopcFile = async (file: Blob) => {
+  const head = new Uint8Array(await file.slice(COPC_USER_ID_OFFSET, COPC_USER_ID_OFFSET + 4).arrayBuffer());
+  return new TextDecoder().decode(head) === 'copc';
+};
+
+/**
+ * Opens a COPC file as a progressively loaded point octree. A long-lived
+ * worker holds the file and decodes nodes as the octree asks for them, so
+ * only the hierarchy and the nodes in view are ever read from disk.
+ */
+export const openCopc = async (file: Blob, signal?: AbortSignal) => {
+  const worker = new Worker(new URL('../workers/copc.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (response: CopcResponse) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+
+  const terminate = (error: Error) => {
+    worker.terminate();
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<CopcResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if (response.type === 'error') request.reject(new Error(response.message));
+    else request.resolve(response);
+  };
+  worker.onerror = (event) => terminate(new Error(event.message || 'COPC worker failed'));
+
+  const request = (message: CopcMessage) => new Promise<CopcResponse>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    worker.postMessage({ ...message, id });
+  });
+
+  const onAbort = () => terminate(new DOMException('The operation was aborted.', 'AbortError'));
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const opened = await request({ type: 'open', file });
+    if (opened.type !== 'opened') throw new Error(`Unexpected COPC response: ${opened.type}`);
+    const [minX, minY, minZ, maxX, maxY, maxZ] = opened.bounds;
+    const material = new THREE.PointsMaterial({ vertexColors: opened.hasColor, sizeAttenuation: true });
+
+    return createPointOctree(opened.nodes, material, {
+      bounds: new THREE.Box3(new THREE.Vector3(minX, minY, minZ), new THREE.Vector3(maxX, maxY, maxZ)),
+      loadNode: async key => {
+        const response = await request({ type: 'node', key });
+        if (response.type !== 'node') throw new Error(`Unexpected COPC response: ${response.type}`);
+        return response.geometry ? deserializeGeometry(response.geometry) : null;
+      },
+      onDispose: () => terminate(new DOMException('The operation was aborted.', 'AbortError'))
+    });
+  } catch (e) {
+    terminate(e as Error);
+    throw e;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
@@ -0,0 +1,247 @@
+import * as THREE from 'three';
+import { MeshBVH } from 'three-mesh-bvh';
+import { DeviationSettings, DeviationStats } from '../types';
+import { sampleColormap } from './pointColoring';
+import { isInsideTree, isVisibleInTree } from './sceneGraph';
+
+// Drawn for samples within tolerance
+const PASS_COLOR = new THREE.Color('#22c55e');
+const HISTOGRAM_BINS = 24;
+
+export const createDeviationSettings = (): DeviationSettings => ({
+  signed: true,
+  colormap: 'turbo',
+  tolerance: 0,
+  range: 0,
+  bands: 0
+});
+
+type Sampled = THREE.Mesh | THREE.Points;
+
+/**
+ * Merges the visible meshes under `reference` into one world-space,
+ * position-only geometry to build the BVH on. Meshes that also belong to
+ * `exclude` are left out, so an object is never measured against itself.
+ */
+export const collectReferenceGeometry = (reference: THREE.Object3D, exclude: THREE.Object3D) => {
+  reference.updateWorldMatrix(true, true);
+  const meshes: THREE.Mesh[] = [];
+  reference.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (mesh.isMesh && mesh.geometry?.attributes.position && isVisibleInTree(mesh, reference) && !isInsideTree(mesh, exclude)) meshes.push(mesh);
+  });
+
+  const vertexCount = meshes.reduce((sum, mesh) => sum + mesh.geometry.attributes.position.count, 0);
+  const indexCount = meshes.reduce((sum, mesh) => {
+    const count = mesh.geometry.index ? mesh.geometry.index.count : mesh.geometry.attributes.position.count;
+    return sum + count - (count % 3);
+  }, 0);
+  if (indexCount === 0) return null;
+
+  const positions = new Float32Array(vertexCount * 3);
+  const indices = new Uint32Array(indexCount);
+  const point = new THREE.Vector3();
+  let vertex = 0;
+  let corner = 0;
+  meshes.forEach(mesh => {
+    const { index, attributes } = mesh.geometry;
+    const position = attributes.position;
+    const offset = vertex;
+    for (let i = 0; i < position.count; i++, vertex++) {
+      point.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld).toArray(positions, vertex * 3);
+    }
+    const count = index ? index.count : position.count;
+    for (let i = 0; i < count - (count % 3); i++) indices[corner++] = offset + (index ? index.getX(i) : i);
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+  return geometry;
+};
+
+/** The visible meshes and clouds under `target` (outside `exclude`), with their vertices in world space. */
+export const collectSamples = (target: THREE.Object3D, exclude: THREE.Object3D) => {
+  target.updateWorldMatrix(true, true);
+  const objects: Sampled[] = [];
+  target.traverse(child => {
+    const object = child as Sampled;
+    if ((object as THREE.Mesh).isMesh || (object as THREE.Points).isPoints) {
+      if (object.geometry?.attributes.position && isVisibleInTree(object, target) && !isInsideTree(object, exclude)) objects.push(object);
+    }
+  });
+
+  const total = objects.reduce((sum, object) => sum + object.geometry.attributes.position.count, 0);
+  const positions = new Float32Array(total * 3);
+  const point = new THREE.Vector3();
+  let offset = 0;
+  objects.forEach(object => {
+    const position = object.geometry.attributes.position;
+    for (let i = 0; i < position.count; i++, offset++) {
+      point.fromBufferAttribute(position, i).applyMatrix4(object.matrixWorld).toArray(positions, offset * 3);
+    }
+  });
+  return { objects, positions };
+};
+
+/**
+ * Distance from each position to the nearest point on the reference
+ * surface. The sign follows the face normal there: negative means the
+ * sample lies behind (inside) the reference.
+ */
+export const measureDeviation = (reference: THREE.BufferGeometry, positions: Float32Array) => {
+  const bvh = new MeshBVH(reference);
+  const index = reference.index!;
+  const position = reference.attributes.position;
+  const distances = new Float32Array(positions.length / 3);
+  const point = new THREE.Vector3();
+  const triangle = new THREE.Triangle();
+  const normal = new THREE.Vector3();
+  const hit = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+
+  for (let i = 0; i < distances.length; i++) {
+    point.fromArray(positions, i * 3);
+    if (!bvh.closestPointToPoint(point, hit)) {
+      distances[i] = NaN;
+      continue;
+    }
+    const face = hit.faceIndex * 3;
+    triangle.setFromAttributeAndIndices(position, index.getX(face), index.getX(face + 1), index.getX(face + 2));
+    triangle.getNormal(normal);
+    distances[i] = point.sub(hit.point).dot(normal) < 0 ? -hit.distance : hit.distance;
+  }
+  return distances;
+};
+
+/** The deviations as displayed: unsigned settings fold them onto their magnitude. */
+const displayed = (distance: number, settings: DeviationSettings) => settings.signed ? distance : Math.abs(distance);
+
+export const deviationStats = (distances: Float32Array, settings: DeviationSettings): DeviationStats => {
+  let count = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let squares = 0;
+  let within = 0;
+  distances.forEach(raw => {
+    if (Number.isNaN(raw)) return;
+    const value = displayed(raw, settings);
+    count++;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    sum += value;
+    squares += value * value;
+    if (Math.abs(value) <= settings.tolerance) within++;
+  });
+  if (count === 0) return { count: 0, min: 0, max: 0, mean: 0, rms: 0, withinTolerance: 0, histogram: { start: 0, binSize: 0, bins: [] } };
+
+  const binSize = (max - min) / HISTOGRAM_BINS || 1;
+  const bins = new Array(HISTOGRAM_BINS).fill(0);
+  distances.forEach(raw => {
+    if (!Number.isNaN(raw)) bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((displayed(raw, settings) - min) / binSize))]++;
+  });
+  return { count, min, max, mean: sum / count, rms: Math.sqrt(squares / count), withinTolerance: within / count, histogram: { start: min, binSize, bins } };
+};
+
+/** Distance at the ends of the color scale: the configured range, or the largest deviation. */
+export const deviationRange = (stats: DeviationStats, settings: DeviationSettings) =>
+  settings.range > 0 ? settings.range : Math.max(Math.abs(stats.min), Math.abs(stats.max)) || 1;
+
+/** Heatmap color of one deviation, banded and with the pass color inside the tolerance. */
+export const deviationColor = (distance: number, settings: DeviationSettings, range: number, target: THREE.Color) => {
+  const value = displayed(distance, settings);
+  if (Number.isNaN(value)) return target.setRGB(0.5, 0.5, 0.5);
+  if (settings.tolerance > 0 && Math.abs(value) <= settings.tolerance) return target.copy(PASS_COLOR);
+  let t = settings.signed ? (value / range + 1) / 2 : value / range;
+  if (settings.bands > 0) t = (Math.min(settings.bands - 1, Math.floor(THREE.MathUtils.clamp(t, 0, 1) * settings.bands)) + 0.5) / settings.bands;
+  return sampleColormap(settings.colormap, t, target);
+};
+
+/** CSS color of each histogram bin, taken at its center. */
+export const histogramColors = (stats: DeviationStats, settings: DeviationSettings) => {
+  const range = deviationRange(stats, settings);
+  const color = new THREE.Color();
+  const { start, binSize, bins } = stats.histogram;
+  return bins.map((_, i) => deviationColor(start + (i + 0.5) * binSize, settings, range, color).getStyle());
+};
+
+/**
+ * Draws the sampled objects again on top of themselves, colored by their
+ * deviation. The overlays share the originals' vertex buffers and only add
+ * colors, so the model and its export are left alone. Call `update` every
+ * frame to follow the objects and their visibility.
+ */
+export const createDeviationHeatmap = (objects: Sampled[], root: THREE.Object3D, distances: Float32Array) => {
+  const group = new THREE.Group();
+  const overlays: { source: Sampled; overlay: Sampled; offset: number }[] = [];
+  let offset = 0;
+
+  objects.forEach(source => {
+    const geometry = new THREE.BufferGeometry();
+    const { attributes } = source.geometry;
+    geometry.setAttribute('position', attributes.position);
+    if (attributes.normal) geometry.setAttribute('normal', attributes.normal);
+    geometry.setIndex(source.geometry.index);
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(new Float32Array(attributes.position.count * 3), 3));
+
+    let overlay: Sampled;
+    if ((source as THREE.Points).isPoints) {
+      overlay = new THREE.Points(geometry, new THREE.PointsMaterial({ vertexColors: true }));
+    } else {
+      const material = Array.isArray(source.material) ? source.material[0] : source.material;
+      overlay = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({
+        vertexColors: true,
+        roughness: 0.8,
+        metalness: 0,
+        side: material?.side ?? THREE.FrontSide,
+        // Wins the depth test against the surface it covers
+        polygonOffset: true,
+        polygonOffsetFactor: -1,
+        polygonOffsetUnits: -1
+      }));
+    }
+    overlay.matrixAutoUpdate = false;
+    overlay.raycast = () => {};
+    group.add(overlay);
+    overlays.push({ source, overlay, offset });
+    offset += attributes.position.count;
+  });
+
+  const recolor = (settings: DeviationSettings, range: number) => {
+    const color = new THREE.Color();
+    overlays.forEach(({ overlay, offset }) => {
+      const colors = overlay.geometry.attributes.color as THREE.BufferAttribute;
+      for (let i = 0; i < colors.count; i++) {
+        deviationColor(distances[offset + i], settings, range, color);
+        colors.setXYZ(i, color.r, color.g, color.b);
+      }
+      colors.needsUpdate = true;
+    });
+  };
+
+  const update = () => overlays.forEach(({ source, overlay }) => {
+    overlay.matrix.copy(source.matrixWorld);
+    overlay.visible = isVisibleInTree(source, root);
+    const material = source.material as THREE.PointsMaterial;
+    if (material?.isPointsMaterial) {
+      const points = overlay.material as THREE.PointsMaterial;
+      points.size = material.size;
+      points.sizeAttenuation = material.sizeAttenuation;
+    }
+  });
+  update();
+
+  const dispose = () => {
+    overlays.forEach(({ overlay }) => {
+      // Only the color buffer is the overlay's own
+      overlay.geometry.deleteAttribute('position');
+      overlay.geometry.deleteAttribute('normal');
+      overlay.geometry.setIndex(null);
+      overlay.geometry.dispose();
+      (overlay.material as THREE.Material).dispose();
+    });
+    group.clear();
+  };
+
+  return { group, distances, update, recolor, dispose };
+};
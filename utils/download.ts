@@ -0,0 +1,12 @@
+import { ExportedFile } from '../types';
+
+export const downloadFile = (data: BlobPart, fileName: string, type = 'application/octet-stream'): ExportedFile => {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+  return { name: fileName, size: blob.size };
+};
@@ -0,0 +1,329 @@
+import * as THREE from 'three';
+
+/**
+ * Minimal ASTM E57 reader for the point data of every scan in a file.
+ * Handles paged physical storage (CRC words are skipped, not verified),
+ * compressed vector sections with bit-packed integer, scaled integer and
+ * float fields, cartesian or spherical coordinates, and per-scan poses.
+ * Images and other blobs are ignored.
+ */
+
+interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string) => text.replace(/&(lt|gt|amp|quot|apos);/g, (_, name) => ENTITIES[name]);
+
+// DOMParser is not available in workers, and the E57 XML section only needs elements, attributes and text
+const parseXml = (source: string): XmlNode => {
+  const root: XmlNode = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack = [root];
+  const token = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+  const attribute = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(source))) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closing, name, attrs, selfClosing, text] = match;
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text.trim());
+    } else if (name && closing) {
+      stack.pop();
+    } else if (name) {
+      const node: XmlNode = { name, attributes: {}, children: [], text: '' };
+      let a: RegExpExecArray | null;
+      attribute.lastIndex = 0;
+      while ((a = attribute.exec(attrs))) node.attributes[a[1]] = decodeEntities(a[2] ?? a[3]);
+      current.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+  return root;
+};
+
+const child = (node: XmlNode | undefined, name: string) => node?.children.find(c => c.name === name);
+
+const numberValue = (node: XmlNode | undefined, fallback: number) => {
+  const value = node ? parseFloat(node.text) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+};
+
+/** Translates between physical offsets and the logical byte stream with the page CRCs removed. */
+class PagedReader {
+  private readonly logicalPageSize: number;
+
+  constructor(private readonly bytes: Uint8Array, private readonly pageSize: number) {
+    this.logicalPageSize = pageSize - 4;
+  }
+
+  toLogical(physical: number) {
+    return Math.floor(physical / this.pageSize) * this.logicalPageSize + (physical % this.pageSize);
+  }
+
+  read(logical: number, length: number) {
+    const out = new Uint8Array(length);
+    let written = 0;
+    while (written < length) {
+      const page = Math.floor(logical / this.logicalPageSize);
+      const inPage = logical % this.logicalPageSize;
+      const take = Math.min(length - written, this.logicalPageSize - inPage);
+      const start = page * this.pageSize + inPage;
+      if (start + take > this.bytes.length) throw new Error('E57 section runs past the end of the file');
+      out.set(this.bytes.subarray(start, start + take), written);
+      written += take;
+      logical += take;
+    }
+    return out;
+  }
+}
+
+interface FieldDecoder {
+  name: string;
+  /** Decodes the next value from the field's byte stream. */
+  next: () => number;
+  minimum: number;
+  maximum: number;
+}
+
+const createFieldDecoder = (field: XmlNode, stream: Uint8Array): FieldDecoder => {
+  const type = field.attributes.type;
+  const minimum = parseFloat(field.attributes.minimum ?? '0');
+  const maximum = parseFloat(field.attributes.maximum ?? '0');
+
+  if (type === 'Float') {
+    const view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+    const single = field.attributes.precision === 'single';
+    let offset = 0;
+    return {
+      name: field.name,
+      minimum,
+      maximum,
+      next: () => {
+        const value = single ? view.getFloat32(offset, true) : view.getFloat64(offset, true);
+        offset += single ? 4 : 8;
+        return value;
+      }
+    };
+  }
+
+  if (type !== 'Integer' && type !== 'ScaledInteger') {
+    throw new Error(`Unsupported E57 field type ${type} for ${field.name}`);
+  }
+
+  const scale = type === 'ScaledInteger' ? parseFloat(field.attributes.scale ?? '1') : 1;
+  const offset = type === 'ScaledInteger' ? parseFloat(field.attributes.offset ?? '0') : 0;
+  const bits = Math.ceil(Math.log2(maximum - minimum + 1));
+  let bitPosition = 0;
+
+  // Integers are bit-packed least significant bit first with just enough bits for the field's range
+  return {
+    name: field.name,
+    minimum: minimum * scale + offset,
+    maximum: maximum * scale + offset,
+    next: () => {
+      let raw = 0;
+      let shift = 0;
+      while (shift < bits) {
+        const byte = stream[bitPosition >> 3];
+        const bitOffset = bitPosition & 7;
+        const take = Math.min(8 - bitOffset, bits - shift);
+        raw += ((byte >> bitOffset) & ((1 << take) - 1)) * 2 ** shift;
+        shift += take;
+        bitPosition += take;
+      }
+      return (raw + minimum) * scale + offset;
+    }
+  };
+};
+
+/** Concatenates each field's byte stream across all data packets of a compressed vector section. */
+const readByteStreams = (reader: PagedReader, sectionPhysical: number, fieldCount: number) => {
+  const sectionLogical = reader.toLogical(sectionPhysical);
+  const sectionHeader = new DataView(reader.read(sectionLogical, 32).buffer);
+  if (sectionHeader.getUint8(0) !== 1) throw new Error('E57 points do not point at a compressed vector section');
+  const sectionEnd = sectionLogical + Number(sectionHeader.getBigUint64(8, true));
+
+  const chunks: Uint8Array[][] = Array.from({ length: fieldCount }, () => []);
+  let position = reader.toLogical(Number(sectionHeader.getBigUint64(16, true)));
+  while (position < sectionEnd) {
+    const head = new DataView(reader.read(position, 4).buffer);
+    const packetLength = head.getUint16(2, true) + 1;
+    if (head.getUint8(0) === 1) {
+      const packet = reader.read(position, packetLength);
+      const view = new DataView(packet.buffer);
+      const streamCount = view.getUint16(4, true);
+      let offset = 6 + streamCount * 2;
+      for (let s = 0; s < streamCount; s++) {
+        const length = view.getUint16(6 + s * 2, true);
+        if (s < fieldCount) chunks[s].push(packet.subarray(offset, offset + length));
+        offset += length;
+      }
+    }
+    position += packetLength;
+  }
+
+  return chunks.map(parts => {
+    const stream = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    parts.forEach(p => {
+      stream.set(p, offset);
+      offset += p.length;
+    });
+    return stream;
+  });
+};
+
+interface ScanPoints {
+  positions: Float64Array;
+  colors: Float32Array | null;
+  intensity: Float32Array | null;
+}
+
+const normalize = (value: number, decoder: FieldDecoder) =>
+  decoder.maximum > decoder.minimum ? (value - decoder.minimum) / (decoder.maximum - decoder.minimum) : 0;
+
+const readScan = (reader: PagedReader, scan: XmlNode): ScanPoints | null => {
+  const points = child(scan, 'points');
+  const prototype = child(points, 'prototype');
+  if (!points || !prototype) return null;
+
+  const recordCount = parseInt(points.attributes.recordCount ?? '0', 10);
+  const streams = readByteStreams(reader, parseInt(points.attributes.fileOffset, 10), prototype.children.length);
+  const decoders = prototype.children.map((field, i) => createFieldDecoder(field, streams[i]));
+  const byName = Object.fromEntries(decoders.map(d => [d.name, d]));
+
+  const cartesian = !!byName.cartesianX;
+  if (!cartesian && !byName.sphericalRange) throw new Error('E57 scan has neither cartesian nor spherical coordinates');
+  const hasColor = !!(byName.colorRed && byName.colorGreen && byName.colorBlue);
+  const hasIntensity = !!byName.intensity;
+  const invalidKey = cartesian ? 'cartesianInvalidState' : 'sphericalInvalidState';
+
+  const pose = child(scan, 'pose');
+  const rotation = child(pose, 'rotation');
+  const translation = child(pose, 'translation');
+  const matrix = new THREE.Matrix4().compose(
+    new THREE.Vector3(numberValue(child(translation, 'x'), 0), numberValue(child(translation, 'y'), 0), numberValue(child(translation, 'z'), 0)),
+    new THREE.Quaternion(numberValue(child(rotation, 'x'), 0), numberValue(child(rotation, 'y'), 0), numberValue(child(rotation, 'z'), 0), numberValue(child(rotation, 'w'), 1)),
+    new THREE.Vector3(1, 1, 1)
+  );
+  const e = matrix.elements;
+
+  const positions = new Float64Array(recordCount * 3);
+  const colors = hasColor ? new Float32Array(recordCount * 3) : null;
+  const intensity = hasIntensity ? new Float32Array(recordCount) : null;
+  const record: Record<string, number> = {};
+  const color = new THREE.Color();
+  let kept = 0;
+
+  for (let i = 0; i < recordCount; i++) {
+    // Every field has to be read for every record to keep the streams in step
+    for (const decoder of decoders) record[decoder.name] = decoder.next();
+    if (record[invalidKey] === 2) continue;
+
+    let x: number, y: number, z: number;
+    if (cartesian) {
+      x = record.cartesianX;
+      y = record.cartesianY;
+      z = record.cartesianZ;
+    } else {
+      const range = record.sphericalRange;
+      const azimuth = record.sphericalAzimuth;
+      const elevation = record.sphericalElevation;
+      x = range * Math.cos(elevation) * Math.cos(azimuth);
+      y = range * Math.cos(elevation) * Math.sin(azimuth);
+      z = range * Math.sin(elevation);
+    }
+    positions[kept * 3] = e[0] * x + e[4] * y + e[8] * z + e[12];
+    positions[kept * 3 + 1] = e[1] * x + e[5] * y + e[9] * z + e[13];
+    positions[kept * 3 + 2] = e[2] * x + e[6] * y + e[10] * z + e[14];
+
+    if (colors) {
+      color.setRGB(
+        normalize(record.colorRed, byName.colorRed),
+        normalize(record.colorGreen, byName.colorGreen),
+        normalize(record.colorBlue, byName.colorBlue),
+        THREE.SRGBColorSpace
+      );
+      color.toArray(colors, kept * 3);
+    }
+    if (intensity) intensity[kept] = normalize(record.intensity, byName.intensity);
+    kept++;
+  }
+
+  return {
+    positions: positions.subarray(0, kept * 3),
+    colors: colors ? colors.subarray(0, kept * 3) : null,
+    intensity: intensity ? intensity.subarray(0, kept) : null
+  };
+};
+
+/**
+ * Parses every scan of an E57 file into one point geometry, with scan poses
+ * applied. Like LAS, points are re-centered in double precision and the
+ * offset is kept in `userData.origin`; `intensity` is normalized to 0..1.
+ */
+export const parseE57 = (data: ArrayBuffer): THREE.BufferGeometry => {
+  const bytes = new Uint8Array(data);
+  const header = new DataView(data, 0, 48);
+  if (new TextDecoder().decode(bytes.subarray(0, 8)) !== 'ASTM-E57') throw new Error('Not an E57 file');
+
+  const xmlPhysicalOffset = Number(header.getBigUint64(24, true));
+  const xmlLogicalLength = Number(header.getBigUint64(32, true));
+  const pageSize = Number(header.getBigUint64(40, true));
+  const reader = new PagedReader(bytes, pageSize);
+
+  const xml = new TextDecoder().decode(reader.read(reader.toLogical(xmlPhysicalOffset), xmlLogicalLength));
+  const root = child(parseXml(xml), 'e57Root');
+  const scans = (child(root, 'data3D')?.children ?? [])
+    .map(scan => readScan(reader, scan))
+    .filter((scan): scan is ScanPoints => !!scan);
+  if (scans.length === 0) throw new Error('E57 file contains no point data');
+
+  const count = scans.reduce((sum, scan) => sum + scan.positions.length / 3, 0);
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const { positions } of scans) {
+    for (let i = 0; i < positions.length; i++) {
+      const axis = i % 3;
+      if (positions[i] < min[axis]) min[axis] = positions[i];
+      if (positions[i] > max[axis]) max[axis] = positions[i];
+    }
+  }
+  const origin = min.map((value, axis) => (value + max[axis]) / 2);
+
+  const positions = new Float32Array(count * 3);
+  const hasColor = scans.some(scan => scan.colors);
+  const hasIntensity = scans.some(scan => scan.intensity);
+  const colors = hasColor || hasIntensity ? new Float32Array(count * 3).fill(1) : null;
+  const intensity = hasIntensity ? new Float32Array(count) : null;
+
+  let offset = 0;
+  for (const scan of scans) {
+    const scanCount = scan.positions.length / 3;
+    for (let i = 0; i < scan.positions.length; i++) {
+      positions[offset * 3 + i] = scan.positions[i] - origin[i % 3];
+    }
+    if (intensity && scan.intensity) intensity.set(scan.intensity, offset);
+    if (colors && scan.colors) {
+      colors.set(scan.colors, offset * 3);
+    } else if (colors && scan.intensity) {
+      // Scans without RGB are shaded by intensity, as for LAS
+      for (let i = 0; i < scanCount; i++) colors.fill(scan.intensity[i], (offset + i) * 3, (offset + i) * 3 + 3);
+    }
+    offset += scanCount;
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  if (colors) geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  if (intensity) geometry.setAttribute('intensity', new THREE.BufferAttribute(intensity, 1));
+  geometry.userData.origin = origin;
+  return geometry;
+};
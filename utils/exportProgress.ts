@@ -0,0 +1,62 @@
+import { ExportProgress, ExportStage } from '../types';
+
+export type StageReporter = (stage: ExportStage, fraction?: number) => Promise<void>;
+
+export const EXPORT_STAGE_LABELS: Record<ExportStage, string> = {
+  'clone': 'Cloning scene',
+  'export-scene': 'Exporting glTF',
+  'optimize': 'Optimizing geometry',
+  'compress-geometry': 'Compressing geometry',
+  'encode-textures': 'Encoding textures',
+  'serialize': 'Serializing GLB',
+  'write': 'Writing file'
+};
+
+// Rough share of total export time per stage; texture encoding dominates when enabled.
+const STAGE_WEIGHTS: [ExportStage, number][] = [
+  ['clone', 5],
+  ['export-scene', 15],
+  ['optimize', 15],
+  ['compress-geometry', 10],
+  ['encode-textures', 30],
+  ['serialize', 20],
+  ['write', 5]
+];
+
+const TOTAL_WEIGHT = STAGE_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+
+const nextFrame = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const noopReporter: StageReporter = async () => {};
+
+/**
+ * Builds the reporter threaded through one file's export. Every call checks
+ * the abort signal and yields to the event loop so the overlay can repaint
+ * between heavy synchronous steps.
+ */
+export const createStageReporter = (
+  file: number,
+  fileCount: number,
+  onProgress?: (progress: ExportProgress) => void,
+  signal?: AbortSignal
+): StageReporter => async (stage, fraction = 0) => {
+  signal?.throwIfAborted();
+
+  let weight = 0;
+  for (const [name, stageWeight] of STAGE_WEIGHTS) {
+    if (name === stage) {
+      weight += stageWeight * Math.min(Math.max(fraction, 0), 1);
+      break;
+    }
+    weight += stageWeight;
+  }
+
+  onProgress?.({
+    stage,
+    percent: ((file + weight / TOTAL_WEIGHT) / fileCount) * 100,
+    file,
+    fileCount
+  });
+  await nextFrame();
+  signal?.throwIfAborted();
+};
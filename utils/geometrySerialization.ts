@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+
+type TypedArray = THREE.TypedArray;
+
+export interface SerializedAttribute {
+  array: TypedArray;
+  itemSize: number;
+  normalized: boolean;
+}
+
+export interface SerializedGeometry {
+  attributes: Record<string, SerializedAttribute>;
+  index: SerializedAttribute | null;
+  groups: { start: number; count: number; materialIndex?: number }[];
+  userData: Record<string, unknown>;
+}
+
+export interface SerializedMaterial {
+  name: string;
+  color: number;
+  vertexColors: boolean;
+}
+
+export interface SerializedObject {
+  name: string;
+  kind: 'mesh' | 'points' | 'line';
+  geometry: SerializedGeometry;
+  materials: SerializedMaterial[];
+}
+
+const serializeAttribute = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): SerializedAttribute => {
+  const flat = (attribute as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute
+    ? (attribute as THREE.InterleavedBufferAttribute).clone()
+    : attribute as THREE.BufferAttribute;
+  return { array: flat.array, itemSize: flat.itemSize, normalized: flat.normalized };
+};
+
+export const serializeGeometry = (geometry: THREE.BufferGeometry): SerializedGeometry => {
+  const attributes: Record<string, SerializedAttribute> = {};
+  for (const name of Object.keys(geometry.attributes)) {
+    attributes[name] = serializeAttribute(geometry.attributes[name]);
+  }
+  return {
+    attributes,
+    index: geometry.index ? serializeAttribute(geometry.index) : null,
+    groups: geometry.groups.map(group => ({ ...group })),
+    userData: { ...geometry.userData }
+  };
+};
+
+export const deserializeGeometry = (data: SerializedGeometry): THREE.BufferGeometry => {
+  const geometry = new THREE.BufferGeometry();
+  for (const [name, attribute] of Object.entries(data.attributes)) {
+    geometry.setAttribute(name, new THREE.BufferAttribute(attribute.array, attribute.itemSize, attribute.normalized));
+  }
+  if (data.index) geometry.setIndex(new THREE.BufferAttribute(data.index.array, 1));
+  data.groups.forEach(group => geometry.addGroup(group.start, group.count, group.materialIndex));
+  geometry.userData = data.userData;
+  return geometry;
+};
+
+/** Flattens the drawable children of a loader result (OBJLoader groups and the like). */
+export const serializeObject = (object: THREE.Object3D): SerializedObject[] => {
+  const objects: SerializedObject[] = [];
+  object.traverse(child => {
+    const drawable = child as THREE.Mesh | THREE.Points | THREE.Line;
+    if (!drawable.geometry) return;
+    const kind = (drawable as THREE.Points).isPoints ? 'points' : (drawable as THREE.Line).isLine ? 'line' : 'mesh';
+    const materials = Array.isArray(drawable.material) ? drawable.material : [drawable.material];
+    objects.push({
+      name: drawable.name,
+      kind,
+      geometry: serializeGeometry(drawable.geometry),
+      materials: materials.filter(Boolean).map((material: any) => ({
+        name: material.name,
+        color: material.color ? material.color.getHex() : 0xffffff,
+        vertexColors: !!material.vertexColors
+      }))
+    });
+  });
+  return objects;
+};
+
+export const deserializeObjects = (objects: SerializedObject[]): THREE.Group => {
+  const group = new THREE.Group();
+  for (const data of objects) {
+    const geometry = deserializeGeometry(data.geometry);
+    const materials = data.materials.map(m => {
+      const params = { name: m.name, color: m.color, vertexColors: m.vertexColors };
+      if (data.kind === 'points') return new THREE.PointsMaterial(params);
+      if (data.kind === 'line') return new THREE.LineBasicMaterial(params);
+      return new THREE.MeshPhongMaterial(params);
+    });
+    const material = materials.length === 1 ? materials[0] : materials;
+    const object = data.kind === 'points'
+      ? new THREE.Points(geometry, material)
+      : data.kind === 'line'
+        ? new THREE.LineSegments(geometry, material)
+        : new THREE.Mesh(geometry, material);
+    object.name = data.name;
+    group.add(object);
+  }
+  return group;
+};
+
+/** Collects the distinct buffers backing the serialized data so they can be transferred. */
+export const collectTransferables = (objects: SerializedObject[]): ArrayBuffer[] => {
+  const buffers = new Set<ArrayBuffer>();
+  for (const { geometry } of objects) {
+    Object.values(geometry.attributes).forEach(a => buffers.add(a.array.buffer as ArrayBuffer));
+    if (geometry.index) buffers.add(geometry.index.array.buffer as ArrayBuffer);
+  }
+  return [...buffers];
+};
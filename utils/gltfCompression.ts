@@ -0,0 +1,346 @@
+import { Document, Extension, Node, Primitive, PropertyType, ReaderContext, WebIO, WriterContext } from '@gltf-transform/core';
+import { ALL_EXTENSIONS, EXTMeshoptCompression, KHRTextureBasisu } from '@gltf-transform/extensions';
+import { compactPrimitive, draco, getTextureColorSpace, listTextureSlots, quantize, reorder } from '@gltf-transform/functions';
+import draco3d, { EncoderModule } from 'draco3dgltf';
+import dracoEncoderWasmUrl from 'draco3dgltf/draco_encoder.wasm?url';
+import { encodeToKTX2 } from 'ktx2-encoder';
+import { strToU8, zipSync } from 'fflate';
+import { MeshoptEncoder } from 'meshoptimizer';
+import { ExportConfig, TextureReport } from '../types';
+import { noopReporter, StageReporter } from './exportProgress';
+
+export interface CompressionResult {
+  /** A GLB, or a zip of .gltf, .bin and textures when exporting to separate glTF. */
+  data: Uint8Array;
+  textures: TextureReport[];
+}
+
+let dracoEncoder: Promise<EncoderModule> | null = null;
+
+// The encoder is served from our own bundle so export keeps working offline.
+const getDracoEncoder = () => {
+  if (!dracoEncoder) {
+    dracoEncoder = draco3d.createEncoderModule({
+      locateFile: () => dracoEncoderWasmUrl
+    });
+  }
+  return dracoEncoder;
+};
+
+const MSFT_LOD = 'MSFT_lod';
+
+/**
+ * Write-only MSFT_lod support. glTF-Transform ships no implementation and
+ * PolyPress never reads LOD chains back, so the extension only stamps the
+ * `ids` and `MSFT_screencoverage` onto the highest-detail node.
+ */
+class MSFTLod extends Extension {
+  static readonly EXTENSION_NAME = MSFT_LOD;
+  readonly extensionName = MSFT_LOD;
+  private chains = new Map<Node, { levels: Node[]; coverage: number[] }>();
+
+  setLevels(node: Node, levels: Node[], coverage: number[]) {
+    this.chains.set(node, { levels, coverage });
+    return this;
+  }
+
+  read(_context: ReaderContext) {
+    return this;
+  }
+
+  write(context: WriterContext) {
+    const nodeDefs = context.jsonDoc.json.nodes || [];
+    for (const [node, { levels, coverage }] of this.chains) {
+      const index = context.nodeIndexMap.get(node);
+      if (index === undefined) continue;
+      const nodeDef = nodeDefs[index];
+      nodeDef.extensions = {
+        ...nodeDef.extensions,
+        [MSFT_LOD]: { ids: levels.map(level => context.nodeIndexMap.get(level)) }
+      };
+      nodeDef.extras = { ...nodeDef.extras, MSFT_screencoverage: coverage };
+    }
+    return this;
+  }
+}
+
+export const LOD_NODE_PREFIX = 'LOD';
+
+/**
+ * Expects the exported scene to hold one root node per level, named LOD0,
+ * LOD1, ... Lower levels are detached from the scene and referenced from
+ * LOD0 through MSFT_lod instead.
+ */
+const linkLodChain = (document: Document, ratios: number[]) => {
+  const scene = document.getRoot().getDefaultScene() || document.getRoot().listScenes()[0];
+  if (!scene) return;
+
+  const roots = ratios.map((_, i) => scene.listChildren().find(node => node.getName() === `${LOD_NODE_PREFIX}${i}`));
+  const [base, ...levels] = roots;
+  if (!base || levels.some(level => !level)) return;
+
+  levels.forEach(level => scene.removeChild(level!));
+  // Switch to the next level once the model covers less screen than its triangle share.
+  const coverage = ratios.map((_, i) => (i + 1 < ratios.length ? ratios[i + 1] / 100 : 0));
+  document.createExtension(MSFTLod).setLevels(base, levels as Node[], coverage);
+};
+
+const createIO = async (config: ExportConfig) => {
+  const io = new WebIO().registerExtensions([...ALL_EXTENSIONS, MSFTLod]);
+  if (config.draco) {
+    io.registerDependencies({ 'draco3d.encoder': await getDracoEncoder() });
+  }
+  if (config.meshopt) {
+    await MeshoptEncoder.ready;
+    io.registerDependencies({ 'meshopt.encoder': MeshoptEncoder });
+  }
+  return io;
+};
+
+const CACHE_SIZE = 16;
+
+/**
+ * Port of meshopt_optimizeOverdraw, which the JS bindings do not expose.
+ * Triangles are split into clusters wherever the vertex cache restarts, and
+ * clusters are sorted so outward-facing ones are drawn first. Only the
+ * cluster order changes, so the cache-friendly order within each cluster
+ * survives.
+ */
+const optimizeOverdraw = (primitive: Primitive) => {
+  const indexAccessor = primitive.getIndices();
+  const positionAccessor = primitive.getAttribute('POSITION');
+  if (!indexAccessor || !positionAccessor || primitive.getMode() !== Primitive.Mode.TRIANGLES) return;
+
+  const indices = indexAccessor.getArray()!;
+  const triangleCount = Math.floor(indices.length / 3);
+  if (triangleCount < 2) return;
+
+  const positions = new Float32Array(positionAccessor.getCount() * 3);
+  const element: number[] = [];
+  for (let i = 0; i < positionAccessor.getCount(); i++) {
+    positionAccessor.getElement(i, element);
+    positions.set(element, i * 3);
+  }
+
+  // Hard boundaries: triangles that miss the cache on all three vertices.
+  const timestamps = new Uint32Array(positionAccessor.getCount());
+  let time = CACHE_SIZE + 1;
+  const clusterStarts: number[] = [0];
+  for (let t = 0; t < triangleCount; t++) {
+    let misses = 0;
+    for (let k = 0; k < 3; k++) {
+      const v = indices[t * 3 + k];
+      if (time - timestamps[v] > CACHE_SIZE) {
+        timestamps[v] = time++;
+        misses++;
+      }
+    }
+    if (t > 0 && misses === 3) clusterStarts.push(t);
+  }
+  if (clusterStarts.length < 2) return;
+
+  const meshCentroid = [0, 0, 0];
+  let meshArea = 0;
+  const clusters = clusterStarts.map((start, c) => {
+    const end = clusterStarts[c + 1] ?? triangleCount;
+    const centroid = [0, 0, 0];
+    const normal = [0, 0, 0];
+    let area = 0;
+    for (let t = start; t < end; t++) {
+      const a = indices[t * 3] * 3, b = indices[t * 3 + 1] * 3, d = indices[t * 3 + 2] * 3;
+      const e1 = [positions[b] - positions[a], positions[b + 1] - positions[a + 1], positions[b + 2] - positions[a + 2]];
+      const e2 = [positions[d] - positions[a], positions[d + 1] - positions[a + 1], positions[d + 2] - positions[a + 2]];
+      const n = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+      const triArea = Math.hypot(n[0], n[1], n[2]);
+      for (let k = 0; k < 3; k++) {
+        centroid[k] += (positions[a + k] + positions[b + k] + positions[d + k]) / 3 * triArea;
+        normal[k] += n[k];
+      }
+      area += triArea;
+    }
+    for (let k = 0; k < 3; k++) meshCentroid[k] += centroid[k];
+    meshArea += area;
+    return { start, end, centroid, normal, area };
+  });
+
+  if (meshArea === 0) return;
+  for (let k = 0; k < 3; k++) meshCentroid[k] /= meshArea;
+
+  const sortKey = (cluster: typeof clusters[number]) => {
+    const length = Math.hypot(cluster.normal[0], cluster.normal[1], cluster.normal[2]);
+    if (cluster.area === 0 || length === 0) return 0;
+    let key = 0;
+    for (let k = 0; k < 3; k++) {
+      key += (cluster.centroid[k] / cluster.area - meshCentroid[k]) * (cluster.normal[k] / length);
+    }
+    return key;
+  };
+
+  const sorted = clusters.map(c => ({ cluster: c, key: sortKey(c) })).sort((a, b) => b.key - a.key);
+  const reordered = new (indices.constructor as any)(indices.length);
+  let offset = 0;
+  for (const { cluster } of sorted) {
+    reordered.set(indices.subarray(cluster.start * 3, cluster.end * 3), offset);
+    offset += (cluster.end - cluster.start) * 3;
+  }
+  reordered.set(indices.subarray(offset), offset);
+  indexAccessor.setArray(reordered);
+};
+
+/**
+ * Renumbers a primitive's vertices in the order its triangles first use
+ * them, which is what meshopt's vertex fetch optimizer does. Vertex streams
+ * shared with other primitives are left alone, as their order has to suit
+ * every primitive reading them.
+ */
+const optimizeVertexFetch = (prim: Primitive) => {
+  const indices = prim.getIndices();
+  if (!indices) return;
+  const owners = new Set<unknown>([prim, ...prim.listTargets()]);
+  const accessors = [indices, ...prim.listAttributes(), ...prim.listTargets().flatMap(target => target.listAttributes())];
+  const isShared = accessors.some(accessor =>
+    accessor.listParents().some(parent => parent.propertyType !== PropertyType.ROOT && !owners.has(parent)));
+  if (!isShared) compactPrimitive(prim);
+};
+
+/**
+ * Runs meshopt's passes in the order they build on each other: vertex
+ * cache, overdraw, then vertex fetch. reorder() does the cache and fetch
+ * passes together, so after the overdraw pass has moved triangles the
+ * fetch order is redone.
+ */
+const optimizeWithMeshopt = async (document: Document, config: ExportConfig) => {
+  await document.transform(reorder({ encoder: MeshoptEncoder, target: 'performance' }));
+
+  if (config.meshoptSettings.optimizeOverdraw) {
+    for (const mesh of document.getRoot().listMeshes()) {
+      mesh.listPrimitives().forEach(prim => {
+        optimizeOverdraw(prim);
+        optimizeVertexFetch(prim);
+      });
+    }
+  }
+};
+
+/**
+ * Optionally quantizes attributes, then marks buffers for
+ * EXT_meshopt_compression. The actual encoding happens on write, losslessly
+ * unless the lossy filters are asked for.
+ */
+const compressWithMeshopt = async (document: Document, config: ExportConfig) => {
+  if (config.meshoptSettings.quantize) {
+    await document.transform(quantize());
+  }
+
+  document.createExtension(EXTMeshoptCompression)
+    .setRequired(true)
+    .setEncoderOptions({
+      method: config.meshoptSettings.filter ? EXTMeshoptCompression.EncoderMethod.FILTER : EXTMeshoptCompression.EncoderMethod.QUANTIZE
+    });
+};
+
+/**
+ * Re-encodes every texture as KTX2. Normal maps go through UASTC to keep
+ * their precision, everything else uses the much smaller ETC1S codec.
+ */
+const encodeTextures = async (document: Document, report: StageReporter): Promise<TextureReport[]> => {
+  const reports: TextureReport[] = [];
+  const textures = document.getRoot().listTextures();
+  if (textures.length === 0) return reports;
+
+  for (const [index, texture] of textures.entries()) {
+    await report('encode-textures', index / textures.length);
+    const image = texture.getImage();
+    if (!image || texture.getMimeType() === 'image/ktx2') continue;
+
+    const slots = listTextureSlots(texture);
+    const isNormalMap = slots.includes('normalTexture');
+    const isSRGB = getTextureColorSpace(texture) === 'srgb';
+    const [width, height] = texture.getSize() || [0, 0];
+
+    const encoded = await encodeToKTX2(image, isNormalMap
+      ? { isUASTC: true, isNormalMap: true, isPerceptual: false, isSetKTX2SRGBTransferFunc: false, generateMipmap: true }
+      : { isUASTC: false, isPerceptual: isSRGB, isSetKTX2SRGBTransferFunc: isSRGB, generateMipmap: true }
+    );
+
+    texture.setImage(encoded).setMimeType('image/ktx2');
+    const uri = texture.getURI();
+    if (uri) texture.setURI(uri.replace(/\.[^/.]+$/, '.ktx2'));
+
+    reports.push({
+      name: texture.getName() || `Texture ${index + 1}`,
+      slots,
+      codec: isNormalMap ? 'UASTC' : 'ETC1S',
+      width,
+      height,
+      originalSize: image.byteLength,
+      compressedSize: encoded.byteLength
+    });
+  }
+
+  // Images without data or already in KTX2 are left alone, and need no extension
+  if (reports.length > 0) document.createExtension(KHRTextureBasisu).setRequired(true);
+  return reports;
+};
+
+// Writes the document as .gltf with external buffers and images, bundled into one zip download
+const packSeparateGLTF = async (io: WebIO, document: Document, fileName: string) => {
+  const basename = fileName.replace(/\.[^/.]+$/, '');
+  const { json, resources } = await io.writeJSON(document, { basename });
+  return zipSync({
+    [`${basename}.gltf`]: strToU8(JSON.stringify(json, null, 2)),
+    ...resources
+  });
+};
+
+/**
+ * Post-export pass over a GLB produced by GLTFExporter. Re-reads the binary,
+ * applies the compression extensions selected in the export config and
+ * serializes it again, reporting each stage as it starts.
+ */
+export const compressGLB = async (
+  glb: ArrayBuffer,
+  config: ExportConfig,
+  report: StageReporter = noopReporter
+): Promise<CompressionResult> => {
+  await report('optimize');
+  const io = await createIO(config);
+  const document = await io.readBinary(new Uint8Array(glb));
+  let textures: TextureReport[] = [];
+
+  if (config.meshopt) {
+    await optimizeWithMeshopt(document, config);
+  }
+
+  await report('compress-geometry');
+  if (config.draco) {
+    const { positionBits, normalBits, uvBits, colorBits } = config.dracoSettings;
+    await document.transform(
+      draco({
+        method: 'edgebreaker',
+        quantizePosition: positionBits,
+        quantizeNormal: normalBits,
+        quantizeTexcoord: uvBits,
+        quantizeColor: colorBits
+      })
+    );
+  }
+
+  if (config.meshopt) {
+    await compressWithMeshopt(document, config);
+  }
+
+  if (config.ktx2) {
+    textures = await encodeTextures(document, report);
+  }
+
+  if (config.lod.enabled && config.lod.packing === 'msft_lod') {
+    linkLodChain(document, config.lod.ratios);
+  }
+
+  await report('serialize');
+  const data = config.format === 'gltf'
+    ? await packSeparateGLTF(io, document, config.fileName)
+    : await io.writeBinary(document);
+  return { data, textures };
+};
@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import { Las } from 'copc';
+import { createLazPerf } from 'laz-perf/lib/worker/index.js';
+import lazPerfWasmUrl from 'laz-perf/lib/worker/laz-perf.wasm?url';
+
+type LazPerf = Awaited<ReturnType<typeof createLazPerf>>;
+
+let lazPerf: Promise<LazPerf> | null = null;
+
+// Like the Draco encoder, the LAZ decoder is served from our own bundle.
+export const getLazPerf = () => {
+  if (!lazPerf) {
+    lazPerf = createLazPerf({ locateFile: () => lazPerfWasmUrl });
+  }
+  return lazPerf;
+};
+
+const isCompressed = (buffer: Uint8Array) => (buffer[104] & 0x80) !== 0;
+
+type LasView = ReturnType<typeof Las.View.create>;
+
+/** The point a LAS header's bounds are re-centered on. */
+export const lasOrigin = (header: Las.Header) => header.min.map((min, i) => (min + header.max[i]) / 2);
+
+/**
+ * Parses a LAS or LAZ file into point geometry. Coordinates are re-centered
+ * on the header bounds in double precision before being narrowed to float32,
+ * since georeferenced lidar coordinates overflow float32 precision; the
+ * removed offset is kept in `userData.origin`.
+ *
+ * Besides `position` and `color`, the geometry carries `intensity`
+ * (normalized to 0..1) and `classification` (ASPRS class codes).
+ */
+export const parseLAS = async (data: ArrayBuffer): Promise<THREE.BufferGeometry> => {
+  const file = new Uint8Array(data);
+  const header = Las.Header.parse(file);
+  const pointData = isCompressed(file)
+    ? await Las.PointData.decompressFile(file, await getLazPerf())
+    : file.subarray(header.pointDataOffset, header.pointDataOffset + header.pointCount * header.pointDataRecordLength);
+
+  return lasViewGeometry(Las.View.create(pointData, header), lasOrigin(header));
+};
+
+/** Builds point geometry from decoded LAS records, shifted by `origin`. */
+export const lasViewGeometry = (view: LasView, origin: number[]) => {
+  const count = view.pointCount;
+
+  const getX = view.getter('X');
+  const getY = view.getter('Y');
+  const getZ = view.getter('Z');
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    positions[i * 3] = getX(i) - origin[0];
+    positions[i * 3 + 1] = getY(i) - origin[1];
+    positions[i * 3 + 2] = getZ(i) - origin[2];
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+
+  let maxIntensity = 0;
+  const intensity = new Float32Array(count);
+  if (view.dimensions.Intensity) {
+    const getIntensity = view.getter('Intensity');
+    for (let i = 0; i < count; i++) {
+      intensity[i] = getIntensity(i);
+      if (intensity[i] > maxIntensity) maxIntensity = intensity[i];
+    }
+    // Intensity is nominally 16-bit, but many writers only use the low byte
+    const scale = maxIntensity > 0 ? 1 / (maxIntensity > 255 ? 65535 : 255) : 0;
+    for (let i = 0; i < count; i++) intensity[i] *= scale;
+    geometry.setAttribute('intensity', new THREE.BufferAttribute(intensity, 1));
+  }
+
+  if (view.dimensions.Classification) {
+    const getClass = view.getter('Classification');
+    const classification = new Uint8Array(count);
+    for (let i = 0; i < count; i++) classification[i] = getClass(i);
+    geometry.setAttribute('classification', new THREE.BufferAttribute(classification, 1));
+  }
+
+  const colors = new Float32Array(count * 3);
+  if (view.dimensions.Red) {
+    const getRed = view.getter('Red');
+    const getGreen = view.getter('Green');
+    const getBlue = view.getter('Blue');
+    let maxChannel = 0;
+    for (let i = 0; i < count; i++) {
+      colors[i * 3] = getRed(i);
+      colors[i * 3 + 1] = getGreen(i);
+      colors[i * 3 + 2] = getBlue(i);
+      maxChannel = Math.max(maxChannel, colors[i * 3], colors[i * 3 + 1], colors[i * 3 + 2]);
+    }
+    // Same story as intensity: 8-bit colors stored in 16-bit fields are common
+    const scale = 1 / (maxChannel > 255 ? 65535 : 255);
+    const color = new THREE.Color();
+    for (let i = 0; i < count; i++) {
+      color.setRGB(colors[i * 3] * scale, colors[i * 3 + 1] * scale, colors[i * 3 + 2] * scale, THREE.SRGBColorSpace);
+      color.toArray(colors, i * 3);
+    }
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  } else if (maxIntensity > 0) {
+    // Without RGB, shade by intensity so the scan is still readable
+    for (let i = 0; i < count; i++) colors.fill(intensity[i], i * 3, i * 3 + 3);
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  }
+
+  geometry.userData.origin = origin;
+  return geometry;
+};
@@ -0,0 +1,166 @@
+import * as THREE from 'three';
+import { MaterialEdit, MaterialInfo, MaterialTexture } from '../types';
+import { TEXTURE_SLOTS } from './modelStats';
+
+// Slots offered for swapping in the inspector; the rest are listed read-only
+export const EDITABLE_TEXTURE_SLOTS = ['map', 'normalMap', 'roughnessMap', 'metalnessMap', 'emissiveMap', 'aoMap', 'alphaMap'];
+
+// Slots holding color data rather than linear values
+const COLOR_TEXTURE_SLOTS = ['map', 'emissiveMap', 'sheenColorMap', 'specularColorMap'];
+
+const THUMBNAIL_SIZE = 64;
+const thumbnails = new WeakMap<THREE.Texture, string>();
+
+const textureThumbnail = (texture: THREE.Texture) => {
+  const cached = thumbnails.get(texture);
+  if (cached !== undefined) return cached;
+
+  let thumbnail = '';
+  const image = texture.image as any;
+  if (image?.width && image?.height && !(texture as THREE.CompressedTexture).isCompressedTexture) {
+    const canvas = document.createElement('canvas');
+    const scale = THUMBNAIL_SIZE / Math.max(image.width, image.height);
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const context = canvas.getContext('2d');
+    if (context) {
+      try {
+        if (image.data instanceof Uint8Array || image.data instanceof Uint8ClampedArray) {
+          // Data textures: only 8-bit RGBA can be shown as-is
+          if (image.data.length === image.width * image.height * 4) {
+            const source = document.createElement('canvas');
+            source.width = image.width;
+            source.height = image.height;
+            source.getContext('2d')!.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+            context.drawImage(source, 0, 0, canvas.width, canvas.height);
+            thumbnail = canvas.toDataURL();
+          }
+        } else if (!image.data) {
+          context.drawImage(image, 0, 0, canvas.width, canvas.height);
+          thumbnail = canvas.toDataURL();
+        }
+      } catch {
+        // Tainted or undecodable images just go without a preview
+      }
+    }
+  }
+  thumbnails.set(texture, thumbnail);
+  return thumbnail;
+};
+
+const describeMaterial = (material: THREE.Material, meshes: number): MaterialInfo => {
+  const m = material as any;
+  const textures: MaterialTexture[] = TEXTURE_SLOTS
+    .filter(slot => m[slot]?.isTexture)
+    .map(slot => {
+      const texture = m[slot] as THREE.Texture;
+      const image = texture.image as any;
+      return {
+        slot,
+        name: texture.name || image?.src?.split('/').pop() || slot,
+        width: image?.width ?? 0,
+        height: image?.height ?? 0,
+        thumbnail: textureThumbnail(texture)
+      };
+    });
+
+  return {
+    id: material.uuid,
+    name: material.name || material.type,
+    type: material.type,
+    sourceType: material.userData.sourceType,
+    color: m.color?.isColor ? `#${m.color.getHexString()}` : null,
+    emissive: m.emissive?.isColor ? `#${m.emissive.getHexString()}` : null,
+    emissiveIntensity: typeof m.emissiveIntensity === 'number' ? m.emissiveIntensity : null,
+    roughness: typeof m.roughness === 'number' ? m.roughness : null,
+    metalness: typeof m.metalness === 'number' ? m.metalness : null,
+    opacity: material.opacity,
+    doubleSided: material.side === THREE.DoubleSide,
+    textures,
+    editableSlots: EDITABLE_TEXTURE_SLOTS.filter(slot => slot in material),
+    meshes
+  };
+};
+
+/** Lists every material in the model once, in traversal order. */
+export const collectMaterials = (object: THREE.Object3D): MaterialInfo[] => {
+  const counts = new Map<THREE.Material, number>();
+  object.traverse(child => {
+    const material = (child as THREE.Mesh).material;
+    if (!material) return;
+    (Array.isArray(material) ? material : [material]).forEach(m => counts.set(m, (counts.get(m) ?? 0) + 1));
+  });
+  return [...counts].map(([material, meshes]) => describeMaterial(material, meshes));
+};
+
+export const findMaterial = (object: THREE.Object3D, id: string) => {
+  let found: THREE.Material | undefined;
+  object.traverse(child => {
+    const material = (child as THREE.Mesh).material;
+    if (!material || found) return;
+    found = (Array.isArray(material) ? material : [material]).find(m => m.uuid === id);
+  });
+  return found;
+};
+
+/**
+ * Applies inspector edits in place. The export clones share these material
+ * instances, so edits are carried into every export format.
+ */
+export const applyMaterialEdit = (material: THREE.Material, edit: MaterialEdit) => {
+  const m = material as any;
+  if (edit.color !== undefined && m.color?.isColor) m.color.set(edit.color);
+  if (edit.emissive !== undefined && m.emissive?.isColor) m.emissive.set(edit.emissive);
+  if (edit.emissiveIntensity !== undefined && 'emissiveIntensity' in m) m.emissiveIntensity = edit.emissiveIntensity;
+  if (edit.roughness !== undefined && 'roughness' in m) m.roughness = edit.roughness;
+  if (edit.metalness !== undefined && 'metalness' in m) m.metalness = edit.metalness;
+
+  if (edit.opacity !== undefined) {
+    // Remember how the material was authored so going back to 1 restores it
+    if (material.userData.authoredTransparent === undefined) material.userData.authoredTransparent = material.transparent;
+    material.opacity = edit.opacity;
+    material.transparent = edit.opacity < 1 || material.userData.authoredTransparent;
+    material.needsUpdate = true;
+  }
+  if (edit.doubleSided !== undefined) {
+    if (material.userData.authoredSide === undefined) material.userData.authoredSide = material.side;
+    const authored = material.userData.authoredSide === THREE.DoubleSide ? THREE.FrontSide : material.userData.authoredSide;
+    material.side = edit.doubleSided ? THREE.DoubleSide : authored;
+    material.needsUpdate = true;
+  }
+};
+
+/**
+ * Decodes an image file into a texture for `slot`. Orientation, wrapping and
+ * UV channel follow the texture being replaced, or `flipY` when the slot is
+ * empty, so the new image lines up with the model's UVs.
+ */
+export const loadTextureFile = async (file: File, slot: string, previous: THREE.Texture | null, flipY: boolean) => {
+  const url = URL.createObjectURL(file);
+  try {
+    const texture = await new THREE.TextureLoader().loadAsync(url);
+    texture.name = file.name.replace(/\.[^.]+$/, '');
+    texture.colorSpace = COLOR_TEXTURE_SLOTS.includes(slot) ? THREE.SRGBColorSpace : THREE.NoColorSpace;
+    texture.flipY = previous ? previous.flipY : flipY;
+    if (previous) {
+      texture.wrapS = previous.wrapS;
+      texture.wrapT = previous.wrapT;
+      texture.channel = previous.channel;
+    } else {
+      texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+    }
+    texture.needsUpdate = true;
+    return texture;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const setMaterialTexture = (material: THREE.Material, slot: string, texture: THREE.Texture | null) => {
+  const m = material as any;
+  m[slot] = texture;
+  // An emissive map is multiplied by the emissive color, which is usually black
+  if (slot === 'emissiveMap' && texture && m.emissive?.getHex() === 0) m.emissive.set(0xffffff);
+  // Adding or removing a map changes the shader defines
+  material.needsUpdate = true;
+};
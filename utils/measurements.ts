@@ -0,0 +1,118 @@
+import * as THREE from 'three';
+import { Measurement, MeasurementKind, MeasurementUnit } from '../types';
+
+export const MEASUREMENT_UNITS: MeasurementUnit[] = ['mm', 'cm', 'm', 'in'];
+
+/** Length of each unit in meters. */
+export const UNIT_METERS: Record<MeasurementUnit, number> = { mm: 0.001, cm: 0.01, m: 1, in: 0.0254 };
+
+/** Points that complete a measurement; areas stay open until closed by the user. */
+export const MEASUREMENT_POINTS: Record<MeasurementKind, number | null> = {
+  distance: 2,
+  angle: 3,
+  area: null
+};
+
+const vector = (point: [number, number, number]) => new THREE.Vector3(...point);
+
+/**
+ * Builds a measurement from picked points. Angles are measured at the middle
+ * point; areas use the vector area of the closed outline, which is exact for
+ * planar polygons.
+ */
+export const createMeasurement = (kind: MeasurementKind, points: [number, number, number][]): Measurement => {
+  const vectors = points.map(vector);
+  let value = 0;
+  let perimeter: number | undefined;
+
+  if (kind === 'distance') {
+    value = vectors[0].distanceTo(vectors[1]);
+  } else if (kind === 'angle') {
+    const a = vectors[0].clone().sub(vectors[1]);
+    const b = vectors[2].clone().sub(vectors[1]);
+    value = THREE.MathUtils.radToDeg(a.angleTo(b));
+  } else {
+    const sum = new THREE.Vector3();
+    perimeter = 0;
+    vectors.forEach((current, i) => {
+      const next = vectors[(i + 1) % vectors.length];
+      sum.add(new THREE.Vector3().crossVectors(current, next));
+      perimeter! += current.distanceTo(next);
+    });
+    value = sum.length() / 2;
+  }
+
+  return { id: THREE.MathUtils.generateUUID(), kind, points, value, perimeter };
+};
+
+const formatNumber = (value: number) => value >= 1000 ? value.toFixed(0) : value >= 1 ? value.toFixed(3) : value.toPrecision(3);
+
+export const formatMeasurement = (measurement: Measurement, unit: MeasurementUnit) => {
+  if (measurement.kind === 'angle') return `${measurement.value.toFixed(1)}°`;
+  if (measurement.kind === 'area') return `${formatNumber(measurement.value)} ${unit}²`;
+  return `${formatNumber(measurement.value)} ${unit}`;
+};
+
+/**
+ * Picks the point a measurement click lands on: the exact point of a point
+ * cloud hit, otherwise the surface hit, snapped to the nearest corner of the
+ * hit triangle when it is within `snapRadius`. Returns world coordinates.
+ */
+export const pickMeasurePoint = (intersection: THREE.Intersection, snapToVertices: boolean, snapRadius: number) => {
+  const object = intersection.object as THREE.Mesh | THREE.Points;
+  const position = object.geometry?.attributes.position;
+
+  if ((object as THREE.Points).isPoints && position && intersection.index !== undefined) {
+    return new THREE.Vector3().fromBufferAttribute(position, intersection.index).applyMatrix4(object.matrixWorld);
+  }
+
+  const point = intersection.point.clone();
+  if (snapToVertices && intersection.face && (object as THREE.Mesh).isMesh) {
+    const mesh = object as THREE.Mesh;
+    const { a, b, c } = intersection.face;
+    let nearest: THREE.Vector3 | null = null;
+    let nearestDistance = snapRadius;
+    for (const index of [a, b, c]) {
+      // getVertexPosition applies morph targets and skinning, so snapping follows animation
+      const corner = mesh.getVertexPosition(index, new THREE.Vector3());
+      if ((mesh as THREE.InstancedMesh).isInstancedMesh && intersection.instanceId !== undefined) {
+        const instanceMatrix = new THREE.Matrix4();
+        (mesh as THREE.InstancedMesh).getMatrixAt(intersection.instanceId, instanceMatrix);
+        corner.applyMatrix4(instanceMatrix);
+      }
+      corner.applyMatrix4(mesh.matrixWorld);
+      const distance = corner.distanceTo(point);
+      if (distance < nearestDistance) {
+        nearest = corner;
+        nearestDistance = distance;
+      }
+    }
+    if (nearest) return nearest;
+  }
+  return point;
+};
+
+export const measurementsToJSON = (measurements: Measurement[], unit: MeasurementUnit) =>
+  JSON.stringify({
+    unit,
+    measurements: measurements.map(({ kind, value, perimeter, points }, i) => ({
+      index: i + 1,
+      kind,
+      value,
+      valueUnit: kind === 'angle' ? 'deg' : kind === 'area' ? `${unit}2` : unit,
+      ...(perimeter !== undefined ? { perimeter } : {}),
+      points
+    }))
+  }, null, 2);
+
+export const measurementsToCSV = (measurements: Measurement[], unit: MeasurementUnit) => {
+  const rows = measurements.map(({ kind, value, perimeter, points }, i) => [
+    i + 1,
+    kind,
+    value,
+    kind === 'angle' ? 'deg' : kind === 'area' ? `${unit}2` : unit,
+    perimeter ?? '',
+    `"${points.map(p => p.join(' ')).join('; ')}"`
+  ].join(','));
+  return ['index,kind,value,unit,perimeter,points', ...rows].join('\n');
+};
@@ -0,0 +1,503 @@
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { MeshFix, ValidationCheck, ValidationIssue } from '../types';
+import { TEXTURE_SLOTS } from './modelStats';
+
+// Many mobile GPUs and engines refuse textures past this size
+const MAX_TEXTURE_SIZE = 4096;
+// Positions closer than this fraction of the mesh's size are the same point
+const WELD_TOLERANCE = 1e-6;
+// Triangles below this fraction of the mesh's size, squared, have no area to speak of
+const AREA_TOLERANCE = 1e-12;
+
+export const VALIDATION_LABELS: Record<ValidationCheck, string> = {
+  'nan': 'Invalid Positions',
+  'degenerate': 'Degenerate Triangles',
+  'duplicate': 'Duplicate Triangles',
+  'non-manifold': 'Non-Manifold Edges',
+  'holes': 'Holes',
+  'flipped': 'Flipped Triangles',
+  'unwelded': 'Unwelded Vertices',
+  'missing-uvs': 'Missing UVs',
+  'missing-tangents': 'Missing Tangents',
+  'oversized-texture': 'Oversized Textures'
+};
+
+export const MESH_FIX_LABELS: Record<MeshFix, string> = {
+  'weld': 'Weld Vertices',
+  'recompute-normals': 'Recompute Normals',
+  'remove-degenerates': 'Remove Degenerates',
+  'generate-tangents': 'Generate Tangents'
+};
+
+interface MeshAnalysis {
+  /** Vertex indices, three per triangle. */
+  triangles: Uint32Array;
+  nanVertices: number;
+  /** Triangle numbers, degenerate ones including those touching invalid positions. */
+  degenerate: number[];
+  duplicate: number[];
+  /** Edges as pairs of vertex indices. */
+  nonManifold: number[];
+  boundary: number[];
+  holes: number;
+  /** 1 for each triangle wound against its neighbors. */
+  misoriented: Uint8Array;
+  /** 1 for each triangle wound like its neighbors whose stored normals point against its face. */
+  reversedNormals: Uint8Array;
+  /** Triangles flagged in either of the two. */
+  flippedCount: number;
+  /** Used vertices that repeat an earlier one in every attribute. */
+  unwelded: number;
+}
+
+const triangleIndices = (geometry: THREE.BufferGeometry) => {
+  const count = geometry.index ? geometry.index.count : geometry.attributes.position.count;
+  const triangles = new Uint32Array(count - (count % 3));
+  for (let i = 0; i < triangles.length; i++) triangles[i] = geometry.index ? geometry.index.getX(i) : i;
+  return triangles;
+};
+
+/** Bounding box diagonal over the valid positions only. */
+const geometrySize = (geometry: THREE.BufferGeometry) => {
+  const position = geometry.attributes.position;
+  const box = new THREE.Box3();
+  const point = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    point.fromBufferAttribute(position, i);
+    if (Number.isFinite(point.x) && Number.isFinite(point.y) && Number.isFinite(point.z)) box.expandByPoint(point);
+  }
+  const size = box.isEmpty() ? 0 : box.getSize(point).length();
+  return size > 0 ? size : 1;
+};
+
+/** One id per distinct position, so seams split for UVs or normals still join up. */
+const weldPositions = (position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, tolerance: number) => {
+  const ids = new Map<string, number>();
+  const welded = new Uint32Array(position.count);
+  const invalid = new Uint8Array(position.count);
+  for (let i = 0; i < position.count; i++) {
+    const x = position.getX(i);
+    const y = position.getY(i);
+    const z = position.getZ(i);
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+      invalid[i] = 1;
+      continue;
+    }
+    const key = `${Math.round(x / tolerance)},${Math.round(y / tolerance)},${Math.round(z / tolerance)}`;
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(key, id);
+    }
+    welded[i] = id;
+  }
+  return { welded, invalid, count: ids.size };
+};
+
+const findRoot = (parents: Map<number, number>, id: number): number => {
+  let root = id;
+  while (parents.get(root) !== root) root = parents.get(root)!;
+  parents.set(id, root);
+  return root;
+};
+
+/**
+ * Walks triangles across shared edges and flips each neighbor that runs the
+ * shared edge the same way, so every connected patch ends up consistently
+ * wound. Each patch keeps the winding most of its triangles already had.
+ */
+const orientTriangles = (triangleCount: number, adjacency: Int32Array, skip: Uint8Array) => {
+  const flipped = new Uint8Array(triangleCount);
+  const visited = new Uint8Array(triangleCount);
+  const queue = new Uint32Array(triangleCount);
+  for (let seed = 0; seed < triangleCount; seed++) {
+    if (visited[seed] || skip[seed]) continue;
+    visited[seed] = 1;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = seed;
+    while (head < tail) {
+      const triangle = queue[head++];
+      for (let k = 0; k < 3; k++) {
+        const packed = adjacency[triangle * 3 + k];
+        if (packed < 0) continue;
+        const neighbor = packed >> 1;
+        if (visited[neighbor]) continue;
+        visited[neighbor] = 1;
+        // The low bit marks a neighbor running the shared edge in the same direction
+        flipped[neighbor] = flipped[triangle] ^ (packed & 1);
+        queue[tail++] = neighbor;
+      }
+    }
+    let count = 0;
+    for (let k = 0; k < tail; k++) count += flipped[queue[k]];
+    if (count * 2 > tail) {
+      for (let k = 0; k < tail; k++) flipped[queue[k]] ^= 1;
+    }
+  }
+  return flipped;
+};
+
+// Welding compares every attribute with this, so it never exceeds mergeVertices' own default
+const weldTolerance = (geometry: THREE.BufferGeometry) => Math.min(1e-4, geometrySize(geometry) * WELD_TOLERANCE);
+
+/**
+ * Counts the used vertices that welding would merge into an earlier one.
+ * Only vertices at the same position can match, so each is compared with
+ * the others in its position's bucket rather than with every vertex.
+ */
+const countUnwelded = (geometry: THREE.BufferGeometry, triangles: Uint32Array, welded: Uint32Array, invalid: Uint8Array, weldedCount: number) => {
+  const tolerance = weldTolerance(geometry);
+  const used = new Uint8Array(geometry.attributes.position.count);
+  triangles.forEach(vertex => { if (!invalid[vertex]) used[vertex] = 1; });
+
+  const starts = new Uint32Array(weldedCount + 1);
+  used.forEach((flag, vertex) => { if (flag) starts[welded[vertex] + 1]++; });
+  for (let id = 0; id < weldedCount; id++) starts[id + 1] += starts[id];
+  const fill = starts.slice(0, weldedCount);
+  const items = new Uint32Array(starts[weldedCount]);
+  used.forEach((flag, vertex) => { if (flag) items[fill[welded[vertex]]++] = vertex; });
+
+  const attributes = Object.values(geometry.attributes);
+  const matches = (a: number, b: number) => attributes.every(attribute => {
+    for (let k = 0; k < attribute.itemSize; k++) {
+      if (Math.abs(attribute.getComponent(a, k) - attribute.getComponent(b, k)) > tolerance) return false;
+    }
+    return true;
+  });
+
+  let count = 0;
+  for (let id = 0; id < weldedCount; id++) {
+    for (let i = starts[id] + 1; i < starts[id + 1]; i++) {
+      for (let j = starts[id]; j < i; j++) {
+        if (matches(items[i], items[j])) {
+          count++;
+          break;
+        }
+      }
+    }
+  }
+  return count;
+};
+
+const analyses = new WeakMap<THREE.BufferGeometry, MeshAnalysis>();
+
+/** Topology checks on one geometry, cached until the geometry is replaced. */
+const analyzeGeometry = (geometry: THREE.BufferGeometry): MeshAnalysis => {
+  const cached = analyses.get(geometry);
+  if (cached) return cached;
+
+  const position = geometry.attributes.position;
+  const triangles = triangleIndices(geometry);
+  const triangleCount = triangles.length / 3;
+  const size = geometrySize(geometry);
+  const { welded, invalid, count: weldedCount } = weldPositions(position, size * WELD_TOLERANCE);
+  const nanVertices = invalid.reduce((sum, flag) => sum + flag, 0);
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const faceNormal = new THREE.Vector3();
+  const skip = new Uint8Array(triangleCount);
+  const degenerate: number[] = [];
+  const duplicate: number[] = [];
+  // Sorted welded corners make the key; as one number while it fits, else as a string
+  const numericKeys = weldedCount ** 3 < Number.MAX_SAFE_INTEGER;
+  const seen = new Set<number | string>();
+
+  for (let t = 0; t < triangleCount; t++) {
+    const [i0, i1, i2] = [triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2]];
+    const [w0, w1, w2] = [welded[i0], welded[i1], welded[i2]];
+    let isDegenerate = invalid[i0] || invalid[i1] || invalid[i2] || w0 === w1 || w1 === w2 || w0 === w2;
+    if (!isDegenerate) {
+      a.fromBufferAttribute(position, i0);
+      b.fromBufferAttribute(position, i1);
+      c.fromBufferAttribute(position, i2);
+      faceNormal.subVectors(c, b).cross(a.sub(b));
+      isDegenerate = faceNormal.length() / 2 < size * size * AREA_TOLERANCE;
+    }
+    if (isDegenerate) {
+      degenerate.push(t);
+      skip[t] = 1;
+      continue;
+    }
+    const low = Math.min(w0, w1, w2);
+    const high = Math.max(w0, w1, w2);
+    const middle = w0 + w1 + w2 - low - high;
+    const key = numericKeys ? (low * weldedCount + middle) * weldedCount + high : `${low},${middle},${high}`;
+    if (seen.has(key)) {
+      duplicate.push(t);
+      skip[t] = 1;
+    } else {
+      seen.add(key);
+    }
+  }
+
+  // Edges keyed by their welded ends. Each keeps its first two uses, as a triangle corner
+  // plus whether that triangle ran the edge from the lower end, and how many uses it has
+  const edges = new Map<number, number>();
+  const firstUse = new Float64Array(triangleCount * 3);
+  const secondUse = new Float64Array(triangleCount * 3);
+  const uses = new Uint32Array(triangleCount * 3);
+  for (let t = 0; t < triangleCount; t++) {
+    if (skip[t]) continue;
+    for (let k = 0; k < 3; k++) {
+      const from = welded[triangles[t * 3 + k]];
+      const to = welded[triangles[t * 3 + (k + 1) % 3]];
+      const key = Math.min(from, to) * weldedCount + Math.max(from, to);
+      const use = (t * 3 + k) * 2 + (from < to ? 1 : 0);
+      let edge = edges.get(key);
+      if (edge === undefined) {
+        edge = edges.size;
+        edges.set(key, edge);
+        firstUse[edge] = use;
+      } else if (uses[edge] === 1) {
+        secondUse[edge] = use;
+      }
+      uses[edge]++;
+    }
+  }
+
+  const nonManifold: number[] = [];
+  const boundary: number[] = [];
+  // Up to three neighbors across manifold edges per triangle, -1 for none
+  const adjacency = new Int32Array(triangleCount * 3).fill(-1);
+  const holeParents = new Map<number, number>();
+  const useVertices = (use: number) => {
+    const corner = Math.floor(use / 2);
+    const t = Math.floor(corner / 3);
+    return [triangles[corner], triangles[t * 3 + (corner % 3 + 1) % 3]];
+  };
+  for (let edge = 0; edge < edges.size; edge++) {
+    if (uses[edge] > 2) {
+      nonManifold.push(...useVertices(firstUse[edge]));
+    } else if (uses[edge] === 1) {
+      const [from, to] = useVertices(firstUse[edge]);
+      boundary.push(from, to);
+      const [rootFrom, rootTo] = [welded[from], welded[to]].map(id => {
+        if (!holeParents.has(id)) holeParents.set(id, id);
+        return findRoot(holeParents, id);
+      });
+      holeParents.set(rootFrom, rootTo);
+    } else {
+      const first = firstUse[edge];
+      const second = secondUse[edge];
+      const same = first % 2 === second % 2 ? 1 : 0;
+      const corner0 = Math.floor(first / 2);
+      const corner1 = Math.floor(second / 2);
+      adjacency[corner0] = Math.floor(corner1 / 3) * 2 + same;
+      adjacency[corner1] = Math.floor(corner0 / 3) * 2 + same;
+    }
+  }
+  const holes = new Set([...holeParents.keys()].map(id => findRoot(holeParents, id))).size;
+
+  const misoriented = orientTriangles(triangleCount, adjacency, skip);
+  // Stored normals can point against a correctly wound triangle, which only needs new normals
+  const reversedNormals = new Uint8Array(triangleCount);
+  const normal = geometry.attributes.normal;
+  if (normal) {
+    const sum = new THREE.Vector3();
+    for (let t = 0; t < triangleCount; t++) {
+      if (skip[t] || misoriented[t]) continue;
+      const [i0, i1, i2] = [triangles[t * 3], triangles[t * 3 + 1], triangles[t * 3 + 2]];
+      a.fromBufferAttribute(position, i0);
+      b.fromBufferAttribute(position, i1);
+      c.fromBufferAttribute(position, i2);
+      faceNormal.subVectors(c, b).cross(a.sub(b));
+      sum.fromBufferAttribute(normal, i0).add(b.fromBufferAttribute(normal, i1)).add(c.fromBufferAttribute(normal, i2));
+      if (sum.dot(faceNormal) < 0) reversedNormals[t] = 1;
+    }
+  }
+  let flippedCount = 0;
+  for (let t = 0; t < triangleCount; t++) flippedCount += misoriented[t] | reversedNormals[t];
+
+  const unwelded = countUnwelded(geometry, triangles, welded, invalid, weldedCount);
+
+  const analysis = { triangles, nanVertices, degenerate, duplicate, nonManifold, boundary, holes, misoriented, reversedNormals, flippedCount, unwelded };
+  analyses.set(geometry, analysis);
+  return analysis;
+};
+
+const meshMaterials = (mesh: THREE.Mesh) => (Array.isArray(mesh.material) ? mesh.material : [mesh.material]).filter(Boolean);
+
+const hasTextures = (mesh: THREE.Mesh) =>
+  meshMaterials(mesh).some(material => TEXTURE_SLOTS.some(slot => (material as any)[slot]?.isTexture));
+
+/**
+ * Checks every mesh in the model for problems that trip up engines and
+ * other tools, plus textures above MAX_TEXTURE_SIZE. Topology is checked on
+ * welded positions, so seams split for UVs or normals are not counted as
+ * holes. Geometry shared by several meshes is reported once. `getGeometry`
+ * picks what to check per mesh, e.g. the source behind a simplified preview.
+ */
+export const validateModel = (root: THREE.Object3D, getGeometry = (mesh: THREE.Mesh) => mesh.geometry): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const geometries = new Set<THREE.BufferGeometry>();
+  const textures = new Set<THREE.Texture>();
+
+  root.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.geometry?.attributes.position) return;
+    const name = mesh.name || 'Mesh';
+    const add = (check: ValidationCheck, severity: ValidationIssue['severity'], count: number, message: string, fix: MeshFix | null, highlight = false) => {
+      if (count > 0) issues.push({ id: `${check}:${mesh.uuid}`, check, severity, nodeId: mesh.uuid, name, count, message, fix, highlight });
+    };
+
+    meshMaterials(mesh).forEach(material => TEXTURE_SLOTS.forEach(slot => {
+      const texture = (material as any)[slot] as THREE.Texture | null;
+      const image = texture?.image as { width?: number; height?: number } | undefined;
+      if (!texture?.isTexture || textures.has(texture) || !image?.width || !image.height) return;
+      textures.add(texture);
+      if (Math.max(image.width, image.height) <= MAX_TEXTURE_SIZE) return;
+      issues.push({
+        id: `oversized-texture:${texture.uuid}`,
+        check: 'oversized-texture',
+        severity: 'warning',
+        nodeId: mesh.uuid,
+        name: texture.name || slot,
+        count: 1,
+        message: `${image.width}×${image.height}, above ${MAX_TEXTURE_SIZE}px; resize it or cap the texture size on export`,
+        fix: null,
+        highlight: false
+      });
+    }));
+
+    const geometry = getGeometry(mesh);
+    if (geometries.has(geometry)) return;
+    geometries.add(geometry);
+    const analysis = analyzeGeometry(geometry);
+    const hasUVs = !!geometry.attributes.uv;
+
+    add('nan', 'error', analysis.nanVertices, `${analysis.nanVertices.toLocaleString()} vertices with NaN or infinite positions`, 'remove-degenerates');
+    add('degenerate', 'warning', analysis.degenerate.length, `${analysis.degenerate.length.toLocaleString()} triangles without area`, 'remove-degenerates', true);
+    add('duplicate', 'warning', analysis.duplicate.length, `${analysis.duplicate.length.toLocaleString()} triangles repeating another`, 'remove-degenerates', true);
+    add('non-manifold', 'error', analysis.nonManifold.length / 2, `${(analysis.nonManifold.length / 2).toLocaleString()} edges shared by more than two triangles`, null, true);
+    add('holes', 'warning', analysis.holes, `${analysis.holes.toLocaleString()} open boundaries over ${(analysis.boundary.length / 2).toLocaleString()} edges`, null, true);
+    add('flipped', 'warning', analysis.flippedCount, `${analysis.flippedCount.toLocaleString()} triangles facing against their neighbors or normals`, 'recompute-normals', true);
+    add('missing-uvs', hasTextures(mesh) ? 'error' : 'warning', hasUVs ? 0 : 1, hasTextures(mesh) ? 'Textured but has no texture coordinates' : 'No texture coordinates', null);
+    const needsTangents = meshMaterials(mesh).some(material => (material as any).normalMap) && !geometry.attributes.tangent;
+    add('missing-tangents', 'warning', needsTangents ? 1 : 0, 'Normal-mapped but has no tangents',
+      hasUVs && geometry.attributes.normal ? 'generate-tangents' : null);
+
+    add('unwelded', 'warning', analysis.unwelded, `${analysis.unwelded.toLocaleString()} vertices identical to another`, 'weld');
+  });
+
+  return issues;
+};
+
+/** The same geometry with an index, so triangles can be dropped or flipped without touching attributes. */
+const indexedClone = (geometry: THREE.BufferGeometry, triangles: Uint32Array) => {
+  const clone = geometry.clone();
+  clone.setIndex(new THREE.BufferAttribute(triangles.slice(), 1));
+  return clone;
+};
+
+/** Returns a repaired copy of `geometry`; the original is left as it was. */
+export const applyMeshFix = (geometry: THREE.BufferGeometry, fix: MeshFix) => {
+  const analysis = analyzeGeometry(geometry);
+  switch (fix) {
+    case 'weld':
+      return mergeVertices(geometry, weldTolerance(geometry));
+    case 'remove-degenerates': {
+      const drop = new Set([...analysis.degenerate, ...analysis.duplicate]);
+      const kept: number[] = [];
+      const clone = geometry.clone();
+      const groups = geometry.groups.length > 0 ? geometry.groups : [{ start: 0, count: analysis.triangles.length, materialIndex: undefined }];
+      clone.clearGroups();
+      groups.forEach(group => {
+        const start = kept.length;
+        for (let t = Math.floor(group.start / 3); t < Math.floor((group.start + group.count) / 3); t++) {
+          if (!drop.has(t)) kept.push(analysis.triangles[t * 3], analysis.triangles[t * 3 + 1], analysis.triangles[t * 3 + 2]);
+        }
+        if (geometry.groups.length > 0) clone.addGroup(start, kept.length - start, group.materialIndex);
+      });
+      clone.setIndex(new THREE.BufferAttribute(Uint32Array.from(kept), 1));
+      // Invalid positions are no longer referenced, but would still poison the bounds
+      const position = clone.attributes.position;
+      for (let i = 0; i < position.count; i++) {
+        if (![position.getX(i), position.getY(i), position.getZ(i)].every(Number.isFinite)) position.setXYZ(i, 0, 0, 0);
+      }
+      return clone;
+    }
+    case 'recompute-normals': {
+      const clone = indexedClone(geometry, analysis.triangles);
+      const index = clone.index!;
+      // Triangles with only reversed normals are wound right and take their new normals from that winding
+      analysis.misoriented.forEach((flag, t) => {
+        if (!flag) return;
+        const second = index.getX(t * 3 + 1);
+        index.setX(t * 3 + 1, index.getX(t * 3 + 2));
+        index.setX(t * 3 + 2, second);
+      });
+      clone.computeVertexNormals();
+      return clone;
+    }
+    case 'generate-tangents': {
+      const clone = geometry.index ? geometry.clone() : indexedClone(geometry, analysis.triangles);
+      clone.computeTangents();
+      return clone;
+    }
+  }
+};
+
+const HIGHLIGHT_COLOR = 0xf43f5e;
+
+/**
+ * Marks the offending edges or triangles of one issue on a mesh, drawn on
+ * top of the model. Degenerate triangles have no area to fill, so they are
+ * also marked with a dot each. Call `update` every frame to follow the mesh.
+ */
+export const createIssueHighlight = (mesh: THREE.Mesh, check: ValidationCheck, geometry = mesh.geometry) => {
+  const group = new THREE.Group();
+  group.matrixAutoUpdate = false;
+  const analysis = analyzeGeometry(geometry);
+  const position = geometry.attributes.position;
+  const disposables: { dispose: () => void }[] = [];
+  const overlay = { depthTest: false, transparent: true };
+
+  const vertexPositions = (vertices: ArrayLike<number>) => {
+    const array = new Float32Array(vertices.length * 3);
+    for (let i = 0; i < vertices.length; i++) {
+      array[i * 3] = position.getX(vertices[i]);
+      array[i * 3 + 1] = position.getY(vertices[i]);
+      array[i * 3 + 2] = position.getZ(vertices[i]);
+    }
+    return new THREE.BufferAttribute(array, 3);
+  };
+  const addObject = (object: THREE.Mesh | THREE.LineSegments | THREE.Points) => {
+    object.renderOrder = 1000;
+    object.raycast = () => {};
+    disposables.push(object.geometry, object.material as THREE.Material);
+    group.add(object);
+  };
+
+  if (check === 'non-manifold' || check === 'holes') {
+    const edges = new THREE.BufferGeometry();
+    edges.setAttribute('position', vertexPositions(check === 'holes' ? analysis.boundary : analysis.nonManifold));
+    addObject(new THREE.LineSegments(edges, new THREE.LineBasicMaterial({ color: HIGHLIGHT_COLOR, ...overlay })));
+  } else if (check === 'degenerate' || check === 'duplicate' || check === 'flipped') {
+    const triangles = check === 'flipped'
+      ? [...analysis.misoriented.keys()].filter(t => analysis.misoriented[t] || analysis.reversedNormals[t])
+      : check === 'degenerate' ? analysis.degenerate : analysis.duplicate;
+    const vertices = triangles.flatMap(t => [analysis.triangles[t * 3], analysis.triangles[t * 3 + 1], analysis.triangles[t * 3 + 2]]);
+    const faces = new THREE.BufferGeometry();
+    faces.setAttribute('position', vertexPositions(vertices));
+    addObject(new THREE.Mesh(faces, new THREE.MeshBasicMaterial({ color: HIGHLIGHT_COLOR, side: THREE.DoubleSide, opacity: 0.6, ...overlay })));
+    if (check === 'degenerate') {
+      const dots = new THREE.BufferGeometry();
+      dots.setAttribute('position', vertexPositions(triangles.map(t => analysis.triangles[t * 3])));
+      addObject(new THREE.Points(dots, new THREE.PointsMaterial({ color: HIGHLIGHT_COLOR, size: 6, sizeAttenuation: false, ...overlay })));
+    }
+  }
+
+  const update = () => group.matrix.copy(mesh.matrixWorld);
+  update();
+
+  const dispose = () => {
+    disposables.forEach(item => item.dispose());
+    group.clear();
+  };
+
+  return { group, update, dispose };
+};
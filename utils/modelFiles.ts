@@ -0,0 +1,180 @@
+import { unzipSync } from 'fflate';
+import { SupportedExtension } from '../types';
+
+export interface ModelSource {
+  name: string;
+  url: string;
+  /** The main file itself, for formats that read it piecemeal instead of fetching the URL. */
+  file: Blob;
+  extension: SupportedExtension;
+  size: number;
+  /** Sibling files keyed by normalized path relative to the main file, mapped to object URLs. */
+  resources: Record<string, string>;
+}
+
+interface LocalFile {
+  path: string;
+  data: Blob;
+}
+
+export interface QueuedModel {
+  name: string;
+  main: File;
+  /** The main file plus every sidecar file that may belong to it. */
+  files: File[];
+}
+
+// When several model files arrive together, the first match in this list becomes the main file.
+export const MODEL_EXTENSIONS: SupportedExtension[] = [
+  'gltf', 'glb', 'fbx', 'dae', '3mf', 'obj', 'stl', 'ply', 'pcd', 'xyz', 'las', 'laz', 'e57'
+];
+
+// Files that are only meaningful next to a model (external buffers, materials, textures)
+export const SIDECAR_EXTENSIONS = ['bin', 'mtl', 'png', 'jpg', 'jpeg', 'webp', 'ktx2', 'tga', 'bmp', 'gif'];
+
+export const FILE_ACCEPT = [...MODEL_EXTENSIONS, ...SIDECAR_EXTENSIONS, 'zip'].map(ext => `.${ext}`).join(',');
+
+// Paths of files collected from dropped folders, which the browser leaves out of webkitRelativePath
+const droppedPaths = new WeakMap<File, string>();
+
+const filePath = (file: File) => droppedPaths.get(file) || file.webkitRelativePath || file.name;
+
+export const getExtension = (path: string) => path.split('.').pop()?.toLowerCase() || '';
+
+export const normalizePath = (path: string) => {
+  let decoded = path;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    // Keep malformed URIs as written
+  }
+  return decoded.replace(/\\/g, '/').replace(/^(\.\/)+/, '').toLowerCase();
+};
+
+const basename = (path: string) => path.split('/').pop() || path;
+
+/** Expands .zip archives into their entries; other files pass through with their folder path. */
+const expandArchives = async (files: File[]): Promise<LocalFile[]> => {
+  const expanded: LocalFile[] = [];
+  for (const file of files) {
+    const path = filePath(file);
+    if (getExtension(file.name) !== 'zip') {
+      expanded.push({ path, data: file });
+      continue;
+    }
+    const entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    for (const [entryPath, bytes] of Object.entries(entries)) {
+      if (entryPath.endsWith('/') || entryPath.startsWith('__MACOSX/')) continue;
+      expanded.push({ path: entryPath, data: new Blob([bytes as BlobPart]) });
+    }
+  }
+  return expanded;
+};
+
+const readEntry = async (entry: FileSystemEntry, files: File[]) => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    droppedPaths.set(file, entry.fullPath.replace(/^\/+/, ''));
+    files.push(file);
+  } else if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns directories in batches until it yields an empty one
+    let batch: FileSystemEntry[];
+    do {
+      batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      for (const child of batch) await readEntry(child, files);
+    } while (batch.length > 0);
+  }
+};
+
+/**
+ * Flattens a drop into files, walking into dropped folders. Entries have to
+ * be taken before the first await since the DataTransfer is emptied once the
+ * drop handler returns.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  for (const entry of entries) await readEntry(entry, files);
+  return files;
+};
+
+/**
+ * Splits a selection into one queue entry per model file (or zip). Sidecar
+ * files travel with every model found in or above their folder; anything
+ * else is rejected.
+ */
+export const buildFileQueue = (files: File[]) => {
+  const mains: File[] = [];
+  const sidecars: File[] = [];
+  const rejected: string[] = [];
+  for (const file of files) {
+    const ext = getExtension(file.name);
+    if ((MODEL_EXTENSIONS as string[]).includes(ext) || ext === 'zip') mains.push(file);
+    else if (SIDECAR_EXTENSIONS.includes(ext)) sidecars.push(file);
+    else rejected.push(filePath(file));
+  }
+
+  const queue: QueuedModel[] = mains.map(main => {
+    const dir = filePath(main).split('/').slice(0, -1).join('/');
+    const related = sidecars.filter(file => !dir || filePath(file).startsWith(`${dir}/`));
+    return { name: main.name, main, files: [main, ...related] };
+  });
+  return { queue, rejected };
+};
+
+/**
+ * Picks the main model out of a multi-file selection (files, a folder or a
+ * zip) and exposes every other file as an object URL so loaders can resolve
+ * external buffers, textures and .mtl libraries. `preferred` names the main
+ * file when the caller already knows it.
+ */
+export const createModelSource = async (files: File[], preferred?: File): Promise<ModelSource | null> => {
+  const localFiles = await expandArchives(files);
+
+  const main = (preferred && localFiles.find(f => f.data === preferred))
+    || MODEL_EXTENSIONS.map(ext => localFiles.find(f => getExtension(f.path) === ext)).find(Boolean);
+  if (!main) return null;
+
+  const mainDir = normalizePath(main.path).split('/').slice(0, -1).join('/');
+  const resources: Record<string, string> = {};
+  for (const file of localFiles) {
+    if (file === main) continue;
+    const path = normalizePath(file.path);
+    const relative = mainDir && path.startsWith(`${mainDir}/`) ? path.slice(mainDir.length + 1) : path;
+    resources[relative] = URL.createObjectURL(file.data);
+  }
+
+  return {
+    name: basename(main.path),
+    url: URL.createObjectURL(main.data),
+    file: main.data,
+    extension: getExtension(main.path) as SupportedExtension,
+    size: main.data.size,
+    resources
+  };
+};
+
+/**
+ * Maps a URL requested by a loader onto a sibling file: first by relative
+ * path, then by file name alone, since exporters often write absolute or
+ * mismatched folder paths.
+ */
+export const resolveResource = (resources: Record<string, string>, url: string): string | null => {
+  if (/^(data|blob):/.test(url)) return null;
+  const path = normalizePath(url);
+  if (resources[path]) return resources[path];
+
+  const name = basename(path);
+  const match = Object.keys(resources).find(key => basename(key) === name);
+  return match ? resources[match] : null;
+};
+
+export const revokeModelSource = (source: ModelSource) => {
+  URL.revokeObjectURL(source.url);
+  Object.values(source.resources).forEach(url => URL.revokeObjectURL(url));
+};
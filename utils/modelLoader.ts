@@ -0,0 +1,239 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js';
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js';
+import { ThreeMFLoader } from 'three/examples/jsm/loaders/3MFLoader.js';
+import { MeshoptDecoder } from 'meshoptimizer';
+import { parseInWorker, WORKER_PARSED_EXTENSIONS } from './pipelineWorker';
+import { getExtension, resolveResource } from './modelFiles';
+import { getPointOctree } from './pointOctree';
+import { isCopcFile, openCopc } from './copcSource';
+
+interface LoadSource {
+  url: string;
+  extension: string;
+  /** The main file, for formats that are read piecewise (COPC). */
+  file?: Blob | null;
+  resources: Record<string, string>;
+}
+
+export interface LoadedModel {
+  object: THREE.Object3D;
+  animations: THREE.AnimationClip[];
+}
+
+interface LoadModelOptions {
+  renderer: THREE.WebGLRenderer;
+  /** Initial size of points in loaded point clouds. */
+  pointSize: number;
+  signal?: AbortSignal;
+  onStatus?: (status: string) => void;
+}
+
+const abortError = () => new DOMException('Loading was cancelled', 'AbortError');
+
+/** Wraps a loader's result in a scene object and converts non-glTF materials to standard ones. */
+const buildObject = (result: any, ext: string, pointSize: number): LoadedModel => {
+  let object: THREE.Object3D;
+  let animations: THREE.AnimationClip[] = [];
+
+  if (getPointOctree(result)) {
+    // Large point clouds arrive as an octree, already wrapped in its group
+    object = result;
+  } else if (ext === 'glb' || ext === 'gltf') {
+    object = result.scene;
+    animations = result.animations;
+  } else if (ext === 'obj' || ext === '3mf') {
+    object = result;
+  } else if (ext === 'fbx') {
+    object = result;
+    animations = result.animations;
+  } else if (ext === 'dae') {
+    object = result.scene;
+    animations = result.animations || [];
+  } else if (ext === 'pcd') {
+    // PCDLoader returns THREE.Points
+    object = result;
+    if ((object as THREE.Points).material) {
+       (object as THREE.Points).material = new THREE.PointsMaterial({
+          size: pointSize,
+          vertexColors: (object as any).geometry.hasAttribute('color')
+       });
+    }
+  } else if (ext === 'xyz' || ext === 'ply' || ext === 'stl' || ext === 'las' || ext === 'laz' || ext === 'e57') {
+    let geometry = result;
+    // loaders for xyz and ply can return geometry directly
+    if (result.scene) geometry = result.scene;
+
+    const isPointCloud = ext === 'xyz' || ext === 'las' || ext === 'laz' || ext === 'e57'
+      || (ext === 'ply' && (!geometry.index || geometry.index.count === 0));
+
+    if (isPointCloud) {
+       const material = new THREE.PointsMaterial({
+         size: pointSize,
+         vertexColors: geometry.hasAttribute('color'),
+         sizeAttenuation: true
+       });
+       object = new THREE.Points(geometry, material);
+    } else {
+       // Binary STL can carry per-face colors
+       const material = new THREE.MeshStandardMaterial({
+         color: geometry.hasAttribute('color') ? 0xffffff : 0x808080,
+         vertexColors: geometry.hasAttribute('color'),
+         roughness: 0.5,
+         metalness: 0.5
+       });
+       object = new THREE.Mesh(geometry, material);
+    }
+  } else {
+    object = new THREE.Mesh(result, new THREE.MeshStandardMaterial());
+  }
+
+  object.updateMatrixWorld(true);
+
+  const converted = new Map<THREE.Material, THREE.MeshStandardMaterial>();
+  object.traverse((child) => {
+    if ((child as THREE.Mesh).isMesh || (child as THREE.Points).isPoints) {
+      if ((child as any).isSkinnedMesh) {
+        child.frustumCulled = false;
+      }
+
+      if (ext !== 'glb' && ext !== 'gltf' && (child as THREE.Mesh).isMesh) {
+         const mesh = child as THREE.Mesh;
+         if (mesh.material) {
+           const toStandard = (oldMat: any) => {
+             if (oldMat.isMeshStandardMaterial) return oldMat;
+             // Shared materials stay shared, so an edit in the inspector reaches every mesh using it
+             const existing = converted.get(oldMat);
+             if (existing) return existing;
+             const material = new THREE.MeshStandardMaterial({
+               name: oldMat.name,
+               color: oldMat.color || 0xcccccc,
+               map: oldMat.map || null,
+               normalMap: oldMat.normalMap || null,
+               bumpMap: oldMat.bumpMap || null,
+               aoMap: oldMat.aoMap || null,
+               alphaMap: oldMat.alphaMap || null,
+               emissive: oldMat.emissive || 0x000000,
+               emissiveMap: oldMat.emissiveMap || null,
+               emissiveIntensity: oldMat.emissiveIntensity ?? 1,
+               opacity: oldMat.opacity ?? 1,
+               transparent: !!oldMat.transparent,
+               side: oldMat.side ?? THREE.FrontSide,
+               vertexColors: !!oldMat.vertexColors,
+               // Phong shininess maps roughly onto GGX roughness
+               roughness: typeof oldMat.shininess === 'number' ? Math.sqrt(2 / (oldMat.shininess + 2)) : 0.6,
+               metalness: 0.2,
+             });
+             material.userData.sourceType = oldMat.type;
+             converted.set(oldMat, material);
+             return material;
+           };
+           mesh.material = Array.isArray(mesh.material) ? mesh.material.map(toStandard) : toStandard(mesh.material);
+         }
+      }
+    }
+  });
+
+  return { object, animations };
+};
+
+/**
+ * Reads a model source into a scene object with its animations. Heavy
+ * formats are parsed in a worker, large COPC files open as a streamed
+ * octree, and external resources resolve against the source's sidecar
+ * files. Rejects with an AbortError once `signal` aborts.
+ */
+export const loadModel = async (
+  source: LoadSource,
+  { renderer, pointSize, signal, onStatus }: LoadModelOptions
+): Promise<LoadedModel> => {
+  const ext = source.extension.toLowerCase();
+  const { resources } = source;
+  const manager = new THREE.LoadingManager();
+  manager.setURLModifier(url => resolveResource(resources, url) ?? url);
+
+  // Swaps the placeholder materials of a worker-parsed OBJ for the ones in its .mtl
+  const applyMaterialLibrary = async (group: THREE.Group) => {
+    const libraries: string[] = (group as any).materialLibraries || [];
+    const mtlUrl = libraries.map(lib => resolveResource(resources, lib)).find(Boolean)
+      ?? Object.entries(resources).find(([path]) => getExtension(path) === 'mtl')?.[1];
+    if (!mtlUrl) return;
+
+    onStatus?.('Resolving MTL materials...');
+    const text = await (await fetch(mtlUrl, { signal })).text();
+    const materials = new MTLLoader(manager).parse(text, '');
+    materials.preload();
+
+    group.traverse(child => {
+      const mesh = child as THREE.Mesh;
+      if (!mesh.isMesh) return;
+      const swap = (material: THREE.Material) => materials.materials[material.name] ? materials.create(material.name) : material;
+      mesh.material = Array.isArray(mesh.material) ? mesh.material.map(swap) : swap(mesh.material);
+    });
+  };
+
+  const parse = async (): Promise<any> => {
+    onStatus?.(`Fetching data stream...`);
+    // COPC files are read node by node instead of as a whole
+    if ((ext === 'laz' || ext === 'las') && source.file && await isCopcFile(source.file)) {
+      onStatus?.('Reading COPC hierarchy...');
+      const octree = await openCopc(source.file, signal);
+      if (signal?.aborted) {
+        octree.dispose();
+        throw abortError();
+      }
+      return octree.group;
+    }
+
+    const response = await fetch(source.url, { signal });
+    const buffer = await response.arrayBuffer();
+    onStatus?.(`Decoding ${ext.toUpperCase()} payloads...`);
+
+    if (WORKER_PARSED_EXTENSIONS.includes(ext)) {
+      const parsed = await parseInWorker(ext, buffer, signal);
+      if (ext === 'obj') await applyMaterialLibrary(parsed as THREE.Group);
+      return parsed;
+    }
+
+    switch (ext) {
+      case 'glb':
+      case 'gltf': {
+        const dracoLoader = new DRACOLoader(manager);
+        dracoLoader.setDecoderPath('https://www.gstatic.com/draco/versioned/decoders/1.5.7/');
+        const ktx2Loader = new KTX2Loader(manager);
+        ktx2Loader.setTranscoderPath('https://cdn.jsdelivr.net/gh/mrdoob/three.js@r182/examples/jsm/libs/basis/');
+        ktx2Loader.detectSupport(renderer);
+
+        const loader = new GLTFLoader(manager);
+        loader.setDRACOLoader(dracoLoader);
+        loader.setKTX2Loader(ktx2Loader);
+        loader.setMeshoptDecoder(MeshoptDecoder);
+        try {
+          return await new Promise((resolve, reject) => loader.parse(buffer, '', resolve, reject));
+        } finally {
+          dracoLoader.dispose();
+          ktx2Loader.dispose();
+        }
+      }
+      case 'fbx':
+        return new FBXLoader(manager).parse(buffer, '');
+      case 'dae':
+        return new ColladaLoader(manager).parse(new TextDecoder().decode(buffer), '');
+      case '3mf':
+        return new ThreeMFLoader(manager).parse(buffer);
+      default:
+        throw new Error(`Unsupported format: ${ext}`);
+    }
+  };
+
+  const result = await parse();
+  if (signal?.aborted) {
+    getPointOctree(result)?.dispose();
+    throw abortError();
+  }
+  return buildObject(result, ext, pointSize);
+};
@@ -0,0 +1,142 @@
+import * as THREE from 'three';
+import { MaterialStats, MeshStats, ModelStats, TextureStats } from '../types';
+import { countTriangles } from './simplify';
+
+// Every texture slot across the built-in materials, in the order they are listed
+export const TEXTURE_SLOTS = [
+  'map', 'normalMap', 'roughnessMap', 'metalnessMap', 'emissiveMap', 'aoMap', 'lightMap',
+  'bumpMap', 'displacementMap', 'alphaMap', 'specularMap', 'envMap', 'gradientMap', 'matcap',
+  'clearcoatMap', 'clearcoatNormalMap', 'clearcoatRoughnessMap',
+  'transmissionMap', 'thicknessMap',
+  'sheenColorMap', 'sheenRoughnessMap',
+  'specularIntensityMap', 'specularColorMap',
+  'iridescenceMap', 'iridescenceThicknessMap', 'anisotropyMap'
+];
+
+export const emptyModelStats = (): ModelStats => ({
+  vertices: 0,
+  triangles: 0,
+  meshes: 0,
+  materials: 0,
+  textures: 0,
+  drawCalls: 0,
+  dimensions: { x: 0, y: 0, z: 0 },
+  geometryMemory: 0,
+  textureMemory: 0,
+  meshDetails: [],
+  materialDetails: [],
+  textureDetails: []
+});
+
+const attributeArray = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute) =>
+  (attribute as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute
+    ? (attribute as THREE.InterleavedBufferAttribute).data.array
+    : (attribute as THREE.BufferAttribute).array;
+
+const textureMemory = (texture: THREE.Texture) => {
+  const mipmaps = (texture as any).mipmaps as { data?: ArrayBufferView }[] | undefined;
+  // Compressed textures (KTX2, DDS) upload their mip chain as-is
+  if ((texture as THREE.CompressedTexture).isCompressedTexture && mipmaps?.length) {
+    return mipmaps.reduce((sum, mip) => sum + (mip.data?.byteLength ?? 0), 0);
+  }
+  const image = texture.image as any;
+  if (!image?.width || !image?.height) return 0;
+  const base = image.data?.byteLength ?? image.width * image.height * 4;
+  return texture.generateMipmaps ? Math.round(base * 4 / 3) : base;
+};
+
+/**
+ * Walks a loaded model and gathers index-aware triangle counts, draw calls,
+ * bounds and an estimate of its GPU memory. Shared attributes, materials and
+ * textures are only counted once.
+ */
+export const collectModelStats = (object: THREE.Object3D): ModelStats => {
+  const stats = emptyModelStats();
+  const arrays = new Set<ArrayLike<number>>();
+  const materials = new Map<THREE.Material, MaterialStats>();
+  const textures = new Map<THREE.Texture, TextureStats>();
+
+  object.updateMatrixWorld(true);
+  object.traverse(child => {
+    const drawable = child as THREE.Mesh | THREE.Points | THREE.Line;
+    if (!(drawable as THREE.Mesh).isMesh && !(drawable as THREE.Points).isPoints && !(drawable as THREE.Line).isLine) return;
+    const geometry = drawable.geometry;
+    if (!geometry?.attributes.position) return;
+
+    const instances = (drawable as THREE.InstancedMesh).isInstancedMesh ? (drawable as THREE.InstancedMesh).count : 1;
+    const triangles = (drawable as THREE.Mesh).isMesh ? countTriangles(geometry) * instances : 0;
+    const meshMaterials = (Array.isArray(drawable.material) ? drawable.material : [drawable.material]).filter(Boolean);
+    const drawCalls = Array.isArray(drawable.material) && geometry.groups.length > 0 ? geometry.groups.length : 1;
+
+    let memory = 0;
+    const buffers = [...Object.values(geometry.attributes), ...(geometry.index ? [geometry.index] : [])];
+    buffers.forEach(attribute => {
+      const array = attributeArray(attribute) as THREE.TypedArray;
+      memory += array.byteLength;
+      if (!arrays.has(array)) {
+        arrays.add(array);
+        stats.geometryMemory += array.byteLength;
+      }
+    });
+
+    meshMaterials.forEach(material => {
+      let entry = materials.get(material);
+      if (!entry) {
+        entry = { name: material.name || material.type, type: material.type, textureSlots: [], meshes: 0 };
+        materials.set(material, entry);
+        TEXTURE_SLOTS.forEach(slot => {
+          const texture = (material as any)[slot] as THREE.Texture | null | undefined;
+          if (!texture?.isTexture) return;
+          entry!.textureSlots.push(slot);
+          const existing = textures.get(texture);
+          if (existing) {
+            if (!existing.slots.includes(slot)) existing.slots.push(slot);
+            return;
+          }
+          const image = texture.image as any;
+          textures.set(texture, {
+            name: texture.name || image?.src?.split('/').pop() || `texture_${textures.size}`,
+            slots: [slot],
+            width: image?.width ?? 0,
+            height: image?.height ?? 0,
+            memory: textureMemory(texture)
+          });
+        });
+      }
+      entry.meshes++;
+    });
+
+    const type = (drawable as THREE.SkinnedMesh).isSkinnedMesh ? 'SkinnedMesh'
+      : (drawable as THREE.InstancedMesh).isInstancedMesh ? 'InstancedMesh'
+        : (drawable as THREE.Points).isPoints ? 'Points'
+          : (drawable as THREE.Line).isLine ? 'Line' : 'Mesh';
+    const details: MeshStats = {
+      name: drawable.name || geometry.name || `${type} ${stats.meshDetails.length + 1}`,
+      type,
+      vertices: geometry.attributes.position.count,
+      triangles,
+      drawCalls,
+      attributes: Object.keys(geometry.attributes),
+      materials: meshMaterials.map(m => m.name || m.type),
+      memory
+    };
+    stats.meshDetails.push(details);
+    stats.vertices += details.vertices;
+    stats.triangles += triangles;
+    stats.drawCalls += drawCalls;
+  });
+
+  const box = new THREE.Box3().setFromObject(object);
+  if (!box.isEmpty()) {
+    const size = box.getSize(new THREE.Vector3());
+    stats.dimensions = { x: size.x, y: size.y, z: size.z };
+  }
+
+  stats.meshes = stats.meshDetails.length;
+  stats.materialDetails = [...materials.values()];
+  stats.materials = stats.materialDetails.length;
+  stats.textureDetails = [...textures.values()];
+  stats.textures = stats.textureDetails.length;
+  stats.textureMemory = stats.textureDetails.reduce((sum, t) => sum + t.memory, 0);
+  return stats;
+};
@@ -0,0 +1,185 @@
+import * as THREE from 'three';
+import { ExportConfig, ExportStage, ReconstructionSettings, RegistrationSettings, TextureReport } from '../types';
+import { CompressionResult } from './gltfCompression';
+import { StageReporter } from './exportProgress';
+import { collectTransferables, deserializeGeometry, deserializeObjects, SerializedGeometry, SerializedObject, serializeGeometry } from './geometrySerialization';
+import { PointProcessOptions } from './pointProcessing';
+import { createPointOctree, OctreeNodeData } from './pointOctree';
+
+export type WorkerRequest =
+  | { type: 'parse'; ext: string; buffer: ArrayBuffer }
+  | { type: 'compress'; glb: ArrayBuffer; config: ExportConfig }
+  | { type: 'process-points'; geometry: SerializedGeometry; matrix: number[]; options: PointProcessOptions }
+  | { type: 'reconstruct'; geometry: SerializedGeometry; settings: ReconstructionSettings }
+  | { type: 'deviation'; reference: SerializedGeometry; positions: Float32Array }
+  | { type: 'register'; reference: SerializedGeometry; positions: Float32Array; settings: RegistrationSettings };
+
+export type SerializedOctreeNode = Omit<OctreeNodeData, 'geometry'> & { geometry: SerializedGeometry };
+
+export type WorkerResponse =
+  | { type: 'parsed'; objects: SerializedObject[]; materialLibraries: string[]; octree?: SerializedOctreeNode[] }
+  | { type: 'progress'; stage: ExportStage; fraction: number }
+  | { type: 'registration-step'; iteration: number; rms: number }
+  | { type: 'compressed'; data: Uint8Array; textures: TextureReport[] }
+  | { type: 'processed'; geometry: SerializedGeometry }
+  | { type: 'deviation'; distances: Float32Array }
+  | { type: 'registered'; matrix: number[]; rms: number[] }
+  | { type: 'error'; message: string };
+
+/** Responses a worker sends while it is still running. */
+type WorkerUpdate = Extract<WorkerResponse, { type: 'progress' | 'registration-step' }>;
+
+export const WORKER_PARSED_EXTENSIONS = ['obj', 'ply', 'pcd', 'xyz', 'stl', 'las', 'laz', 'e57'];
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+/**
+ * Runs a single request on a fresh worker. Aborting terminates the worker,
+ * which is the only way to interrupt a wasm encoder mid-flight.
+ */
+const runInWorker = (
+  request: WorkerRequest,
+  transfer: Transferable[],
+  signal?: AbortSignal,
+  onUpdate?: (update: WorkerUpdate) => void
+) => new Promise<WorkerResponse>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+
+  const worker = new Worker(new URL('../workers/pipeline.worker.ts', import.meta.url), { type: 'module' });
+  const finish = () => {
+    signal?.removeEventListener('abort', onAbort);
+    worker.terminate();
+  };
+  const onAbort = () => {
+    finish();
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    if (response.type === 'progress' || response.type === 'registration-step') {
+      onUpdate?.(response);
+      return;
+    }
+    finish();
+    if (response.type === 'error') reject(new Error(response.message));
+    else resolve(response);
+  };
+  worker.onerror = (event) => {
+    finish();
+    reject(new Error(event.message || 'Worker failed'));
+  };
+
+  worker.postMessage(request, transfer);
+});
+
+/**
+ * Parses the geometry-only formats off the main thread and rebuilds the
+ * same object shape the loader would have returned: a BufferGeometry for
+ * PLY, XYZ, STL and the lidar formats, THREE.Points for PCD and a Group for
+ * OBJ (with its `materialLibraries`). Point clouds too large to draw at once
+ * come back as the group of a point octree instead.
+ */
+export const parseInWorker = async (ext: string, buffer: ArrayBuffer, signal?: AbortSignal) => {
+  const response = await runInWorker({ type: 'parse', ext, buffer }, [buffer], signal);
+  if (response.type !== 'parsed') throw new Error(`Unexpected worker response: ${response.type}`);
+
+  if (response.octree) {
+    const nodes = response.octree.map(node => ({ ...node, geometry: deserializeGeometry(node.geometry) }));
+    const bounds = new THREE.Box3();
+    nodes.forEach(node => {
+      node.geometry.computeBoundingBox();
+      bounds.union(node.geometry.boundingBox!);
+    });
+    const material = new THREE.PointsMaterial({ vertexColors: !!nodes[0]?.geometry.attributes.color, sizeAttenuation: true });
+    return createPointOctree(nodes, material, { bounds }).group;
+  }
+
+  const { objects } = response;
+  switch (ext) {
+    case 'ply':
+    case 'xyz':
+    case 'stl':
+    case 'las':
+    case 'laz':
+    case 'e57':
+      return deserializeGeometry(objects[0].geometry);
+    case 'pcd':
+      return deserializeObjects(objects).children[0] as THREE.Points;
+    default: {
+      const group = deserializeObjects(objects);
+      (group as any).materialLibraries = response.materialLibraries;
+      return group;
+    }
+  }
+};
+
+export const compressInWorker = async (
+  glb: ArrayBuffer,
+  config: ExportConfig,
+  report: StageReporter,
+  signal?: AbortSignal
+): Promise<CompressionResult> => {
+  const response = await runInWorker({ type: 'compress', glb, config }, [glb], signal, update => {
+    // Cancellation is handled by the abort listener, so a rejected report is safe to drop.
+    if (update.type === 'progress') report(update.stage, update.fraction).catch(() => {});
+  });
+  if (response.type !== 'compressed') throw new Error(`Unexpected worker response: ${response.type}`);
+  return { data: response.data, textures: response.textures };
+};
+
+/**
+ * Runs point cloud processing on a copy of `geometry` (nothing is
+ * transferred, so the original stays usable) and returns the result.
+ */
+export const processPointsInWorker = async (
+  geometry: THREE.BufferGeometry,
+  matrix: THREE.Matrix4,
+  options: PointProcessOptions,
+  signal?: AbortSignal
+) => {
+  const response = await runInWorker({ type: 'process-points', geometry: serializeGeometry(geometry), matrix: matrix.toArray(), options }, [], signal);
+  if (response.type !== 'processed') throw new Error(`Unexpected worker response: ${response.type}`);
+  return deserializeGeometry(response.geometry);
+};
+
+/** Reconstructs a surface mesh from a copy of a point cloud's geometry. */
+export const reconstructInWorker = async (geometry: THREE.BufferGeometry, settings: ReconstructionSettings, signal?: AbortSignal) => {
+  const response = await runInWorker({ type: 'reconstruct', geometry: serializeGeometry(geometry), settings }, [], signal);
+  if (response.type !== 'processed') throw new Error(`Unexpected worker response: ${response.type}`);
+  return deserializeGeometry(response.geometry);
+};
+
+/** Measures how far each world-space position lies from the reference surface; both inputs are handed over. */
+export const deviationInWorker = async (reference: THREE.BufferGeometry, positions: Float32Array, signal?: AbortSignal) => {
+  const serialized = serializeGeometry(reference);
+  const transfer = collectTransferables([{ name: '', kind: 'mesh', geometry: serialized, materials: [] }]);
+  const response = await runInWorker({ type: 'deviation', reference: serialized, positions }, [...transfer, positions.buffer as ArrayBuffer], signal);
+  if (response.type !== 'deviation') throw new Error(`Unexpected worker response: ${response.type}`);
+  return response.distances;
+};
+
+/**
+ * Refines the alignment of world-space samples of a moving model onto a
+ * reference surface or cloud with ICP; both inputs are handed over.
+ * `onIteration` receives the RMS error of each iteration as it finishes.
+ */
+export const registerInWorker = async (
+  reference: THREE.BufferGeometry,
+  positions: Float32Array,
+  settings: RegistrationSettings,
+  signal?: AbortSignal,
+  onIteration?: (iteration: number, rms: number) => void
+) => {
+  const serialized = serializeGeometry(reference);
+  const transfer = collectTransferables([{ name: '', kind: 'mesh', geometry: serialized, materials: [] }]);
+  const response = await runInWorker({ type: 'register', reference: serialized, positions, settings }, [...transfer, positions.buffer as ArrayBuffer], signal, update => {
+    if (update.type === 'registration-step') onIteration?.(update.iteration, update.rms);
+  });
+  if (response.type !== 'registered') throw new Error(`Unexpected worker response: ${response.type}`);
+  return { matrix: new THREE.Matrix4().fromArray(response.matrix), rms: response.rms };
+};
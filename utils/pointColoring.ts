@@ -0,0 +1,224 @@
+import * as THREE from 'three';
+import { Colormap, PointCloudSettings, PointColorMode } from '../types';
+
+// Colormap stops in sRGB, evenly spaced
+const COLORMAP_STOPS: Record<Colormap, string[]> = {
+  viridis: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725'],
+  inferno: ['#000004', '#1b0c41', '#4a0c6b', '#781c6d', '#a52c60', '#cf4446', '#ed6925', '#fb9b06', '#f7d13d', '#fcffa4'],
+  turbo: ['#30123b', '#4662d7', '#36aaf9', '#1ae4b6', '#72fe5e', '#c8ef34', '#faba39', '#f66b19', '#ca2a04', '#7a0403'],
+  grayscale: ['#000000', '#ffffff']
+};
+
+export const COLORMAPS = Object.keys(COLORMAP_STOPS) as Colormap[];
+
+// ASPRS standard point classes (LAS 1.4); anything else is drawn gray
+const CLASSIFICATION_COLORS: Record<number, string> = {
+  0: '#a0a0a0', 1: '#c8c8c8', 2: '#a0522d', 3: '#90ee90', 4: '#32cd32', 5: '#006400',
+  6: '#ff8c00', 7: '#ff00ff', 8: '#ffff00', 9: '#1e90ff', 10: '#8b4513', 11: '#696969',
+  12: '#ffd700', 13: '#ffa07a', 14: '#ff4500', 15: '#b22222', 16: '#daa520', 17: '#708090', 18: '#ff1493'
+};
+
+// Attributes that are never offered as scalar fields
+const NON_SCALAR_ATTRIBUTES = ['position', 'normal', 'color', 'tangent', 'skinIndex', 'skinWeight'];
+
+// Field names are spliced into the shader as attribute names, so GLSL keywords are out
+const GLSL_RESERVED = ['class', 'sample', 'input', 'output', 'filter', 'active', 'common', 'partition', 'flat', 'smooth', 'layout', 'uniform', 'buffer', 'shared', 'texture'];
+
+/** Candidate scalar fields among a point cloud's attribute names. */
+export const scalarFieldNames = (attributes: string[]) => attributes.filter(name =>
+  !NON_SCALAR_ATTRIBUTES.includes(name)
+  && !/^uv\d*$/.test(name)
+  && /^[A-Za-z_][A-Za-z0-9_]*$/.test(name)
+  && !name.startsWith('gl_')
+  && !GLSL_RESERVED.includes(name));
+
+const rampTextures = new Map<string, THREE.DataTexture>();
+
+const createRampTexture = (key: string, colorAt: (i: number) => THREE.Color, filter: THREE.MagnificationTextureFilter) => {
+  const cached = rampTextures.get(key);
+  if (cached) return cached;
+  const data = new Uint8Array(256 * 4);
+  for (let i = 0; i < 256; i++) {
+    const color = colorAt(i);
+    // Stored as sRGB bytes; the sRGB color space makes the GPU decode them to linear
+    data.set([color.r * 255, color.g * 255, color.b * 255, 255].map(Math.round), i * 4);
+  }
+  const texture = new THREE.DataTexture(data, 256, 1, THREE.RGBAFormat, THREE.UnsignedByteType);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.magFilter = filter;
+  texture.minFilter = filter;
+  texture.needsUpdate = true;
+  rampTextures.set(key, texture);
+  return texture;
+};
+
+const colormapTexture = (name: Colormap) => {
+  const stops = COLORMAP_STOPS[name].map(hex => new THREE.Color().setStyle(hex, THREE.NoColorSpace));
+  return createRampTexture(name, i => {
+    const t = (i / 255) * (stops.length - 1);
+    const index = Math.min(Math.floor(t), stops.length - 2);
+    return stops[index].clone().lerp(stops[index + 1], t - index);
+  }, THREE.LinearFilter);
+};
+
+const classificationTexture = () => createRampTexture('classification', i =>
+  new THREE.Color().setStyle(CLASSIFICATION_COLORS[i] ?? '#808080', THREE.NoColorSpace), THREE.NearestFilter);
+
+const parsedStops = new Map<Colormap, THREE.Color[]>();
+
+/** Color at `t` (0–1) along a colormap, in linear space for vertex colors. */
+export const sampleColormap = (name: Colormap, t: number, target: THREE.Color) => {
+  let stops = parsedStops.get(name);
+  if (!stops) {
+    stops = COLORMAP_STOPS[name].map(hex => new THREE.Color().setStyle(hex, THREE.NoColorSpace));
+    parsedStops.set(name, stops);
+  }
+  const position = THREE.MathUtils.clamp(t, 0, 1) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  // Blended in sRGB like the shader ramps, then converted
+  return target.copy(stops[index]).lerp(stops[index + 1], position - index).convertSRGBToLinear();
+};
+
+/** CSS gradient for a colormap, for legends in the UI. */
+export const colormapGradient = (name: Colormap) => `linear-gradient(to right, ${COLORMAP_STOPS[name].join(', ')})`;
+
+const ranges = new WeakMap<THREE.BufferAttribute | THREE.InterleavedBufferAttribute, [number, number]>();
+
+const attributeRange = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute) => {
+  const cached = ranges.get(attribute);
+  if (cached) return cached;
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < attribute.count; i++) {
+    const value = attribute.getX(i);
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  const range: [number, number] = min <= max ? [min, max] : [0, 1];
+  ranges.set(attribute, range);
+  return range;
+};
+
+const AXES = { x: new THREE.Vector3(1, 0, 0), y: new THREE.Vector3(0, 1, 0), z: new THREE.Vector3(0, 0, 1) };
+
+const VERTEX_HEAD = `#include <common>
+#if defined( PC_ELEVATION ) || defined( PC_SCALAR ) || defined( PC_CLASSIFICATION )
+uniform sampler2D pcRamp;
+uniform vec2 pcRange;
+uniform vec3 pcAxis;
+#endif
+#ifdef PC_SCALAR
+attribute float PC_FIELD;
+#endif
+#ifdef PC_CLASSIFICATION
+attribute float classification;
+#endif`;
+
+const VERTEX_COLOR = `#include <color_vertex>
+#if defined( PC_ELEVATION ) || defined( PC_SCALAR )
+#ifdef PC_ELEVATION
+float pcValue = dot( ( modelMatrix * vec4( position, 1.0 ) ).xyz, pcAxis );
+#else
+float pcValue = PC_FIELD;
+#endif
+vColor.rgb = texture2D( pcRamp, vec2( clamp( ( pcValue - pcRange.x ) / max( pcRange.y - pcRange.x, 1e-6 ), 0.0, 1.0 ), 0.5 ) ).rgb;
+#elif defined( PC_NORMALS )
+vColor.rgb = normalize( normal ) * 0.5 + 0.5;
+#elif defined( PC_CLASSIFICATION )
+vColor.rgb = texture2D( pcRamp, vec2( ( classification + 0.5 ) / 256.0, 0.5 ) ).rgb;
+#endif`;
+
+const FRAGMENT_MAIN = `void main() {
+#ifdef PC_ROUND
+vec2 pcCoord = gl_PointCoord - 0.5;
+if ( dot( pcCoord, pcCoord ) > 0.25 ) discard;
+#endif`;
+
+interface PointStyleState {
+  uniforms: {
+    pcRamp: { value: THREE.Texture | null };
+    pcRange: { value: THREE.Vector2 };
+    pcAxis: { value: THREE.Vector3 };
+  };
+  key: string;
+}
+
+// Kept off userData so the shader state never ends up in exported glTF extras
+const styleStates = new WeakMap<THREE.PointsMaterial, PointStyleState>();
+
+const pointStyleState = (material: THREE.PointsMaterial) => {
+  let state = styleStates.get(material);
+  if (!state) {
+    const uniforms = {
+      pcRamp: { value: null },
+      pcRange: { value: new THREE.Vector2(0, 1) },
+      pcAxis: { value: new THREE.Vector3(0, 1, 0) }
+    };
+    state = { uniforms, key: '' };
+    styleStates.set(material, state);
+    material.onBeforeCompile = shader => {
+      Object.assign(shader.uniforms, uniforms);
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', VERTEX_HEAD)
+        .replace('#include <color_vertex>', VERTEX_COLOR);
+      shader.fragmentShader = shader.fragmentShader.replace('void main() {', FRAGMENT_MAIN);
+    };
+  }
+  return state;
+};
+
+/** The color mode actually used, falling back to RGB when the cloud lacks the data. */
+export const resolveColorMode = (geometry: THREE.BufferGeometry, settings: PointCloudSettings): PointColorMode => {
+  const { colorMode, scalarField } = settings;
+  if (colorMode === 'normals' && !geometry.attributes.normal) return 'rgb';
+  if (colorMode === 'classification' && geometry.attributes.classification?.itemSize !== 1) return 'rgb';
+  if (colorMode === 'scalar' && (geometry.attributes[scalarField]?.itemSize !== 1 || scalarFieldNames([scalarField]).length === 0)) return 'rgb';
+  return colorMode;
+};
+
+/**
+ * Styles a point cloud's material in place: color mode, sizing and shape.
+ * Coloring happens in the shader from the existing attributes, so switching
+ * modes is instant and the geometry (and thus export) is left untouched.
+ * Elevation is measured in world space across `bounds` so several scans in
+ * one model share a single ramp.
+ */
+export const applyPointCloudStyle = (points: THREE.Points, settings: PointCloudSettings, pointSize: number, bounds: THREE.Box3) => {
+  const material = points.material as THREE.PointsMaterial;
+  if (!material?.isPointsMaterial) return;
+  const geometry = points.geometry;
+  const mode = resolveColorMode(geometry, settings);
+  const state = pointStyleState(material);
+  const { uniforms } = state;
+
+  const defines: Record<string, string> = {};
+  if (mode !== 'rgb') defines[`PC_${mode.toUpperCase()}`] = '';
+  if (mode === 'scalar') defines.PC_FIELD = settings.scalarField;
+  if (settings.shape === 'round') defines.PC_ROUND = '';
+
+  if (mode === 'elevation') {
+    const axis = settings.elevationAxis;
+    uniforms.pcAxis.value.copy(AXES[axis]);
+    uniforms.pcRange.value.set(bounds.min[axis], bounds.max[axis]);
+  } else if (mode === 'scalar') {
+    uniforms.pcRange.value.set(...attributeRange(geometry.attributes[settings.scalarField]));
+  }
+  uniforms.pcRamp.value = mode === 'classification' ? classificationTexture() : colormapTexture(settings.colormap);
+
+  const vertexColors = mode === 'rgb' ? !!geometry.attributes.color : true;
+  const key = JSON.stringify([defines, vertexColors]);
+  if (state.key !== key) {
+    state.key = key;
+    material.defines = defines;
+    material.vertexColors = vertexColors;
+    material.needsUpdate = true;
+  }
+
+  if (settings.sizeMode === 'screen') {
+    material.size = settings.screenPointSize;
+    material.sizeAttenuation = false;
+  } else {
+    material.size = pointSize;
+    material.sizeAttenuation = true;
+  }
+};
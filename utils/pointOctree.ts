@@ -0,0 +1,332 @@
+import * as THREE from 'three';
+import { PointOctreeStats } from '../types';
+import { selectPoints } from './pointProcessing';
+
+type Vec3 = [number, number, number];
+
+// Clouds from this size up are split into an octree and drawn to a point budget
+export const OCTREE_MIN_POINTS = 8000000;
+// Cells per axis of a node's sampling grid; each node keeps one point per occupied cell
+const NODE_GRID = 128;
+// Nodes this small keep all their points instead of splitting further
+const LEAF_POINTS = 50000;
+const MAX_LEVEL = 16;
+// A node is refined while its point spacing covers more than this many pixels
+const MAX_SCREEN_ERROR = 1.5;
+// Node loads in flight at once for progressively loaded octrees
+const MAX_LOADS = 4;
+// Progressively loaded nodes are evicted once this many budgets' worth of points are resident
+const CACHE_BUDGETS = 3;
+
+/** One octree node: a cube, its point spacing and (when already in memory) its points. */
+export interface OctreeNodeData {
+  key: string;
+  parent: string | null;
+  level: number;
+  min: Vec3;
+  size: number;
+  spacing: number;
+  pointCount: number;
+  geometry?: THREE.BufferGeometry | null;
+}
+
+/**
+ * Splits a point cloud into a Potree-style octree. Each node keeps one point
+ * per cell of a NODE_GRID³ grid over its cube, and hands the rest down to
+ * its octants, so every point ends up in exactly one node and drawing a node
+ * with all its ancestors gives the cloud at that node's density.
+ */
+export const buildOctree = (source: THREE.BufferGeometry): OctreeNodeData[] => {
+  const positions = (source.attributes.position as THREE.BufferAttribute).array;
+  const count = source.attributes.position.count;
+  source.computeBoundingBox();
+  const box = source.boundingBox!;
+  const extent = box.getSize(new THREE.Vector3());
+  const rootSize = Math.max(extent.x, extent.y, extent.z) * 1.0001 || 1;
+
+  const occupied = new Uint8Array(NODE_GRID ** 3);
+  const nodes: OctreeNodeData[] = [];
+  const all = new Uint32Array(count);
+  for (let i = 0; i < count; i++) all[i] = i;
+  const stack: { key: string; parent: string | null; level: number; min: Vec3; size: number; indices: Uint32Array }[] = [
+    { key: 'r', parent: null, level: 0, min: box.min.toArray(), size: rootSize, indices: all }
+  ];
+
+  while (stack.length > 0) {
+    const { key, parent, level, min, size, indices } = stack.pop()!;
+    const spacing = size / NODE_GRID;
+    const node = { key, parent, level, min, size, spacing };
+
+    if (indices.length <= LEAF_POINTS || level >= MAX_LEVEL) {
+      nodes.push({ ...node, pointCount: indices.length, geometry: selectPoints(source, indices) });
+      continue;
+    }
+
+    const kept: number[] = [];
+    const touched: number[] = [];
+    const octants = new Uint8Array(indices.length);
+    const octantCounts = new Uint32Array(8);
+    const half = NODE_GRID / 2;
+    indices.forEach((point, n) => {
+      const [x, y, z] = [0, 1, 2].map(c =>
+        Math.min(NODE_GRID - 1, Math.max(0, Math.floor((positions[point * 3 + c] - min[c]) / spacing))));
+      const cell = x + NODE_GRID * (y + NODE_GRID * z);
+      if (!occupied[cell]) {
+        occupied[cell] = 1;
+        touched.push(cell);
+        kept.push(point);
+        octants[n] = 255;
+      } else {
+        const octant = (x >= half ? 1 : 0) | (y >= half ? 2 : 0) | (z >= half ? 4 : 0);
+        octants[n] = octant;
+        octantCounts[octant]++;
+      }
+    });
+    touched.forEach(cell => { occupied[cell] = 0; });
+    nodes.push({ ...node, pointCount: kept.length, geometry: selectPoints(source, Uint32Array.from(kept)) });
+
+    const children = Array.from(octantCounts, count => new Uint32Array(count));
+    const fill = new Uint32Array(8);
+    indices.forEach((point, n) => {
+      const octant = octants[n];
+      if (octant !== 255) children[octant][fill[octant]++] = point;
+    });
+    children.forEach((childIndices, octant) => {
+      if (childIndices.length === 0) return;
+      const childSize = size / 2;
+      const childMin: Vec3 = [
+        min[0] + (octant & 1 ? childSize : 0),
+        min[1] + (octant & 2 ? childSize : 0),
+        min[2] + (octant & 4 ? childSize : 0)
+      ];
+      stack.push({ key: `${key}${octant}`, parent: key, level: level + 1, min: childMin, size: childSize, indices: childIndices });
+    });
+  }
+  return nodes;
+};
+
+interface OctreeNode {
+  data: OctreeNodeData;
+  sphere: THREE.Sphere;
+  children: OctreeNode[];
+  points: THREE.Points | null;
+  state: 'unloaded' | 'loading' | 'loaded';
+  lastUsed: number;
+}
+
+export interface PointOctree {
+  group: THREE.Group;
+  /** Bounds of the whole cloud, in the group's space, loaded or not. */
+  bounds: THREE.Box3;
+  /** Picks and shows the nodes for this frame within `budget` points. */
+  update: (camera: THREE.Camera, viewportHeight: number, budget: number) => PointOctreeStats;
+  /** Shows every node in memory, e.g. so an export clone takes them all. The next update undoes it. */
+  showLoaded: () => void;
+  dispose: () => void;
+}
+
+interface PointOctreeOptions {
+  bounds: THREE.Box3;
+  /** Fetches a node's points on demand; without it every node must come with its geometry. */
+  loadNode?: (key: string) => Promise<THREE.BufferGeometry | null>;
+  onDispose?: () => void;
+}
+
+interface QueuedNode {
+  node: OctreeNode;
+  pixels: number;
+  priority: number;
+}
+
+/** Binary max-heap of nodes waiting to be visited, keyed on `priority`. */
+const createNodeQueue = () => {
+  const heap: QueuedNode[] = [];
+  const swap = (i: number, j: number) => { [heap[i], heap[j]] = [heap[j], heap[i]]; };
+
+  const push = (entry: QueuedNode) => {
+    heap.push(entry);
+    for (let i = heap.length - 1; i > 0;) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent].priority >= heap[i].priority) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const pop = () => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      for (let i = 0; ;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let largest = i;
+        if (left < heap.length && heap[left].priority > heap[largest].priority) largest = left;
+        if (right < heap.length && heap[right].priority > heap[largest].priority) largest = right;
+        if (largest === i) break;
+        swap(i, largest);
+        i = largest;
+      }
+    }
+    return top;
+  };
+
+  return { push, pop, get size() { return heap.length; } };
+};
+
+const octrees = new WeakMap<THREE.Object3D, PointOctree>();
+
+/** The octree behind a model root, if it is a streamed point cloud. */
+export const getPointOctree = (object: THREE.Object3D | null | undefined) => object ? octrees.get(object) : undefined;
+
+/**
+ * Wraps octree nodes in a group whose children are swapped in and out each
+ * frame. Nodes are visited in order of their projected size; a node is drawn
+ * if it fits in the point budget, and its children are considered while its
+ * point spacing on screen is still coarser than MAX_SCREEN_ERROR pixels.
+ */
+export const createPointOctree = (nodeData: OctreeNodeData[], material: THREE.PointsMaterial, options: PointOctreeOptions): PointOctree => {
+  const group = new THREE.Group();
+  const nodes = new Map<string, OctreeNode>();
+  let loadedPoints = 0;
+  let loading = 0;
+  let frame = 0;
+  let disposed = false;
+
+  const attach = (node: OctreeNode, geometry: THREE.BufferGeometry | null | undefined) => {
+    node.state = 'loaded';
+    if (!geometry || geometry.attributes.position?.count === 0) return;
+    const points = new THREE.Points(geometry, material);
+    points.name = node.data.key;
+    points.visible = false;
+    points.matrixAutoUpdate = false;
+    node.points = points;
+    loadedPoints += geometry.attributes.position.count;
+    group.add(points);
+  };
+
+  nodeData.forEach(data => {
+    const center = new THREE.Vector3(...data.min).addScalar(data.size / 2);
+    const node: OctreeNode = {
+      data,
+      sphere: new THREE.Sphere(center, data.size * Math.sqrt(3) / 2),
+      children: [],
+      points: null,
+      state: 'unloaded',
+      lastUsed: 0
+    };
+    nodes.set(data.key, node);
+    if (data.geometry !== undefined || data.pointCount === 0) attach(node, data.geometry);
+  });
+  nodes.forEach(node => {
+    if (node.data.parent) nodes.get(node.data.parent)?.children.push(node);
+  });
+  const root = [...nodes.values()].find(node => !node.data.parent);
+  const totalPoints = nodeData.reduce((sum, data) => sum + data.pointCount, 0);
+
+  const load = (node: OctreeNode) => {
+    if (!options.loadNode) return;
+    node.state = 'loading';
+    loading++;
+    options.loadNode(node.data.key)
+      .then(geometry => {
+        if (disposed) geometry?.dispose();
+        else attach(node, geometry);
+      })
+      // A node that fails to load is left empty rather than retried every frame
+      .catch(() => attach(node, null))
+      .finally(() => { loading--; });
+  };
+
+  const unload = (node: OctreeNode) => {
+    if (!node.points) return;
+    loadedPoints -= node.points.geometry.attributes.position.count;
+    node.points.geometry.dispose();
+    group.remove(node.points);
+    node.points = null;
+    node.state = 'unloaded';
+  };
+
+  const frustum = new THREE.Frustum();
+  const viewProjection = new THREE.Matrix4();
+  const cameraPosition = new THREE.Vector3();
+  const sphere = new THREE.Sphere();
+
+  const update = (camera: THREE.Camera, viewportHeight: number, budget: number): PointOctreeStats => {
+    frame++;
+    group.updateWorldMatrix(true, false);
+    viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+    frustum.setFromProjectionMatrix(viewProjection);
+    camera.getWorldPosition(cameraPosition);
+    const worldScale = group.matrixWorld.getMaxScaleOnAxis();
+    const perspective = camera as THREE.PerspectiveCamera;
+    const orthographic = camera as THREE.OrthographicCamera;
+
+    // Pixels per world unit at the node, or -1 when it is outside the view
+    const pixelsPerUnit = (node: OctreeNode) => {
+      sphere.copy(node.sphere).applyMatrix4(group.matrixWorld);
+      if (!frustum.intersectsSphere(sphere)) return -1;
+      if (orthographic.isOrthographicCamera) return viewportHeight * orthographic.zoom / (orthographic.top - orthographic.bottom);
+      const distance = Math.max(sphere.center.distanceTo(cameraPosition) - sphere.radius, perspective.near);
+      return viewportHeight / (2 * Math.tan(THREE.MathUtils.degToRad(perspective.fov) / 2) * distance);
+    };
+
+    const visible = new Set<OctreeNode>();
+    let visiblePoints = 0;
+    const queue = createNodeQueue();
+    const enqueue = (node: OctreeNode) => {
+      const pixels = pixelsPerUnit(node);
+      if (pixels >= 0) queue.push({ node, pixels, priority: node.sphere.radius * worldScale * pixels });
+    };
+    if (root) enqueue(root);
+
+    while (queue.size > 0) {
+      const { node, pixels } = queue.pop();
+      if (node.state !== 'loaded') {
+        if (node.state === 'unloaded' && loading < MAX_LOADS) load(node);
+        continue;
+      }
+      const count = node.points ? node.points.geometry.attributes.position.count : 0;
+      // The first node is drawn whatever the budget, so the cloud never vanishes outright
+      if (visible.size > 0 && visiblePoints + count > budget) continue;
+      visible.add(node);
+      visiblePoints += count;
+      node.lastUsed = frame;
+      if (node.data.spacing * worldScale * pixels > MAX_SCREEN_ERROR) node.children.forEach(enqueue);
+    }
+
+    nodes.forEach(node => {
+      if (node.points) node.points.visible = visible.has(node);
+    });
+
+    if (options.loadNode && loadedPoints > budget * CACHE_BUDGETS) {
+      const evictable = [...nodes.values()]
+        .filter(node => node.points && node !== root && !visible.has(node))
+        .sort((a, b) => a.lastUsed - b.lastUsed);
+      for (const node of evictable) {
+        if (loadedPoints <= budget * CACHE_BUDGETS) break;
+        unload(node);
+      }
+    }
+
+    return { visible: visiblePoints, loaded: loadedPoints, total: totalPoints, progressive: !!options.loadNode };
+  };
+
+  const octree: PointOctree = {
+    group,
+    bounds: options.bounds,
+    update,
+    showLoaded: () => nodes.forEach(node => {
+      if (node.points) node.points.visible = true;
+    }),
+    dispose: () => {
+      disposed = true;
+      nodes.forEach(node => node.points?.geometry.dispose());
+      material.dispose();
+      options.onDispose?.();
+    }
+  };
+  octrees.set(group, octree);
+  return octree;
+};
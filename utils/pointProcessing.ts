@@ -0,0 +1,360 @@
+import * as THREE from 'three';
+import { PointProcessingSettings } from '../types';
+
+type Vec3 = [number, number, number];
+
+/** Point processing resolved against the model: everything here is in world units. */
+export interface PointProcessOptions {
+  crop: { min: Vec3; max: Vec3 } | null;
+  outliers: { neighbors: number; stdRatio: number } | null;
+  voxelSize: number | null;
+  targetCount: number | null;
+}
+
+export const createPointProcessingSettings = (): PointProcessingSettings => ({
+  crop: { enabled: false, min: [0, 0, 0], max: [1, 1, 1] },
+  outliers: { enabled: false, neighbors: 16, stdRatio: 2 },
+  voxel: { enabled: false, size: 0.005 },
+  subsample: { enabled: false, targetCount: 1000000 }
+});
+
+export const hasPointProcessing = (settings: PointProcessingSettings) =>
+  settings.crop.enabled || settings.outliers.enabled || settings.voxel.enabled || settings.subsample.enabled;
+
+/** The crop box in world space, from its fractions of the model bounds. */
+export const resolveCropBox = (crop: PointProcessingSettings['crop'], bounds: THREE.Box3) => {
+  const size = bounds.getSize(new THREE.Vector3());
+  return new THREE.Box3(
+    bounds.min.clone().add(size.clone().multiply(new THREE.Vector3(...crop.min))),
+    bounds.min.clone().add(size.clone().multiply(new THREE.Vector3(...crop.max)))
+  );
+};
+
+/**
+ * Turns the panel's settings, which are relative to the model bounds, into
+ * world-space options. `totalPoints` spreads the subsample target over
+ * several point clouds in proportion to their size.
+ */
+export const resolvePointProcessing = (
+  settings: PointProcessingSettings,
+  bounds: THREE.Box3,
+  pointCount: number,
+  totalPoints: number
+): PointProcessOptions => {
+  const size = bounds.getSize(new THREE.Vector3());
+  const crop = settings.crop.enabled ? resolveCropBox(settings.crop, bounds) : null;
+  return {
+    crop: crop ? { min: crop.min.toArray(), max: crop.max.toArray() } : null,
+    outliers: settings.outliers.enabled ? { neighbors: settings.outliers.neighbors, stdRatio: settings.outliers.stdRatio } : null,
+    voxelSize: settings.voxel.enabled ? Math.max(size.x, size.y, size.z) * settings.voxel.size || null : null,
+    targetCount: settings.subsample.enabled
+      ? Math.max(1, Math.round(settings.subsample.targetCount * pointCount / Math.max(totalPoints, 1)))
+      : null
+  };
+};
+
+/** Point positions after `matrix`, so cropping and voxels line up with the viewport. */
+const worldPositions = (geometry: THREE.BufferGeometry, matrix: THREE.Matrix4) => {
+  const position = geometry.attributes.position;
+  const output = new Float32Array(position.count * 3);
+  const point = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    point.fromBufferAttribute(position, i).applyMatrix4(matrix);
+    output[i * 3] = point.x;
+    output[i * 3 + 1] = point.y;
+    output[i * 3 + 2] = point.z;
+  }
+  return output;
+};
+
+export const allIndices = (count: number) => {
+  const indices = new Uint32Array(count);
+  for (let i = 0; i < count; i++) indices[i] = i;
+  return indices;
+};
+
+const sourceArray = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute) =>
+  (attribute as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute
+    ? (attribute as THREE.InterleavedBufferAttribute).clone().array
+    : (attribute as THREE.BufferAttribute).array;
+
+/** Copies the listed points, with all their attributes, into a new geometry. */
+export const selectPoints = (source: THREE.BufferGeometry, indices: Uint32Array) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.name = source.name;
+  geometry.userData = { ...source.userData };
+  Object.entries(source.attributes).forEach(([name, attribute]) => {
+    const array = sourceArray(attribute);
+    const { itemSize } = attribute;
+    const output = new (array.constructor as new (length: number) => THREE.TypedArray)(indices.length * itemSize);
+    for (let i = 0; i < indices.length; i++) {
+      for (let c = 0; c < itemSize; c++) output[i * itemSize + c] = array[indices[i] * itemSize + c];
+    }
+    geometry.setAttribute(name, new THREE.BufferAttribute(output, itemSize, attribute.normalized));
+  });
+  return geometry;
+};
+
+const cropPoints = (positions: Float32Array, indices: Uint32Array, { min, max }: { min: Vec3; max: Vec3 }) =>
+  indices.filter(i => {
+    for (let c = 0; c < 3; c++) {
+      const value = positions[i * 3 + c];
+      if (value < min[c] || value > max[c]) return false;
+    }
+    return true;
+  });
+
+const pointBounds = (positions: Float32Array, indices: Uint32Array) => {
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  indices.forEach(i => {
+    for (let c = 0; c < 3; c++) {
+      const value = positions[i * 3 + c];
+      if (value < min[c]) min[c] = value;
+      if (value > max[c]) max[c] = value;
+    }
+  });
+  return { min, max };
+};
+
+/** A uniform grid over a set of points, for neighbor queries. */
+const buildGrid = (positions: Float32Array, indices: Uint32Array, cellSize: number) => {
+  const { min, max } = pointBounds(positions, indices);
+  const dims = [0, 1, 2].map(c => Math.max(1, Math.floor((max[c] - min[c]) / cellSize) + 1));
+  const cellCoord = (i: number, c: number) => Math.min(dims[c] - 1, Math.floor((positions[i * 3 + c] - min[c]) / cellSize));
+  const keyOf = (x: number, y: number, z: number) => x + dims[0] * (y + dims[1] * z);
+
+  // Counting sort of the points by cell: cells[key] -> [start, end) into `items`
+  const cellIndex = new Map<number, number>();
+  const pointCell = new Uint32Array(indices.length);
+  const counts: number[] = [];
+  indices.forEach((point, n) => {
+    const key = keyOf(cellCoord(point, 0), cellCoord(point, 1), cellCoord(point, 2));
+    let cell = cellIndex.get(key);
+    if (cell === undefined) {
+      cell = counts.length;
+      cellIndex.set(key, cell);
+      counts.push(0);
+    }
+    counts[cell]++;
+    pointCell[n] = cell;
+  });
+  const starts = new Uint32Array(counts.length + 1);
+  counts.forEach((count, cell) => { starts[cell + 1] = starts[cell] + count; });
+  const fill = starts.slice(0, counts.length);
+  const items = new Uint32Array(indices.length);
+  indices.forEach((point, n) => { items[fill[pointCell[n]]++] = point; });
+
+  return { dims, cellIndex, starts, items, cellCoord, keyOf, occupied: counts.length };
+};
+
+/**
+ * Picks a grid cell size that puts roughly `neighbors` points in each
+ * occupied cell. Lidar clouds are mostly surfaces, so occupancy is measured
+ * rather than derived from the bounding volume.
+ */
+const neighborCellSize = (positions: Float32Array, indices: Uint32Array, neighbors: number) => {
+  const { min, max } = pointBounds(positions, indices);
+  const extent = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) || 1;
+  let cellSize = extent / Math.cbrt(indices.length / neighbors);
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const perCell = indices.length / buildGrid(positions, indices, cellSize).occupied;
+    if (perCell < neighbors * 2 && perCell > neighbors / 2) break;
+    cellSize *= Math.sqrt(neighbors / perCell);
+  }
+  return cellSize;
+};
+
+// Rings searched around a point before its neighborhood is declared empty
+const MAX_RINGS = 8;
+
+/**
+ * Calls `visit` with the `neighbors` nearest other points of each point:
+ * their squared distances and point indices, nearest first. The buffers are
+ * reused between calls, and `found` is smaller near isolated points.
+ */
+export const forEachNeighborhood = (
+  positions: Float32Array,
+  indices: Uint32Array,
+  neighbors: number,
+  visit: (point: number, n: number, found: number, distances: Float64Array, nearest: Uint32Array) => void
+) => {
+  const cellSize = neighborCellSize(positions, indices, neighbors);
+  const grid = buildGrid(positions, indices, cellSize);
+  const distances = new Float64Array(neighbors);
+  const nearest = new Uint32Array(neighbors);
+
+  indices.forEach((point, n) => {
+    const px = positions[point * 3];
+    const py = positions[point * 3 + 1];
+    const pz = positions[point * 3 + 2];
+    const cx = grid.cellCoord(point, 0);
+    const cy = grid.cellCoord(point, 1);
+    const cz = grid.cellCoord(point, 2);
+    let found = 0;
+
+    // Keeps the closest squared distances sorted ascending
+    const consider = (other: number) => {
+      if (other === point) return;
+      const dx = positions[other * 3] - px;
+      const dy = positions[other * 3 + 1] - py;
+      const dz = positions[other * 3 + 2] - pz;
+      const distance = dx * dx + dy * dy + dz * dz;
+      if (found === neighbors && distance >= distances[neighbors - 1]) return;
+      let slot = found < neighbors ? found++ : neighbors - 1;
+      while (slot > 0 && distances[slot - 1] > distance) {
+        distances[slot] = distances[slot - 1];
+        nearest[slot] = nearest[slot - 1];
+        slot--;
+      }
+      distances[slot] = distance;
+      nearest[slot] = other;
+    };
+
+    for (let ring = 0; ring <= MAX_RINGS; ring++) {
+      for (let x = cx - ring; x <= cx + ring; x++) {
+        if (x < 0 || x >= grid.dims[0]) continue;
+        for (let y = cy - ring; y <= cy + ring; y++) {
+          if (y < 0 || y >= grid.dims[1]) continue;
+          for (let z = cz - ring; z <= cz + ring; z++) {
+            if (z < 0 || z >= grid.dims[2]) continue;
+            // Only the shell of the ring; its inside was searched already
+            if (Math.max(Math.abs(x - cx), Math.abs(y - cy), Math.abs(z - cz)) !== ring) continue;
+            const cell = grid.cellIndex.get(grid.keyOf(x, y, z));
+            if (cell === undefined) continue;
+            for (let k = grid.starts[cell]; k < grid.starts[cell + 1]; k++) consider(grid.items[k]);
+          }
+        }
+      }
+      // Anything in the next ring is at least `ring` cells away
+      const reach = ring * cellSize;
+      if (found === neighbors && distances[neighbors - 1] <= reach * reach) break;
+    }
+
+    visit(point, n, found, distances, nearest);
+  });
+};
+
+/**
+ * Statistical outlier removal as in PCL: a point is dropped when its mean
+ * distance to its `neighbors` nearest neighbors lies more than `stdRatio`
+ * standard deviations above the cloud-wide mean.
+ */
+const removeOutliers = (positions: Float32Array, indices: Uint32Array, neighbors: number, stdRatio: number) => {
+  if (indices.length <= neighbors) return indices;
+  const meanDistances = new Float64Array(indices.length);
+  forEachNeighborhood(positions, indices, neighbors, (_, n, found, distances) => {
+    let sum = 0;
+    for (let k = 0; k < found; k++) sum += Math.sqrt(distances[k]);
+    meanDistances[n] = found > 0 ? sum / found : Infinity;
+  });
+
+  let count = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  meanDistances.forEach(distance => {
+    if (!Number.isFinite(distance)) return;
+    count++;
+    sum += distance;
+    sumSquares += distance * distance;
+  });
+  const mean = sum / Math.max(count, 1);
+  const std = Math.sqrt(Math.max(0, sumSquares / Math.max(count, 1) - mean * mean));
+  const threshold = mean + stdRatio * std;
+  return indices.filter((_, n) => meanDistances[n] <= threshold);
+};
+
+/**
+ * Replaces the points in each voxel with their centroid. Float and
+ * normalized attributes are averaged (normals renormalized); integer data
+ * such as classification keeps the value of the voxel's first point.
+ */
+const voxelDownsample = (source: THREE.BufferGeometry, positions: Float32Array, indices: Uint32Array, voxelSize: number) => {
+  const { min, max } = pointBounds(positions, indices);
+  const dims = [0, 1, 2].map(c => Math.floor((max[c] - min[c]) / voxelSize) + 1);
+  const voxelOf = new Map<number, number>();
+  const pointVoxel = new Uint32Array(indices.length);
+  const firstPoint: number[] = [];
+  indices.forEach((point, n) => {
+    const [x, y, z] = [0, 1, 2].map(c => Math.floor((positions[point * 3 + c] - min[c]) / voxelSize));
+    const key = x + dims[0] * (y + dims[1] * z);
+    let voxel = voxelOf.get(key);
+    if (voxel === undefined) {
+      voxel = firstPoint.length;
+      voxelOf.set(key, voxel);
+      firstPoint.push(point);
+    }
+    pointVoxel[n] = voxel;
+  });
+
+  const voxels = firstPoint.length;
+  const counts = new Uint32Array(voxels);
+  pointVoxel.forEach(voxel => { counts[voxel]++; });
+
+  const geometry = selectPoints(source, Uint32Array.from(firstPoint));
+  Object.entries(source.attributes).forEach(([name, attribute]) => {
+    const array = sourceArray(attribute);
+    const averaged = attribute.normalized || array instanceof Float32Array || array instanceof Float64Array;
+    if (!averaged) return;
+    const { itemSize } = attribute;
+    const sums = new Float64Array(voxels * itemSize);
+    indices.forEach((point, n) => {
+      const voxel = pointVoxel[n];
+      for (let c = 0; c < itemSize; c++) sums[voxel * itemSize + c] += array[point * itemSize + c];
+    });
+    const output = (geometry.attributes[name] as THREE.BufferAttribute).array;
+    const isInteger = !(array instanceof Float32Array || array instanceof Float64Array);
+    for (let voxel = 0; voxel < voxels; voxel++) {
+      for (let c = 0; c < itemSize; c++) {
+        const value = sums[voxel * itemSize + c] / counts[voxel];
+        output[voxel * itemSize + c] = isInteger ? Math.round(value) : value;
+      }
+    }
+  });
+  if (geometry.attributes.normal) geometry.normalizeNormals();
+  return geometry;
+};
+
+// Seeded so the preview and repeated runs pick the same points
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** Random subset of `targetCount` points, kept in their original order. */
+export const subsample = (indices: Uint32Array, targetCount: number) => {
+  if (indices.length <= targetCount) return indices;
+  const shuffled = indices.slice();
+  const random = mulberry32(1);
+  for (let i = 0; i < targetCount; i++) {
+    const j = i + Math.floor(random() * (shuffled.length - i));
+    const swap = shuffled[i];
+    shuffled[i] = shuffled[j];
+    shuffled[j] = swap;
+  }
+  return shuffled.slice(0, targetCount).sort();
+};
+
+/**
+ * Runs the enabled steps on one point cloud in order: crop, outlier
+ * removal, voxel downsampling, then random subsampling. `matrix` is the
+ * cloud's world matrix, as the options are in world units.
+ */
+export const processPoints = (source: THREE.BufferGeometry, matrix: THREE.Matrix4, options: PointProcessOptions) => {
+  const positions = worldPositions(source, matrix);
+  let indices = allIndices(source.attributes.position.count);
+  if (options.crop) indices = cropPoints(positions, indices, options.crop);
+  if (options.outliers) indices = removeOutliers(positions, indices, options.outliers.neighbors, options.outliers.stdRatio);
+
+  if (options.voxelSize && indices.length > 0) {
+    const voxelized = voxelDownsample(source, positions, indices, options.voxelSize);
+    const count = voxelized.attributes.position.count;
+    return options.targetCount && count > options.targetCount
+      ? selectPoints(voxelized, subsample(allIndices(count), options.targetCount))
+      : voxelized;
+  }
+  if (options.targetCount) indices = subsample(indices, options.targetCount);
+  return selectPoints(source, indices);
+};
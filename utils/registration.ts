@@ -0,0 +1,295 @@
+import * as THREE from 'three';
+import { MeshBVH } from 'three-mesh-bvh';
+import { RegistrationPair, RegistrationSettings, RegistrationSide } from '../types';
+import { allIndices, subsample } from './pointProcessing';
+
+const JACOBI_SWEEPS = 16;
+// Relative change in RMS below which refinement has settled
+const CONVERGENCE = 1e-5;
+
+export const createRegistrationSettings = (): RegistrationSettings => ({
+  iterations: 30,
+  samples: 20000,
+  overlap: 0.9
+});
+
+/**
+ * Adds a picked point to the first pair still missing that side, or starts
+ * a new pair, so picks can alternate between the models or come in runs.
+ */
+export const addPairPoint = (pairs: RegistrationPair[], side: RegistrationSide, point: [number, number, number]) => {
+  const open = pairs.findIndex(pair => pair[side] === null);
+  if (open < 0) {
+    const pair = { id: THREE.MathUtils.generateUUID(), source: null, target: null };
+    return [...pairs, { ...pair, [side]: point }];
+  }
+  return pairs.map((pair, i) => i === open ? { ...pair, [side]: point } : pair);
+};
+
+export const completePairs = (pairs: RegistrationPair[]) =>
+  pairs.filter((pair): pair is RegistrationPair & { source: [number, number, number]; target: [number, number, number] } => !!pair.source && !!pair.target);
+
+/** Eigenvector of the largest eigenvalue of a symmetric 4×4 matrix (row-major), by Jacobi rotations. */
+const largestEigenvector = (a: Float64Array) => {
+  const v = new Float64Array(16);
+  for (let i = 0; i < 4; i++) v[i * 5] = 1;
+  for (let sweep = 0; sweep < JACOBI_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < 3; p++) for (let q = p + 1; q < 4; q++) offDiagonal += Math.abs(a[p * 4 + q]);
+    if (offDiagonal < 1e-20) break;
+    for (let p = 0; p < 3; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        const apq = a[p * 4 + q];
+        if (Math.abs(apq) < 1e-30) continue;
+        const theta = (a[q * 4 + q] - a[p * 4 + p]) / (2 * apq);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < 4; k++) {
+          const akp = a[k * 4 + p];
+          const akq = a[k * 4 + q];
+          a[k * 4 + p] = c * akp - s * akq;
+          a[k * 4 + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 4; k++) {
+          const apk = a[p * 4 + k];
+          const aqk = a[q * 4 + k];
+          a[p * 4 + k] = c * apk - s * aqk;
+          a[q * 4 + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 4; k++) {
+          const vkp = v[k * 4 + p];
+          const vkq = v[k * 4 + q];
+          v[k * 4 + p] = c * vkp - s * vkq;
+          v[k * 4 + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  let largest = 0;
+  for (let i = 1; i < 4; i++) if (a[i * 5] > a[largest * 5]) largest = i;
+  return [v[largest], v[4 + largest], v[8 + largest], v[12 + largest]];
+};
+
+/**
+ * The rigid transform that best maps the `source` points onto their
+ * `target` counterparts in the least-squares sense (Horn's quaternion
+ * method). Both are flat xyz arrays of `count` points.
+ */
+const fitRigidTransform = (source: ArrayLike<number>, target: ArrayLike<number>, count: number) => {
+  const sourceCenter = [0, 0, 0];
+  const targetCenter = [0, 0, 0];
+  for (let i = 0; i < count; i++) {
+    for (let c = 0; c < 3; c++) {
+      sourceCenter[c] += source[i * 3 + c] / count;
+      targetCenter[c] += target[i * 3 + c] / count;
+    }
+  }
+
+  // Cross-covariance of the centered point sets, row-major
+  const s = new Float64Array(9);
+  for (let i = 0; i < count; i++) {
+    for (let r = 0; r < 3; r++) {
+      const a = source[i * 3 + r] - sourceCenter[r];
+      for (let c = 0; c < 3; c++) s[r * 3 + c] += a * (target[i * 3 + c] - targetCenter[c]);
+    }
+  }
+  const [sxx, sxy, sxz, syx, syy, syz, szx, szy, szz] = s;
+  const n = new Float64Array([
+    sxx + syy + szz, syz - szy, szx - sxz, sxy - syx,
+    syz - szy, sxx - syy - szz, sxy + syx, szx + sxz,
+    szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy,
+    sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz
+  ]);
+  const [w, x, y, z] = largestEigenvector(n);
+
+  const matrix = new THREE.Matrix4().makeRotationFromQuaternion(new THREE.Quaternion(x, y, z, w).normalize());
+  const offset = new THREE.Vector3(...sourceCenter).applyMatrix4(matrix);
+  return matrix.setPosition(targetCenter[0] - offset.x, targetCenter[1] - offset.y, targetCenter[2] - offset.z);
+};
+
+/**
+ * The rigid transform taking picked points on the moving model onto their
+ * picks on the reference, with the RMS distance left between the pairs.
+ * Throws when there are fewer than three pairs or they lie on one line,
+ * which leaves the rotation about that line open.
+ */
+export const alignPointPairs = (source: THREE.Vector3[], target: THREE.Vector3[]) => {
+  if (source.length < 3) throw new Error('At least three point pairs are needed');
+  const extent = new THREE.Box3().setFromPoints(source).getSize(new THREE.Vector3()).length();
+  const [base] = source;
+  const spread = Math.max(...source.flatMap(a => source.map(b => a.clone().sub(base).cross(b.clone().sub(base)).length())));
+  if (spread <= extent * extent * 1e-6) throw new Error('The picked points lie on one line; pick at least one point off it');
+
+  const matrix = fitRigidTransform(source.flatMap(p => p.toArray()), target.flatMap(p => p.toArray()), source.length);
+  const moved = new THREE.Vector3();
+  const squares = source.reduce((sum, point, i) => sum + moved.copy(point).applyMatrix4(matrix).distanceToSquared(target[i]), 0);
+  return { matrix, rms: Math.sqrt(squares / source.length) };
+};
+
+/** A static k-d tree over a point set, for nearest-point queries from anywhere in space. */
+const createKdTree = (positions: Float32Array) => {
+  const order = allIndices(positions.length / 3);
+  const axes = new Uint8Array(order.length);
+  const coordinate = (n: number, axis: number) => positions[order[n] * 3 + axis];
+
+  // Moves the median along `axis` of order[lo, hi) to `k`, smaller ones before it, larger after
+  const select = (lo: number, hi: number, k: number, axis: number) => {
+    let left = lo;
+    let right = hi - 1;
+    while (right > left) {
+      const pivot = coordinate((left + right) >> 1, axis);
+      let i = left;
+      let j = right;
+      while (i <= j) {
+        while (coordinate(i, axis) < pivot) i++;
+        while (coordinate(j, axis) > pivot) j--;
+        if (i <= j) {
+          const swap = order[i];
+          order[i++] = order[j];
+          order[j--] = swap;
+        }
+      }
+      if (k <= j) right = j;
+      else if (k >= i) left = i;
+      else break;
+    }
+  };
+
+  const build = (lo: number, hi: number) => {
+    if (hi - lo <= 1) return;
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let n = lo; n < hi; n++) {
+      for (let c = 0; c < 3; c++) {
+        const value = coordinate(n, c);
+        if (value < min[c]) min[c] = value;
+        if (value > max[c]) max[c] = value;
+      }
+    }
+    const extent = [0, 1, 2].map(c => max[c] - min[c]);
+    const axis = extent[0] >= extent[1] && extent[0] >= extent[2] ? 0 : extent[1] >= extent[2] ? 1 : 2;
+    const mid = (lo + hi) >> 1;
+    select(lo, hi, mid, axis);
+    axes[mid] = axis;
+    build(lo, mid);
+    build(mid + 1, hi);
+  };
+  build(0, order.length);
+
+  /** Writes the point nearest to `query` into `target` and returns its squared distance. */
+  const nearest = (query: THREE.Vector3, target: THREE.Vector3) => {
+    const q = [query.x, query.y, query.z];
+    let best = Infinity;
+    let bestPoint = -1;
+    const search = (lo: number, hi: number) => {
+      if (lo >= hi) return;
+      const mid = (lo + hi) >> 1;
+      const point = order[mid];
+      const dx = positions[point * 3] - q[0];
+      const dy = positions[point * 3 + 1] - q[1];
+      const dz = positions[point * 3 + 2] - q[2];
+      const distance = dx * dx + dy * dy + dz * dz;
+      if (distance < best) {
+        best = distance;
+        bestPoint = point;
+      }
+      const diff = q[axes[mid]] - positions[point * 3 + axes[mid]];
+      if (diff < 0) {
+        search(lo, mid);
+        if (diff * diff < best) search(mid + 1, hi);
+      } else {
+        search(mid + 1, hi);
+        if (diff * diff < best) search(lo, mid);
+      }
+    };
+    search(0, order.length);
+    target.fromArray(positions, bestPoint * 3);
+    return best;
+  };
+
+  return { nearest };
+};
+
+/**
+ * Nearest points on the reference: on its surface when it has triangles,
+ * otherwise among its points.
+ */
+const createNearestQuery = (reference: THREE.BufferGeometry) => {
+  if (reference.index) {
+    const bvh = new MeshBVH(reference);
+    const hit = { point: new THREE.Vector3(), distance: 0, faceIndex: 0 };
+    return (query: THREE.Vector3, target: THREE.Vector3) => {
+      bvh.closestPointToPoint(query, hit);
+      target.copy(hit.point);
+      return hit.distance * hit.distance;
+    };
+  }
+  return createKdTree(reference.attributes.position.array as Float32Array).nearest;
+};
+
+/** Up to `count` of the points, picked at random. */
+export const samplePositions = (positions: Float32Array, count: number) => {
+  const picked = subsample(allIndices(positions.length / 3), count);
+  const samples = new Float32Array(picked.length * 3);
+  picked.forEach((point, i) => samples.set(positions.subarray(point * 3, point * 3 + 3), i * 3));
+  return samples;
+};
+
+/**
+ * Iterative closest point: matches each sample of the moving model to the
+ * nearest point of the reference, drops the worst matches beyond the
+ * overlap share and moves the samples by the rigid transform that best fits
+ * the rest, until the RMS error settles. Both inputs are in world space.
+ * Returns the total transform and the RMS of the kept matches at each
+ * iteration, the first being the error before refinement.
+ */
+export const refineRegistration = (
+  reference: THREE.BufferGeometry,
+  positions: Float32Array,
+  settings: RegistrationSettings,
+  onIteration?: (iteration: number, rms: number) => void
+) => {
+  const nearest = createNearestQuery(reference);
+  const count = positions.length / 3;
+  const moved = positions.slice();
+  const matches = new Float32Array(positions.length);
+  const squares = new Float64Array(count);
+  const kept = Math.max(3, Math.round(count * THREE.MathUtils.clamp(settings.overlap, 0, 1)));
+  const keptSource = new Float32Array(kept * 3);
+  const keptTarget = new Float32Array(kept * 3);
+  const matrix = new THREE.Matrix4();
+  const point = new THREE.Vector3();
+  const match = new THREE.Vector3();
+  const rms: number[] = [];
+
+  for (let iteration = 0; iteration <= settings.iterations; iteration++) {
+    for (let i = 0; i < count; i++) {
+      squares[i] = nearest(point.fromArray(moved, i * 3), match);
+      match.toArray(matches, i * 3);
+    }
+    // Keep the closest matches; a scan's overhang onto nothing would drag the fit
+    const cutoff = squares.slice().sort()[Math.min(count, kept) - 1];
+    let n = 0;
+    let sum = 0;
+    for (let i = 0; i < count && n < kept; i++) {
+      if (squares[i] > cutoff) continue;
+      keptSource.set(moved.subarray(i * 3, i * 3 + 3), n * 3);
+      keptTarget.set(matches.subarray(i * 3, i * 3 + 3), n * 3);
+      sum += squares[i];
+      n++;
+    }
+    const error = Math.sqrt(sum / n);
+    rms.push(error);
+    onIteration?.(iteration, error);
+
+    const previous = rms[rms.length - 2];
+    if (iteration === settings.iterations || error === 0 || (previous !== undefined && previous - error <= previous * CONVERGENCE)) break;
+
+    const step = fitRigidTransform(keptSource, keptTarget, n);
+    matrix.premultiply(step);
+    for (let i = 0; i < count; i++) point.fromArray(moved, i * 3).applyMatrix4(step).toArray(moved, i * 3);
+  }
+
+  return { matrix, rms };
+};
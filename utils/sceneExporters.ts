@@ -0,0 +1,336 @@
+import * as THREE from 'three';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { PLYExporter } from 'three/examples/jsm/exporters/PLYExporter.js';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { USDZExporter } from 'three/examples/jsm/exporters/USDZExporter.js';
+import { strToU8, zipSync } from 'fflate';
+import { ExportConfig, ExportFormat } from '../types';
+
+export interface EncodedScene {
+  data: Uint8Array | ArrayBuffer | string;
+  extension: string;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  glb: 'GLB Binary',
+  gltf: 'glTF + BIN + Textures (.zip)',
+  obj: 'OBJ / MTL',
+  ply: 'PLY',
+  pcd: 'PCD (Point Clouds)',
+  stl: 'STL',
+  usdz: 'USDZ (AR Quick Look)'
+};
+
+export const GLTF_FORMATS: ExportFormat[] = ['glb', 'gltf'];
+
+// Formats that can only carry triangles, so point clouds cannot be exported to them
+export const MESH_ONLY_FORMATS: ExportFormat[] = ['obj', 'stl', 'usdz'];
+
+// Formats that only carry points, so meshes cannot be exported to them
+export const POINT_ONLY_FORMATS: ExportFormat[] = ['pcd'];
+
+const sanitizeName = (name: string) => name.replace(/[^\w.-]+/g, '_');
+
+const textureToPNG = async (texture: THREE.Texture): Promise<Uint8Array | null> => {
+  const image = texture.image as any;
+  if (!image || !image.width || !image.height) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  if (image.data instanceof Uint8Array || image.data instanceof Uint8ClampedArray) {
+    context.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+  } else if (!image.data) {
+    context.drawImage(image, 0, 0);
+  } else {
+    return null;
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+};
+
+/**
+ * Gives every mesh its own uniquely named material copy so OBJExporter can
+ * write `usemtl` lines, and flips V for glTF-sourced textures since OBJ
+ * puts the UV origin at the bottom left.
+ */
+const prepareObjMaterials = (scene: THREE.Object3D) => {
+  const materials = new Map<THREE.Material, THREE.Material>();
+  const usedNames = new Set<string>();
+
+  scene.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.material) return;
+    // OBJExporter only names a single material per mesh
+    const source = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
+
+    let material = materials.get(source);
+    if (!material) {
+      material = source.clone();
+      let name = sanitizeName(source.name || `material_${materials.size}`);
+      while (usedNames.has(name)) name = `${name}_${materials.size}`;
+      usedNames.add(name);
+      material.name = name;
+      materials.set(source, material);
+    }
+    mesh.material = material;
+
+    const map = (material as THREE.MeshStandardMaterial).map;
+    const uv = mesh.geometry.getAttribute('uv');
+    if (map && !map.flipY && uv) {
+      mesh.geometry = mesh.geometry.clone();
+      const flipped = mesh.geometry.getAttribute('uv');
+      for (let i = 0; i < flipped.count; i++) flipped.setY(i, 1 - flipped.getY(i));
+    }
+  });
+
+  return [...materials.values()];
+};
+
+const buildMaterialLibrary = async (materials: THREE.Material[]) => {
+  const textures: Record<string, Uint8Array> = {};
+  const textureNames = new Map<THREE.Texture, string | null>();
+  const color = new THREE.Color();
+
+  const writeTexture = async (texture: THREE.Texture | null | undefined, fileName: string) => {
+    if (!texture) return null;
+    if (!textureNames.has(texture)) {
+      const png = await textureToPNG(texture);
+      if (png) textures[fileName] = png;
+      textureNames.set(texture, png ? fileName : null);
+    }
+    return textureNames.get(texture) ?? null;
+  };
+
+  const lines: string[] = [];
+  for (const material of materials) {
+    const m = material as any;
+    lines.push(`newmtl ${material.name}`);
+    if (m.color) {
+      m.color.getRGB(color, THREE.SRGBColorSpace);
+      lines.push(`Kd ${color.r.toFixed(6)} ${color.g.toFixed(6)} ${color.b.toFixed(6)}`);
+    }
+    if (m.emissive && m.emissive.getHex() !== 0) {
+      m.emissive.getRGB(color, THREE.SRGBColorSpace);
+      lines.push(`Ke ${color.r.toFixed(6)} ${color.g.toFixed(6)} ${color.b.toFixed(6)}`);
+    }
+    if (m.shininess !== undefined) lines.push(`Ns ${m.shininess}`);
+    else if (m.roughness !== undefined) lines.push(`Ns ${Math.round((1 - m.roughness) ** 2 * 1000)}`);
+    lines.push(`d ${material.opacity}`);
+
+    const diffuse = await writeTexture(m.map, `${material.name}_diffuse.png`);
+    if (diffuse) lines.push(`map_Kd ${diffuse}`);
+    const normal = await writeTexture(m.normalMap, `${material.name}_normal.png`);
+    if (normal) lines.push(`norm ${normal}`);
+    const alpha = await writeTexture(m.alphaMap, `${material.name}_alpha.png`);
+    if (alpha) lines.push(`map_d ${alpha}`);
+    lines.push('');
+  }
+
+  return { mtl: lines.join('\n'), textures };
+};
+
+const exportOBJ = async (scene: THREE.Scene, baseName: string, config: ExportConfig): Promise<EncodedScene> => {
+  if (!config.objSettings.includeMaterials) {
+    return { data: new OBJExporter().parse(scene), extension: 'obj' };
+  }
+
+  const { mtl, textures } = await buildMaterialLibrary(prepareObjMaterials(scene));
+  const obj = `mtllib ${baseName}.mtl\n${new OBJExporter().parse(scene)}`;
+  const archive = zipSync({
+    [`${baseName}.obj`]: strToU8(obj),
+    [`${baseName}.mtl`]: strToU8(mtl),
+    ...textures
+  });
+  return { data: archive, extension: 'zip' };
+};
+
+const exportPLY = (scene: THREE.Scene, config: ExportConfig): EncodedScene => {
+  const { binary, includeNormals, includeColors } = config.plySettings;
+  const excludeAttributes = ['uv'];
+  if (!includeNormals) excludeAttributes.push('normal');
+  if (!includeColors) excludeAttributes.push('color');
+
+  // The callback only fires on the next animation frame; the return value is the same file
+  const data = new PLYExporter().parse(scene, () => {}, {
+    binary,
+    excludeAttributes,
+    littleEndian: true
+  }) as ArrayBuffer | string | null;
+  if (data === null) throw new Error('PLY export produced no data');
+  return { data, extension: 'ply' };
+};
+
+interface PcdField {
+  name: string;
+  type: 'F' | 'I' | 'U';
+  size: number;
+  count: number;
+}
+
+const PCD_NORMAL_FIELDS = ['normal_x', 'normal_y', 'normal_z'];
+
+/** PCD field type for a one-component attribute, from its backing array. */
+const pcdScalarField = (name: string, attribute: THREE.BufferAttribute): PcdField => {
+  const array = attribute.array;
+  if (attribute.normalized || array instanceof Float32Array || array instanceof Float64Array) {
+    return { name, type: 'F', size: 4, count: 1 };
+  }
+  const signed = array instanceof Int8Array || array instanceof Int16Array || array instanceof Int32Array;
+  return { name, type: signed ? 'I' : 'U', size: array.BYTES_PER_ELEMENT, count: 1 };
+};
+
+const writePcdValue = (view: DataView, offset: number, field: PcdField, value: number) => {
+  if (field.type === 'F') view.setFloat32(offset, value, true);
+  else if (field.size === 1) field.type === 'I' ? view.setInt8(offset, value) : view.setUint8(offset, value);
+  else if (field.size === 2) field.type === 'I' ? view.setInt16(offset, value, true) : view.setUint16(offset, value, true);
+  else field.type === 'I' ? view.setInt32(offset, value, true) : view.setUint32(offset, value, true);
+};
+
+/**
+ * Writes every point cloud in the scene to one PCD file in world space.
+ * Colors are packed into the usual `rgb` field (as U, which PCDLoader and
+ * PCL both read), normals become `normal_*`, and one-component attributes
+ * such as intensity or label are written under their own names. Only
+ * attributes every cloud has are written.
+ */
+const exportPCD = (scene: THREE.Scene, config: ExportConfig): EncodedScene => {
+  const clouds: THREE.Points[] = [];
+  scene.traverse(child => {
+    if ((child as THREE.Points).isPoints && (child as THREE.Points).geometry.attributes.position) clouds.push(child as THREE.Points);
+  });
+  if (clouds.length === 0) throw new Error('PCD export needs at least one point cloud');
+
+  const shared = (name: string, itemSize: number) =>
+    clouds.every(cloud => {
+      const attribute = cloud.geometry.attributes[name];
+      return attribute?.itemSize === itemSize && !(attribute instanceof THREE.InterleavedBufferAttribute);
+    });
+  const floatField = (name: string): PcdField => ({ name, type: 'F', size: 4, count: 1 });
+  const fields = ['x', 'y', 'z'].map(floatField);
+  if (shared('normal', 3)) fields.push(...PCD_NORMAL_FIELDS.map(floatField));
+  if (shared('color', 3) || shared('color', 4)) fields.push({ name: 'rgb', type: 'U', size: 4, count: 1 });
+  const scalars = Object.keys(clouds[0].geometry.attributes)
+    .filter(name => !['position', 'normal', 'color', 'rgb', 'x', 'y', 'z', ...PCD_NORMAL_FIELDS].includes(name) && shared(name, 1))
+    .map(name => pcdScalarField(name, clouds[0].geometry.attributes[name] as THREE.BufferAttribute));
+  fields.push(...scalars);
+
+  const offsets: number[] = [];
+  let rowSize = 0;
+  fields.forEach(field => {
+    offsets.push(rowSize);
+    rowSize += field.size;
+  });
+  const total = clouds.reduce((sum, cloud) => sum + cloud.geometry.attributes.position.count, 0);
+  const binary = config.pcdSettings.binary;
+  const header = [
+    '# .PCD v0.7 - Point Cloud Data file format',
+    'VERSION 0.7',
+    `FIELDS ${fields.map(f => f.name).join(' ')}`,
+    `SIZE ${fields.map(f => f.size).join(' ')}`,
+    `TYPE ${fields.map(f => f.type).join(' ')}`,
+    `COUNT ${fields.map(f => f.count).join(' ')}`,
+    `WIDTH ${total}`,
+    'HEIGHT 1',
+    'VIEWPOINT 0 0 0 1 0 0 0',
+    `POINTS ${total}`,
+    `DATA ${binary ? 'binary' : 'ascii'}`,
+    ''
+  ].join('\n');
+
+  const body = binary ? new Uint8Array(total * rowSize) : null;
+  const view = body ? new DataView(body.buffer) : null;
+  const lines: string[] = [];
+  const point = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const normalMatrix = new THREE.Matrix3();
+  const color = new THREE.Color();
+  const values = new Array<number>(fields.length);
+  let row = 0;
+
+  clouds.forEach(cloud => {
+    const { attributes } = cloud.geometry;
+    normalMatrix.getNormalMatrix(cloud.matrixWorld);
+    for (let i = 0; i < attributes.position.count; i++, row++) {
+      let f = 0;
+      point.fromBufferAttribute(attributes.position, i).applyMatrix4(cloud.matrixWorld);
+      values[f++] = point.x;
+      values[f++] = point.y;
+      values[f++] = point.z;
+      if (fields[f]?.name === 'normal_x') {
+        normal.fromBufferAttribute(attributes.normal, i).applyMatrix3(normalMatrix).normalize();
+        values[f++] = normal.x;
+        values[f++] = normal.y;
+        values[f++] = normal.z;
+      }
+      if (fields[f]?.name === 'rgb') {
+        // Stored linear, written as 8-bit sRGB
+        color.fromBufferAttribute(attributes.color as THREE.BufferAttribute, i).convertLinearToSRGB();
+        const [r, g, b] = [color.r, color.g, color.b].map(c => Math.round(THREE.MathUtils.clamp(c, 0, 1) * 255));
+        values[f++] = ((r << 16) | (g << 8) | b) >>> 0;
+      }
+      scalars.forEach(field => {
+        const attribute = attributes[field.name] as THREE.BufferAttribute;
+        values[f++] = field.type === 'F' ? attribute.getX(i) : attribute.array[i];
+      });
+
+      if (view) fields.forEach((field, k) => writePcdValue(view, row * rowSize + offsets[k], field, values[k]));
+      else lines.push(values.map((value, k) => fields[k].type === 'F' ? +value.toPrecision(8) : value).join(' '));
+    }
+  });
+
+  if (!body) return { data: `${header}${lines.join('\n')}\n`, extension: 'pcd' };
+  const headerBytes = strToU8(header);
+  const data = new Uint8Array(headerBytes.length + body.length);
+  data.set(headerBytes);
+  data.set(body, headerBytes.length);
+  return { data, extension: 'pcd' };
+};
+
+const exportSTL = (scene: THREE.Scene, config: ExportConfig): EncodedScene => {
+  const result = new STLExporter().parse(scene, { binary: config.stlSettings.binary }) as DataView | string;
+  const data = typeof result === 'string'
+    ? result
+    : new Uint8Array(result.buffer, result.byteOffset, result.byteLength);
+  return { data, extension: 'stl' };
+};
+
+const exportUSDZ = async (scene: THREE.Scene, config: ExportConfig): Promise<EncodedScene> => {
+  const { quickLookCompatible, anchoring, maxTextureSize } = config.usdzSettings;
+  const data = await new USDZExporter().parseAsync(scene, {
+    quickLookCompatible,
+    maxTextureSize,
+    ar: {
+      anchoring: { type: 'plane' },
+      planeAnchoring: { alignment: anchoring }
+    }
+  } as any);
+  return { data, extension: 'usdz' };
+};
+
+/**
+ * Serializes an export scene with the three.js exporter for a non-glTF
+ * format. glTF output goes through GLTFExporter and the compression pass
+ * instead.
+ */
+export const exportSceneAs = async (scene: THREE.Scene, baseName: string, config: ExportConfig): Promise<EncodedScene> => {
+  scene.updateMatrixWorld(true);
+  switch (config.format) {
+    case 'obj':
+      return exportOBJ(scene, baseName, config);
+    case 'ply':
+      return exportPLY(scene, config);
+    case 'pcd':
+      return exportPCD(scene, config);
+    case 'stl':
+      return exportSTL(scene, config);
+    case 'usdz':
+      return exportUSDZ(scene, config);
+    default:
+      throw new Error(`Unsupported export format: ${config.format}`);
+  }
+};
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import { SceneNode } from '../types';
+import { getPointOctree } from './pointOctree';
+
+export const nodeType = (object: THREE.Object3D) => {
+  const o = object as any;
+  if (o.isBone) return 'Bone';
+  if (o.isSkinnedMesh) return 'SkinnedMesh';
+  if (o.isInstancedMesh) return 'InstancedMesh';
+  if (o.isMesh) return 'Mesh';
+  if (o.isPoints) return 'Points';
+  if (o.isLine) return 'Line';
+  if (o.isCamera) return 'Camera';
+  if (o.isLight) return 'Light';
+  if (o.isGroup || o.isScene) return 'Group';
+  return 'Object3D';
+};
+
+export const buildSceneGraph = (object: THREE.Object3D): SceneNode => ({
+  id: object.uuid,
+  name: object.name || nodeType(object),
+  type: nodeType(object),
+  visible: object.visible,
+  // Octree nodes are streamed in and out, so a streamed cloud is listed as one node
+  children: getPointOctree(object) ? [] : object.children.map(buildSceneGraph)
+});
+
+/** Lists the ids of every node that starts out hidden, so the outliner can own visibility from then on. */
+export const collectHiddenNodes = (node: SceneNode, hidden: string[] = []) => {
+  if (!node.visible) hidden.push(node.id);
+  node.children.forEach(child => collectHiddenNodes(child, hidden));
+  return hidden;
+};
+
+/** Maps each node id to its parent id so a viewport selection can expand its ancestors. */
+export const buildParentMap = (node: SceneNode, parents: Record<string, string> = {}) => {
+  node.children.forEach(child => {
+    parents[child.id] = node.id;
+    buildParentMap(child, parents);
+  });
+  return parents;
+};
+
+/**
+ * Applies outliner visibility: hidden nodes are switched off, and while a
+ * node is isolated everything outside its subtree and ancestor chain is too.
+ */
+export const applyNodeVisibility = (root: THREE.Object3D, hiddenIds: Set<string>, isolatedId: string | null) => {
+  const isolated = isolatedId ? root.getObjectByProperty('uuid', isolatedId) : undefined;
+  const keep = new Set<THREE.Object3D>();
+  if (isolated) {
+    isolated.traverse(child => keep.add(child));
+    isolated.traverseAncestors(ancestor => keep.add(ancestor));
+  }
+  root.traverse(child => {
+    child.visible = !hiddenIds.has(child.uuid) && (!isolated || keep.has(child));
+  });
+};
+
+/** True when `root` is the object itself or one of its ancestors. */
+export const isInsideTree = (object: THREE.Object3D, root: THREE.Object3D) => {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    if (current === root) return true;
+  }
+  return false;
+};
+
+/** True when the object and all of its ancestors up to `root` are visible. */
+export const isVisibleInTree = (object: THREE.Object3D, root: THREE.Object3D) => {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    if (!current.visible) return false;
+    if (current === root) return true;
+  }
+  return true;
+};
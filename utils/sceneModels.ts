@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { MeasurementUnit, ModelMetadata, ModelTransform, PlacementFix } from '../types';
+import { UNIT_METERS } from './measurements';
+import { ModelSource } from './modelFiles';
+
+/** The id compare settings use for the main model. */
+export const MAIN_MODEL_ID = 'main';
+
+/** A model loaded next to the main one, e.g. a reference scan or an exported copy to check against. */
+export interface SceneModel {
+  id: string;
+  source: ModelSource;
+  visible: boolean;
+  transform: ModelTransform;
+  /** Null until the model has loaded. */
+  metadata: ModelMetadata | null;
+}
+
+export const createModelTransform = (): ModelTransform => ({
+  position: [0, 0, 0],
+  rotation: [0, 0, 0],
+  scale: [1, 1, 1]
+});
+
+export const createSceneModel = (source: ModelSource): SceneModel => ({
+  id: THREE.MathUtils.generateUUID(),
+  source,
+  visible: true,
+  transform: createModelTransform(),
+  metadata: null
+});
+
+export const applyModelTransform = (object: THREE.Object3D, { position, rotation, scale }: ModelTransform) => {
+  object.position.set(...position);
+  object.rotation.set(...rotation.map(THREE.MathUtils.degToRad) as [number, number, number]);
+  object.scale.set(...scale);
+};
+
+export const readModelTransform = (object: THREE.Object3D): ModelTransform => ({
+  position: object.position.toArray() as [number, number, number],
+  rotation: [object.rotation.x, object.rotation.y, object.rotation.z].map(THREE.MathUtils.radToDeg) as [number, number, number],
+  scale: object.scale.toArray() as [number, number, number]
+});
+
+export const modelTransformMatrix = (transform: ModelTransform) => {
+  const object = new THREE.Object3D();
+  applyModelTransform(object, transform);
+  object.updateMatrix();
+  return object.matrix;
+};
+
+export const isIdentityTransform = (transform: ModelTransform) => modelTransformMatrix(transform).equals(new THREE.Matrix4());
+
+/** A transform moved further by the world-space `matrix`, e.g. a correction found by registration. */
+export const premultiplyModelTransform = (transform: ModelTransform, matrix: THREE.Matrix4) => {
+  const object = new THREE.Object3D();
+  applyModelTransform(object, transform);
+  object.updateMatrix();
+  object.applyMatrix4(matrix);
+  return readModelTransform(object);
+};
+
+/** Scales a transform about the origin so a model drawn in `from` units reads in `to` units. */
+export const convertModelUnits = (transform: ModelTransform, from: MeasurementUnit, to: MeasurementUnit) => {
+  const factor = UNIT_METERS[from] / UNIT_METERS[to];
+  return premultiplyModelTransform(transform, new THREE.Matrix4().makeScale(factor, factor, factor));
+};
+
+/** Applies a placement fix to a transform, given the world bounds of the model as it is placed now. */
+export const fixModelPlacement = (transform: ModelTransform, fix: PlacementFix, bounds: THREE.Box3) => {
+  if (fix === 'z-up') return premultiplyModelTransform(transform, new THREE.Matrix4().makeRotationX(-Math.PI / 2));
+  const offset = fix === 'ground'
+    ? new THREE.Vector3(0, -bounds.min.y, 0)
+    : bounds.getCenter(new THREE.Vector3()).negate();
+  return premultiplyModelTransform(transform, new THREE.Matrix4().makeTranslation(offset));
+};
+
+export type MetadataDiffKind = 'text' | 'count' | 'bytes' | 'length';
+
+export interface MetadataDiffRow {
+  label: string;
+  kind: MetadataDiffKind;
+  left: string | number;
+  right: string | number;
+  /** Relative change from left to right, or null for text and zero baselines. */
+  change: number | null;
+}
+
+/** Side-by-side figures of two models, with the relative change of each number. */
+export const diffMetadata = (left: ModelMetadata, right: ModelMetadata): MetadataDiffRow[] => {
+  const rows: [string, MetadataDiffKind, (metadata: ModelMetadata) => string | number][] = [
+    ['Format', 'text', m => m.format],
+    ['Payload', 'bytes', m => m.size],
+    ['Triangles', 'count', m => m.triangles],
+    ['Vertices', 'count', m => m.vertices],
+    ['Meshes', 'count', m => m.meshes],
+    ['Materials', 'count', m => m.materials],
+    ['Textures', 'count', m => m.textures],
+    ['Draw Calls', 'count', m => m.drawCalls],
+    ['GPU Geometry', 'bytes', m => m.geometryMemory],
+    ['GPU Textures', 'bytes', m => m.textureMemory],
+    ['Animations', 'count', m => m.animations.length],
+    ['Size X', 'length', m => m.dimensions.x],
+    ['Size Y', 'length', m => m.dimensions.y],
+    ['Size Z', 'length', m => m.dimensions.z]
+  ];
+  return rows.map(([label, kind, read]) => {
+    const a = read(left);
+    const b = read(right);
+    const change = typeof a === 'number' && typeof b === 'number' && a !== 0 ? (b - a) / a : null;
+    return { label, kind, left: a, right: b, change };
+  });
+};
@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import { createMeshProxy, syncMeshProxy } from './selectionOutline';
+
+/**
+ * Stencil-based section caps, after the three.js clipping stencil example.
+ * For each plane the model's back faces increment and its front faces
+ * decrement the stencil, leaving it non-zero exactly where the plane passes
+ * through the inside of a closed mesh; a quad on the plane is then drawn
+ * only there. Open meshes give ragged caps, as there is no inside to find.
+ */
+export const createSectionCaps = (target: THREE.Object3D, planes: THREE.Plane[], color: THREE.ColorRepresentation) => {
+  const group = new THREE.Group();
+  const pairs: [THREE.Mesh, THREE.Mesh][] = [];
+  const materials: THREE.Material[] = [];
+  const caps: [THREE.Plane, THREE.Mesh][] = [];
+  const capGeometry = new THREE.PlaneGeometry(1, 1);
+
+  const meshes: THREE.Mesh[] = [];
+  target.traverse(child => {
+    if ((child as THREE.Mesh).isMesh) meshes.push(child as THREE.Mesh);
+  });
+
+  const size = new THREE.Box3().setFromObject(target).getSize(new THREE.Vector3()).length() * 2 || 1;
+
+  planes.forEach((plane, i) => {
+    const stencil = {
+      depthWrite: false,
+      depthTest: false,
+      colorWrite: false,
+      stencilWrite: true,
+      stencilFunc: THREE.AlwaysStencilFunc,
+      clippingPlanes: [plane]
+    };
+    const back = new THREE.MeshBasicMaterial({
+      ...stencil,
+      side: THREE.BackSide,
+      stencilFail: THREE.IncrementWrapStencilOp,
+      stencilZFail: THREE.IncrementWrapStencilOp,
+      stencilZPass: THREE.IncrementWrapStencilOp
+    });
+    const front = new THREE.MeshBasicMaterial({
+      ...stencil,
+      side: THREE.FrontSide,
+      stencilFail: THREE.DecrementWrapStencilOp,
+      stencilZFail: THREE.DecrementWrapStencilOp,
+      stencilZPass: THREE.DecrementWrapStencilOp
+    });
+    materials.push(back, front);
+
+    meshes.forEach(mesh => [back, front].forEach(material => {
+      const proxy = createMeshProxy(mesh, material);
+      proxy.renderOrder = i * 2 + 1;
+      group.add(proxy);
+      pairs.push([mesh, proxy]);
+    }));
+
+    const capMaterial = new THREE.MeshStandardMaterial({
+      color,
+      metalness: 0.1,
+      roughness: 0.75,
+      side: THREE.DoubleSide,
+      clippingPlanes: planes.filter(other => other !== plane),
+      stencilWrite: true,
+      stencilRef: 0,
+      stencilFunc: THREE.NotEqualStencilFunc,
+      stencilFail: THREE.ReplaceStencilOp,
+      stencilZFail: THREE.ReplaceStencilOp,
+      stencilZPass: THREE.ReplaceStencilOp
+    });
+    materials.push(capMaterial);
+
+    const cap = new THREE.Mesh(capGeometry, capMaterial);
+    cap.scale.setScalar(size);
+    cap.renderOrder = i * 2 + 2;
+    // Reset the stencil so the next plane starts from zero
+    cap.onAfterRender = renderer => renderer.clearStencil();
+    cap.raycast = () => {};
+    group.add(cap);
+    caps.push([plane, cap]);
+  });
+
+  // Planes are edited in place, so the caps follow them every frame
+  const update = () => {
+    pairs.forEach(([source, proxy]) => syncMeshProxy(source, proxy));
+    caps.forEach(([plane, cap]) => {
+      plane.coplanarPoint(cap.position);
+      cap.lookAt(cap.position.x - plane.normal.x, cap.position.y - plane.normal.y, cap.position.z - plane.normal.z);
+    });
+  };
+
+  const dispose = () => {
+    capGeometry.dispose();
+    materials.forEach(material => material.dispose());
+    group.clear();
+  };
+
+  return { group, update, dispose };
+};
@@ -0,0 +1,94 @@
+import * as THREE from 'three';
+
+/**
+ * Inverted-hull outline: back faces pushed out along the normal. Thickness
+ * is in world units, scaled to the model by the caller.
+ */
+export const createOutlineMaterial = (color: THREE.ColorRepresentation) => {
+  const material = new THREE.MeshBasicMaterial({ color, side: THREE.BackSide, depthWrite: false });
+  material.userData.thickness = { value: 0.01 };
+  material.onBeforeCompile = shader => {
+    shader.uniforms.outlineThickness = material.userData.thickness;
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nuniform float outlineThickness;')
+      .replace('#include <begin_vertex>', '#include <begin_vertex>\ntransformed += normalize(objectNormal) * outlineThickness;');
+  };
+  return material;
+};
+
+/**
+ * A render-only stand-in for `mesh` drawn with another material. It shares
+ * the source geometry (and skeleton or instances) and copies its world matrix
+ * right before drawing, so it follows animation without lag. Keep it in step
+ * with `syncMeshProxy` every frame.
+ */
+export const createMeshProxy = (mesh: THREE.Mesh, material: THREE.Material) => {
+  let proxy: THREE.Mesh;
+  if ((mesh as THREE.SkinnedMesh).isSkinnedMesh) {
+    const skinned = mesh as THREE.SkinnedMesh;
+    const skinnedProxy = new THREE.SkinnedMesh(skinned.geometry, material);
+    skinnedProxy.bindMode = skinned.bindMode;
+    skinnedProxy.bind(skinned.skeleton, skinned.bindMatrix);
+    proxy = skinnedProxy;
+  } else if ((mesh as THREE.InstancedMesh).isInstancedMesh) {
+    const instanced = mesh as THREE.InstancedMesh;
+    const instancedProxy = new THREE.InstancedMesh(instanced.geometry, material, instanced.count);
+    instancedProxy.instanceMatrix = instanced.instanceMatrix;
+    proxy = instancedProxy;
+  } else {
+    proxy = new THREE.Mesh(mesh.geometry, material);
+  }
+  proxy.morphTargetInfluences = mesh.morphTargetInfluences;
+  proxy.morphTargetDictionary = mesh.morphTargetDictionary;
+  proxy.matrixAutoUpdate = false;
+  proxy.frustumCulled = false;
+  proxy.onBeforeRender = () => proxy.matrixWorld.copy(mesh.matrixWorld);
+  proxy.raycast = () => {};
+  return proxy;
+};
+
+/** Mirrors the source's effective visibility and current geometry onto its proxy. */
+export const syncMeshProxy = (source: THREE.Mesh, proxy: THREE.Mesh) => {
+  let visible = source.visible;
+  source.traverseAncestors(ancestor => { if (!ancestor.visible) visible = false; });
+  proxy.visible = visible;
+  // The simplify preview swaps geometry in place, so keep following it
+  proxy.geometry = source.geometry;
+};
+
+/**
+ * Builds an overlay that traces `target`'s meshes without adding anything to
+ * the model itself, so stats, export and raycasting never see it. Call
+ * `update` every frame to track visibility and `dispose` when done.
+ */
+export const createSelectionOutline = (target: THREE.Object3D, material: THREE.MeshBasicMaterial) => {
+  const group = new THREE.Group();
+  const pairs: [THREE.Mesh, THREE.Mesh][] = [];
+
+  target.traverse(child => {
+    const mesh = child as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.geometry.attributes.normal) return;
+    const hull = createMeshProxy(mesh, material);
+    group.add(hull);
+    pairs.push([mesh, hull]);
+  });
+
+  // Points, lines and bones have no hull to draw, so they get a bounding box instead
+  const box = new THREE.Box3();
+  const boxHelper = new THREE.Box3Helper(box, material.color);
+  boxHelper.visible = pairs.length === 0;
+  boxHelper.raycast = () => {};
+  group.add(boxHelper);
+
+  const update = () => {
+    pairs.forEach(([source, hull]) => syncMeshProxy(source, hull));
+    if (boxHelper.visible) box.setFromObject(target);
+  };
+
+  const dispose = () => {
+    boxHelper.dispose();
+    group.clear();
+  };
+
+  return { group, update, dispose };
+};
@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { MeshoptSimplifier } from 'meshoptimizer';
+
+export const simplifierReady = MeshoptSimplifier.ready;
+
+export const countTriangles = (geometry: THREE.BufferGeometry) => {
+  const position = geometry.attributes.position;
+  if (!position) return 0;
+  return Math.floor((geometry.index ? geometry.index.count : position.count) / 3);
+};
+
+const readPositions = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute) => {
+  const positions = new Float32Array(attribute.count * 3);
+  for (let i = 0; i < attribute.count; i++) {
+    positions[i * 3] = attribute.getX(i);
+    positions[i * 3 + 1] = attribute.getY(i);
+    positions[i * 3 + 2] = attribute.getZ(i);
+  }
+  return positions;
+};
+
+const compactAttribute = (
+  attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  remap: Uint32Array,
+  unique: number
+) => {
+  const { itemSize } = attribute;
+  const source = (attribute as THREE.InterleavedBufferAttribute).isInterleavedBufferAttribute
+    ? (attribute as THREE.InterleavedBufferAttribute).data.array
+    : (attribute as THREE.BufferAttribute).array;
+  const array = new (source.constructor as any)(unique * itemSize);
+  for (let v = 0; v < remap.length; v++) {
+    const target = remap[v];
+    if (target === 0xffffffff) continue;
+    for (let k = 0; k < itemSize; k++) {
+      array[target * itemSize + k] = attribute.getComponent(v, k);
+    }
+  }
+  return new THREE.BufferAttribute(array, itemSize, attribute.normalized);
+};
+
+/**
+ * Decimates a triangle geometry with meshoptimizer's simplifier. Each
+ * material group is simplified on its own so multi-material meshes keep
+ * their group ranges. `targetError` is relative to the mesh extent.
+ */
+export const simplifyGeometry = (
+  geometry: THREE.BufferGeometry,
+  ratio: number,
+  targetError: number,
+  lockBorder = false
+): THREE.BufferGeometry => {
+  const indexed = geometry.index ? geometry : mergeVertices(geometry);
+  if (!indexed.index || !indexed.attributes.position) return geometry.clone();
+
+  const indices = new Uint32Array(indexed.index.array);
+  const positions = readPositions(indexed.attributes.position);
+  const ranges = indexed.groups.length > 0
+    ? indexed.groups
+    : [{ start: 0, count: indices.length, materialIndex: 0 }];
+
+  const pieces = ranges.map(range => {
+    const slice = indices.slice(range.start, range.start + Math.min(range.count, indices.length - range.start));
+    const target = Math.floor((slice.length * ratio) / 3) * 3;
+    if (slice.length < 3 || ratio >= 1) return slice;
+    const [simplified] = MeshoptSimplifier.simplify(
+      slice, positions, 3, target, targetError, lockBorder ? ['LockBorder'] : []
+    );
+    return simplified;
+  });
+
+  const merged = new Uint32Array(pieces.reduce((sum, p) => sum + p.length, 0));
+  const result = new THREE.BufferGeometry();
+  let offset = 0;
+  pieces.forEach((piece, i) => {
+    merged.set(piece, offset);
+    if (indexed.groups.length > 0) result.addGroup(offset, piece.length, ranges[i].materialIndex);
+    offset += piece.length;
+  });
+
+  if (merged.length === 0) return result;
+
+  const [remap, unique] = MeshoptSimplifier.compactMesh(merged);
+
+  for (const name of Object.keys(indexed.attributes)) {
+    result.setAttribute(name, compactAttribute(indexed.attributes[name], remap, unique));
+  }
+  for (const name of Object.keys(indexed.morphAttributes)) {
+    result.morphAttributes[name] = indexed.morphAttributes[name].map(a => compactAttribute(a, remap, unique));
+  }
+  result.morphTargetsRelative = indexed.morphTargetsRelative;
+  result.setIndex(new THREE.BufferAttribute(merged, 1));
+  result.name = geometry.name;
+  result.computeBoundingBox();
+  result.computeBoundingSphere();
+  return result;
+};
@@ -0,0 +1,317 @@
+import * as THREE from 'three';
+import { edgeTable, triTable } from 'three/examples/jsm/objects/MarchingCubes.js';
+import { ReconstructionSettings } from '../types';
+import { allIndices, forEachNeighborhood, processPoints } from './pointProcessing';
+
+// The typings declare these as arrays of arrays; they are flat tables
+const EDGE_TABLE = edgeTable as unknown as Int32Array;
+const TRI_TABLE = triTable as unknown as Int32Array;
+
+// Cube corners in the tables' order, as x/y/z offsets
+const CORNERS = [[0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0], [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]];
+// Cube edges in the tables' order: the corner they start from and the axis they run along
+const EDGES = [[0, 0], [1, 1], [3, 0], [0, 1], [4, 0], [5, 1], [7, 0], [4, 1], [0, 2], [1, 2], [2, 2], [3, 2]];
+
+// A grid vertex takes its distance from the points within this many cells, or from none and is left undefined
+const SUPPORT_CELLS = 2;
+// Sparse clouds widen the support up to this, so gaps between scan lines still close
+const MAX_SUPPORT_CELLS = 6;
+const JACOBI_SWEEPS = 12;
+
+export const createReconstructionSettings = (): ReconstructionSettings => ({
+  resolution: 128,
+  neighbors: 16,
+  keepPoints: true
+});
+
+/** Eigenvector of the smallest eigenvalue of a symmetric 3×3 matrix (row-major), by Jacobi rotations. */
+const smallestEigenvector = (a: Float64Array, out: THREE.Vector3) => {
+  const v = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  for (let sweep = 0; sweep < JACOBI_SWEEPS; sweep++) {
+    if (Math.abs(a[1]) + Math.abs(a[2]) + Math.abs(a[5]) < 1e-20) break;
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      const apq = a[p * 3 + q];
+      if (Math.abs(apq) < 1e-30) continue;
+      const theta = (a[q * 3 + q] - a[p * 3 + p]) / (2 * apq);
+      const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+      for (let k = 0; k < 3; k++) {
+        const akp = a[k * 3 + p];
+        const akq = a[k * 3 + q];
+        a[k * 3 + p] = c * akp - s * akq;
+        a[k * 3 + q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[p * 3 + k];
+        const aqk = a[q * 3 + k];
+        a[p * 3 + k] = c * apk - s * aqk;
+        a[q * 3 + k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = v[k * 3 + p];
+        const vkq = v[k * 3 + q];
+        v[k * 3 + p] = c * vkp - s * vkq;
+        v[k * 3 + q] = s * vkp + c * vkq;
+      }
+    }
+  }
+  const smallest = a[0] <= a[4] && a[0] <= a[8] ? 0 : a[4] <= a[8] ? 1 : 2;
+  return out.set(v[smallest], v[3 + smallest], v[6 + smallest]).normalize();
+};
+
+/**
+ * Normals from the plane through each point's neighbors (PCA), oriented
+ * consistently by walking the neighbor graph from the point furthest from
+ * the centroid, whose normal is turned outward. Each disconnected patch
+ * gets its own walk.
+ */
+const estimateNormals = (positions: Float32Array, neighbors: number) => {
+  const count = positions.length / 3;
+  const normals = new Float32Array(count * 3);
+  const graph = new Uint32Array(count * neighbors);
+  const degree = new Uint8Array(count);
+  const covariance = new Float64Array(9);
+  const normal = new THREE.Vector3();
+
+  forEachNeighborhood(positions, allIndices(count), neighbors, (point, _, found, __, nearest) => {
+    let mx = positions[point * 3];
+    let my = positions[point * 3 + 1];
+    let mz = positions[point * 3 + 2];
+    for (let k = 0; k < found; k++) {
+      mx += positions[nearest[k] * 3];
+      my += positions[nearest[k] * 3 + 1];
+      mz += positions[nearest[k] * 3 + 2];
+    }
+    mx /= found + 1;
+    my /= found + 1;
+    mz /= found + 1;
+    covariance.fill(0);
+    for (let k = -1; k < found; k++) {
+      const other = k < 0 ? point : nearest[k];
+      const dx = positions[other * 3] - mx;
+      const dy = positions[other * 3 + 1] - my;
+      const dz = positions[other * 3 + 2] - mz;
+      covariance[0] += dx * dx;
+      covariance[1] += dx * dy;
+      covariance[2] += dx * dz;
+      covariance[4] += dy * dy;
+      covariance[5] += dy * dz;
+      covariance[8] += dz * dz;
+    }
+    covariance[3] = covariance[1];
+    covariance[6] = covariance[2];
+    covariance[7] = covariance[5];
+    if (found >= 2) smallestEigenvector(covariance, normal);
+    else normal.set(0, 1, 0);
+    normal.toArray(normals, point * 3);
+    graph.set(nearest.subarray(0, found), point * neighbors);
+    degree[point] = found;
+  });
+
+  const centroid = new THREE.Vector3();
+  const position = new THREE.Vector3();
+  for (let i = 0; i < count; i++) centroid.add(position.fromArray(positions, i * 3));
+  centroid.divideScalar(Math.max(count, 1));
+  const distanceFromCentroid = (i: number) =>
+    (positions[i * 3] - centroid.x) ** 2 + (positions[i * 3 + 1] - centroid.y) ** 2 + (positions[i * 3 + 2] - centroid.z) ** 2;
+
+  // Seeds are tried furthest first, so each patch is entered at its outermost point
+  const seeds = allIndices(count).sort((a, b) => distanceFromCentroid(b) - distanceFromCentroid(a));
+  const visited = new Uint8Array(count);
+  const queue = new Uint32Array(count);
+  const flip = (i: number) => {
+    normals[i * 3] = -normals[i * 3];
+    normals[i * 3 + 1] = -normals[i * 3 + 1];
+    normals[i * 3 + 2] = -normals[i * 3 + 2];
+  };
+  const dot = (i: number, j: number) =>
+    normals[i * 3] * normals[j * 3] + normals[i * 3 + 1] * normals[j * 3 + 1] + normals[i * 3 + 2] * normals[j * 3 + 2];
+
+  seeds.forEach(seed => {
+    if (visited[seed]) return;
+    const outward = (positions[seed * 3] - centroid.x) * normals[seed * 3]
+      + (positions[seed * 3 + 1] - centroid.y) * normals[seed * 3 + 1]
+      + (positions[seed * 3 + 2] - centroid.z) * normals[seed * 3 + 2];
+    if (outward < 0) flip(seed);
+    visited[seed] = 1;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = seed;
+    while (head < tail) {
+      const point = queue[head++];
+      for (let k = 0; k < degree[point]; k++) {
+        const other = graph[point * neighbors + k];
+        if (visited[other]) continue;
+        if (dot(point, other) < 0) flip(other);
+        visited[other] = 1;
+        queue[tail++] = other;
+      }
+    }
+  });
+  return normals;
+};
+
+/** Mean distance from each point to its nearest neighbor. */
+const meanSpacing = (positions: Float32Array) => {
+  const count = positions.length / 3;
+  if (count < 2) return 0;
+  let sum = 0;
+  let measured = 0;
+  forEachNeighborhood(positions, allIndices(count), 1, (_, __, found, distances) => {
+    if (found === 0) return;
+    sum += Math.sqrt(distances[0]);
+    measured++;
+  });
+  return measured > 0 ? sum / measured : 0;
+};
+
+/**
+ * Builds a triangle mesh from a point cloud, in the cloud's own space. The
+ * cloud is thinned to the grid, given normals if it has none, and turned
+ * into a signed distance field: each grid vertex takes the weighted mean
+ * distance to the tangent planes of the points around it (after Hoppe et
+ * al.). Marching cubes then extracts the zero level. Vertices with no
+ * points nearby stay undefined, so open scans give open surfaces rather
+ * than a closed blob. Point colors carry over to the mesh's vertices.
+ */
+export const reconstructSurface = (source: THREE.BufferGeometry, settings: ReconstructionSettings) => {
+  source.computeBoundingBox();
+  const box = source.boundingBox!;
+  const extent = box.getSize(new THREE.Vector3());
+  const cellSize = Math.max(extent.x, extent.y, extent.z) / settings.resolution || 1;
+
+  // Points denser than the grid add nothing but time, so each half cell keeps one
+  const thinned = processPoints(source, new THREE.Matrix4(), { crop: null, outliers: null, voxelSize: cellSize / 2, targetCount: null });
+  const positions = (thinned.attributes.position as THREE.BufferAttribute).array as Float32Array;
+  const count = thinned.attributes.position.count;
+  const surface = new THREE.BufferGeometry();
+  if (count < 3) return surface;
+
+  const normals = thinned.attributes.normal
+    ? Float32Array.from((thinned.attributes.normal as THREE.BufferAttribute).array)
+    : estimateNormals(positions, Math.min(settings.neighbors, count - 1));
+  const colorAttribute = thinned.attributes.color;
+  const colors = colorAttribute ? new Float32Array(count * 3) : null;
+  if (colors && colorAttribute) {
+    for (let i = 0; i < count; i++) {
+      colors[i * 3] = colorAttribute.getX(i);
+      colors[i * 3 + 1] = colorAttribute.getY(i);
+      colors[i * 3 + 2] = colorAttribute.getZ(i);
+    }
+  }
+
+  const support = Math.min(MAX_SUPPORT_CELLS, Math.max(SUPPORT_CELLS, Math.ceil(meanSpacing(positions) * 2 / cellSize)));
+  const radius = support * cellSize;
+  const origin = box.min.clone().subScalar(radius + cellSize);
+  const dims = [extent.x, extent.y, extent.z].map(size => Math.ceil((size + 2 * (radius + cellSize)) / cellSize) + 1);
+  const [nx, ny, nz] = dims;
+  const vertexCount = nx * ny * nz;
+  const field = new Float32Array(vertexCount);
+  const weights = new Float32Array(vertexCount);
+  const fieldColors = colors ? new Float32Array(vertexCount * 3) : null;
+
+  // Splat each point's tangent plane onto the grid vertices within its support
+  for (let i = 0; i < count; i++) {
+    const px = positions[i * 3];
+    const py = positions[i * 3 + 1];
+    const pz = positions[i * 3 + 2];
+    const gx = (px - origin.x) / cellSize;
+    const gy = (py - origin.y) / cellSize;
+    const gz = (pz - origin.z) / cellSize;
+    for (let z = Math.ceil(gz - support); z <= Math.floor(gz + support); z++) {
+      for (let y = Math.ceil(gy - support); y <= Math.floor(gy + support); y++) {
+        for (let x = Math.ceil(gx - support); x <= Math.floor(gx + support); x++) {
+          const dx = origin.x + x * cellSize - px;
+          const dy = origin.y + y * cellSize - py;
+          const dz = origin.z + z * cellSize - pz;
+          const falloff = 1 - (dx * dx + dy * dy + dz * dz) / (radius * radius);
+          if (falloff <= 0) continue;
+          const weight = falloff * falloff;
+          const vertex = x + nx * (y + ny * z);
+          field[vertex] += weight * (dx * normals[i * 3] + dy * normals[i * 3 + 1] + dz * normals[i * 3 + 2]);
+          weights[vertex] += weight;
+          if (fieldColors && colors) {
+            fieldColors[vertex * 3] += weight * colors[i * 3];
+            fieldColors[vertex * 3 + 1] += weight * colors[i * 3 + 1];
+            fieldColors[vertex * 3 + 2] += weight * colors[i * 3 + 2];
+          }
+        }
+      }
+    }
+  }
+  for (let vertex = 0; vertex < vertexCount; vertex++) {
+    if (weights[vertex] > 0) field[vertex] /= weights[vertex];
+  }
+
+  // Marching cubes, sharing each edge's vertex between the cubes around it
+  const outPositions: number[] = [];
+  const outColors: number[] = [];
+  const indices: number[] = [];
+  const edgeVertices = new Map<number, number>();
+  const corners = new Int32Array(8);
+  const cubeEdges = new Int32Array(12);
+  const strides = [1, nx, nx * ny];
+
+  const edgeVertex = (from: number, axis: number) => {
+    const key = from * 3 + axis;
+    const existing = edgeVertices.get(key);
+    if (existing !== undefined) return existing;
+    const to = from + strides[axis];
+    const t = field[from] / (field[from] - field[to]);
+    const x = from % nx;
+    const y = Math.floor(from / nx) % ny;
+    const z = Math.floor(from / (nx * ny));
+    outPositions.push(
+      origin.x + (x + (axis === 0 ? t : 0)) * cellSize,
+      origin.y + (y + (axis === 1 ? t : 0)) * cellSize,
+      origin.z + (z + (axis === 2 ? t : 0)) * cellSize
+    );
+    if (fieldColors) {
+      for (let c = 0; c < 3; c++) {
+        const a = fieldColors[from * 3 + c] / weights[from];
+        const b = fieldColors[to * 3 + c] / weights[to];
+        outColors.push(a + (b - a) * t);
+      }
+    }
+    const index = outPositions.length / 3 - 1;
+    edgeVertices.set(key, index);
+    return index;
+  };
+
+  for (let z = 0; z < nz - 1; z++) {
+    for (let y = 0; y < ny - 1; y++) {
+      for (let x = 0; x < nx - 1; x++) {
+        let cube = 0;
+        let defined = true;
+        for (let c = 0; c < 8; c++) {
+          const vertex = (x + CORNERS[c][0]) + nx * ((y + CORNERS[c][1]) + ny * (z + CORNERS[c][2]));
+          if (weights[vertex] === 0) {
+            defined = false;
+            break;
+          }
+          corners[c] = vertex;
+          // Set bits mark corners outside the surface, as in the tables' metaball convention
+          if (field[vertex] > 0) cube |= 1 << c;
+        }
+        if (!defined) continue;
+        const bits = EDGE_TABLE[cube];
+        if (bits === 0) continue;
+        for (let e = 0; e < 12; e++) {
+          if (bits & (1 << e)) cubeEdges[e] = edgeVertex(corners[EDGES[e][0]], EDGES[e][1]);
+        }
+        for (let k = cube * 16; TRI_TABLE[k] !== -1; k += 3) {
+          indices.push(cubeEdges[TRI_TABLE[k]], cubeEdges[TRI_TABLE[k + 1]], cubeEdges[TRI_TABLE[k + 2]]);
+        }
+      }
+    }
+  }
+
+  if (indices.length === 0) return surface;
+  surface.setAttribute('position', new THREE.Float32BufferAttribute(outPositions, 3));
+  if (fieldColors) surface.setAttribute('color', new THREE.Float32BufferAttribute(outColors, 3));
+  const vertices = outPositions.length / 3;
+  surface.setIndex(vertices > 65535 ? new THREE.Uint32BufferAttribute(indices, 1) : new THREE.Uint16BufferAttribute(indices, 1));
+  surface.computeVertexNormals();
+  return surface;
+};
@@ -0,0 +1,78 @@
+import { Copc, Getter, Hierarchy } from 'copc';
+import { getLazPerf, lasOrigin, lasViewGeometry } from '../utils/lasParser';
+import { collectTransferables, serializeGeometry } from '../utils/geometrySerialization';
+import type { OctreeNodeData } from '../utils/pointOctree';
+import type { CopcRequest, CopcResponse } from '../utils/copcSource';
+
+const post = (response: CopcResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+let getter: Getter | null = null;
+let copc: Copc | null = null;
+let hierarchy: Hierarchy.Node.Map = {};
+let origin: number[] = [0, 0, 0];
+
+/** Reads the whole hierarchy up front; it is small next to the point data. */
+const loadHierarchy = async (get: Getter, root: Hierarchy.Page) => {
+  const nodes: Hierarchy.Node.Map = {};
+  const pages = [root];
+  while (pages.length > 0) {
+    const subtree = await Copc.loadHierarchyPage(get, pages.pop()!);
+    Object.assign(nodes, subtree.nodes);
+    Object.values(subtree.pages).forEach(page => { if (page) pages.push(page); });
+  }
+  return nodes;
+};
+
+const open = async (file: Blob) => {
+  getter = async (begin, end) => new Uint8Array(await file.slice(begin, end).arrayBuffer());
+  copc = await Copc.create(getter);
+  hierarchy = await loadHierarchy(getter, copc.info.rootHierarchyPage);
+  // Same re-centering as the full-file LAS parser, for float32 precision
+  origin = lasOrigin(copc.header);
+
+  const cube = copc.info.cube;
+  const rootSize = cube[3] - cube[0];
+  const nodes: OctreeNodeData[] = Object.entries(hierarchy).map(([key, node]) => {
+    const [level, x, y, z] = key.split('-').map(Number);
+    const size = rootSize / 2 ** level;
+    return {
+      key,
+      parent: level > 0 ? `${level - 1}-${x >> 1}-${y >> 1}-${z >> 1}` : null,
+      level,
+      min: [cube[0] + x * size - origin[0], cube[1] + y * size - origin[1], cube[2] + z * size - origin[2]],
+      size,
+      spacing: copc!.info.spacing / 2 ** level,
+      pointCount: node?.pointCount ?? 0
+    };
+  });
+  const { min, max } = copc.header;
+  return {
+    nodes,
+    bounds: [min[0] - origin[0], min[1] - origin[1], min[2] - origin[2], max[0] - origin[0], max[1] - origin[1], max[2] - origin[2]] as [number, number, number, number, number, number],
+    // Nodes always get colors, from RGB or else shaded by intensity
+    hasColor: true
+  };
+};
+
+self.onmessage = async (event: MessageEvent<CopcRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'open') {
+      const { nodes, bounds, hasColor } = await open(request.file);
+      post({ id: request.id, type: 'opened', nodes, bounds, hasColor });
+    } else if (request.type === 'node') {
+      const node = hierarchy[request.key];
+      if (!getter || !copc || !node || node.pointCount === 0) {
+        post({ id: request.id, type: 'node', geometry: null });
+        return;
+      }
+      const view = await Copc.loadPointDataView(getter, copc, node, { lazPerf: await getLazPerf() });
+      const geometry = serializeGeometry(lasViewGeometry(view, origin));
+      post({ id: request.id, type: 'node', geometry }, collectTransferables([{ name: '', kind: 'points', geometry, materials: [] }]));
+    }
+  } catch (e) {
+    post({ id: request.id, type: 'error', message: (e as Error)?.message || String(e) });
+  }
+};
@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { PCDLoader } from 'three/examples/jsm/loaders/PCDLoader.js';
+import { XYZLoader } from 'three/examples/jsm/loaders/XYZLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { compressGLB } from '../utils/gltfCompression';
+import { parseLAS } from '../utils/lasParser';
+import { parseE57 } from '../utils/e57Parser';
+import { collectTransferables, deserializeGeometry, serializeGeometry, serializeObject, SerializedObject } from '../utils/geometrySerialization';
+import { processPoints } from '../utils/pointProcessing';
+import { buildOctree, OCTREE_MIN_POINTS } from '../utils/pointOctree';
+import { reconstructSurface } from '../utils/surfaceReconstruction';
+import { measureDeviation } from '../utils/deviation';
+import { refineRegistration } from '../utils/registration';
+import type { SerializedOctreeNode, WorkerRequest, WorkerResponse } from '../utils/pipelineWorker';
+
+const post = (response: WorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+interface ParsedModel {
+  objects: SerializedObject[];
+  materialLibraries: string[];
+  octree?: SerializedOctreeNode[];
+}
+
+const pointsOnly = (geometry: THREE.BufferGeometry): ParsedModel => geometry.attributes.position.count >= OCTREE_MIN_POINTS
+  ? { objects: [], materialLibraries: [], octree: buildOctree(geometry).map(node => ({ ...node, geometry: serializeGeometry(node.geometry!) })) }
+  : { objects: [{ name: '', kind: 'points', geometry: serializeGeometry(geometry), materials: [] }], materialLibraries: [] };
+
+// Vertex properties PLYLoader maps on its own (positions, normals, UVs, colors)
+const PLY_KNOWN_PROPERTIES = [
+  'x', 'px', 'posx', 'y', 'py', 'posy', 'z', 'pz', 'posz', 'nx', 'normalx', 'ny', 'normaly', 'nz', 'normalz',
+  's', 'u', 'texture_u', 'tx', 't', 'v', 'texture_v', 'ty', 'alpha',
+  'red', 'diffuse_red', 'r', 'diffuse_r', 'green', 'diffuse_green', 'g', 'diffuse_g', 'blue', 'diffuse_blue', 'b', 'diffuse_b'
+];
+
+/**
+ * PLYLoader drops vertex properties it doesn't know unless they are mapped,
+ * which would lose scalar fields such as intensity; map each one to an
+ * attribute of the same name.
+ */
+const plyScalarProperties = (buffer: ArrayBuffer) => {
+  const header = new TextDecoder().decode(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 65536)));
+  const end = header.indexOf('end_header');
+  const mapping: Record<string, string[]> = {};
+  if (end < 0) return mapping;
+
+  let inVertex = false;
+  for (const line of header.slice(0, end).split(/\r?\n/)) {
+    const [keyword, type, name] = line.trim().split(/\s+/);
+    if (keyword === 'element') inVertex = type === 'vertex';
+    else if (inVertex && keyword === 'property' && type !== 'list' && name && !PLY_KNOWN_PROPERTIES.includes(name)) mapping[name] = [name];
+  }
+  return mapping;
+};
+
+const parseModel = async (ext: string, buffer: ArrayBuffer): Promise<ParsedModel> => {
+  switch (ext) {
+    case 'obj': {
+      const group = new OBJLoader().parse(new TextDecoder().decode(buffer));
+      return { objects: serializeObject(group), materialLibraries: (group as any).materialLibraries || [] };
+    }
+    case 'ply': {
+      const loader = new PLYLoader();
+      loader.setCustomPropertyNameMapping(plyScalarProperties(buffer));
+      const geometry = loader.parse(buffer);
+      // Faceless PLY files are point clouds, and big ones go to the octree like any other
+      if ((!geometry.index || geometry.index.count === 0) && geometry.attributes.position.count >= OCTREE_MIN_POINTS) return pointsOnly(geometry);
+      return {
+        objects: [{ name: '', kind: 'mesh', geometry: serializeGeometry(geometry), materials: [] }],
+        materialLibraries: []
+      };
+    }
+    case 'pcd': {
+      const points = new PCDLoader().parse(buffer);
+      if (points.geometry.attributes.position.count >= OCTREE_MIN_POINTS) return pointsOnly(points.geometry);
+      return { objects: serializeObject(points), materialLibraries: [] };
+    }
+    case 'xyz': {
+      // The typings still declare the old callback form; the loader returns the geometry
+      const loader = new XYZLoader() as unknown as { parse: (text: string) => THREE.BufferGeometry };
+      return pointsOnly(loader.parse(new TextDecoder().decode(buffer)));
+    }
+    case 'stl':
+      return {
+        objects: [{ name: '', kind: 'mesh', geometry: serializeGeometry(new STLLoader().parse(buffer)), materials: [] }],
+        materialLibraries: []
+      };
+    case 'las':
+    case 'laz':
+      return pointsOnly(await parseLAS(buffer));
+    case 'e57':
+      return pointsOnly(parseE57(buffer));
+    default:
+      throw new Error(`Unsupported format: ${ext}`);
+  }
+};
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'parse') {
+      const { objects, materialLibraries, octree } = await parseModel(request.ext, request.buffer);
+      const octreeObjects = (octree ?? []).map(node => ({ name: '', kind: 'points' as const, geometry: node.geometry, materials: [] }));
+      post({ type: 'parsed', objects, materialLibraries, octree }, collectTransferables([...objects, ...octreeObjects]));
+    } else if (request.type === 'compress') {
+      const result = await compressGLB(request.glb, request.config, async (stage, fraction = 0) => {
+        post({ type: 'progress', stage, fraction });
+      });
+      post({ type: 'compressed', data: result.data, textures: result.textures }, [result.data.buffer as ArrayBuffer]);
+    } else if (request.type === 'process-points') {
+      const matrix = new THREE.Matrix4().fromArray(request.matrix);
+      const geometry = serializeGeometry(processPoints(deserializeGeometry(request.geometry), matrix, request.options));
+      post({ type: 'processed', geometry }, collectTransferables([{ name: '', kind: 'points', geometry, materials: [] }]));
+    } else if (request.type === 'reconstruct') {
+      const geometry = serializeGeometry(reconstructSurface(deserializeGeometry(request.geometry), request.settings));
+      post({ type: 'processed', geometry }, collectTransferables([{ name: '', kind: 'mesh', geometry, materials: [] }]));
+    } else if (request.type === 'deviation') {
+      const distances = measureDeviation(deserializeGeometry(request.reference), request.positions);
+      post({ type: 'deviation', distances }, [distances.buffer]);
+    } else if (request.type === 'register') {
+      const { matrix, rms } = refineRegistration(deserializeGeometry(request.reference), request.positions, request.settings, (iteration, rms) => {
+        post({ type: 'registration-step', iteration, rms });
+      });
+      post({ type: 'registered', matrix: matrix.toArray(), rms });
+    }
+  } catch (e) {
+    post({ type: 'error', message: (e as Error)?.message || String(e) });
+  }
+};